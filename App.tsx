@@ -1,43 +1,255 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, {
+  useState,
+  useEffect,
+  useCallback,
+  useMemo,
+  useRef,
+} from 'react';
 
 import { Toolbar } from './components/Toolbar';
 import { Canvas } from './components/Canvas';
-import { ReplayControls } from './components/Replay';
+import { PlaybackControls, ReplayControls } from './components/Replay';
 import {
   Tool,
-  CanvasTransform,
-  SpotlightState,
   ClickRecord,
+  ClickSequence,
+  ReplayCursorState,
   Slide,
+  StepTiming,
+  TimedPoint,
+  ToolState,
+  VideoAction,
 } from './types';
 import { useKeyboardShortcuts } from './hooks/useKeyboardShortcuts';
 import { ChevronLeftIcon, ChevronRightIcon } from './components/icons';
+import { SkippedFile, importMediaFiles, revokeMediaUrl } from './utils/media';
+import {
+  PROJECT_FILE_EXTENSION,
+  readProjectFile,
+  saveProjectFile,
+} from './utils/exportUtils';
+import { exportPlayerFile } from './utils/playerExport';
+import { exportFrameZip, exportHandoutPdf } from './utils/frameExport';
+import { recordReplayVideo } from './utils/videoExport';
+import { ProjectValidationError } from './utils/projectSchema';
+import { Point, convertLegacyProject } from './utils/coordinates';
+import {
+  StoredProjectSummary,
+  deleteStoredProject,
+  isProjectStoreAvailable,
+  listStoredProjects,
+  loadStoredProject,
+} from './utils/projectStore';
+import { useAutosave } from './hooks/useAutosave';
+import { useHistory } from './hooks/useHistory';
+import { RecentProjectsDialog } from './components/RecentProjectsDialog';
+import { SequenceEditor } from './components/SequenceEditor';
+import { PresenterView } from './components/PresenterView';
+import { NotesDrawer } from './components/NotesDrawer';
+import { SpeakerNotes } from './components/Notes';
+import { useElementSize } from './hooks/useElementSize';
+import { useAutoReplay } from './hooks/useAutoReplay';
+import { useStepReplay } from './hooks/useStepReplay';
+import { TweenOptions } from './hooks/useTween';
+import { usePresenterBroadcast } from './hooks/usePresenterBroadcast';
+import {
+  AudienceFrame,
+  isPresenterChannelAvailable,
+  openAudienceWindow,
+} from './utils/presenterChannel';
+import {
+  DEFAULT_STEP_TIMING,
+  dwellFromCaptureGap,
+  updateStepTiming,
+} from './utils/timing';
+import {
+  CaptureTarget,
+  applyCapture,
+  INITIAL_TRANSFORM,
+  createStepId,
+  describeStep,
+  duplicateStep,
+  getMoveDestination,
+  getSlideStatesAtStep,
+  moveStep,
+  removeStep,
+  slideStateFromToolState,
+} from './utils/sequence';
+import { AnnotationStyle, DEFAULT_ANNOTATION_STYLE } from './utils/annotations';
+import { AnnotationPalette } from './components/AnnotationPalette';
+import { DEFAULT_INK_STYLE, InkStyle } from './utils/ink';
+import { InkPalette } from './components/InkPalette';
+import { DEFAULT_SPOTLIGHT_STYLE, SpotlightStyle } from './utils/spotlight';
+import { SpotlightPalette } from './components/SpotlightPalette';
+import { MAX_PATH_MS, createPath, getPathDuration } from './utils/path';
+import { SlideSorter } from './components/SlideSorter';
+import {
+  Deck,
+  duplicateSlide,
+  insertSlides,
+  moveSlide,
+  nextSlideId,
+  removeSlide,
+} from './utils/slides';
+import {
+  createSequence,
+  duplicateSequence,
+  getActiveSequence,
+  getUniqueSequenceName,
+  removeSequence,
+  renameSequence,
+  updateSequenceSteps,
+} from './utils/sequences';
+import { ImportSummary } from './components/ImportSummary';
+import { ExportDialog, ExportRequest } from './components/ExportDialog';
+import { isPdfFile } from './utils/pdf';
+import { ShortcutsDialog } from './components/ShortcutsDialog';
+import { CommandPalette, PaletteItem } from './components/CommandPalette';
+import {
+  CommandId,
+  CommandStates,
+  SHORTCUT_COMMANDS,
+  getKeyBindings,
+  getShortcutHint,
+  loadShortcutSettings,
+  saveShortcutSettings,
+} from './utils/shortcuts';
 
-const INITIAL_TRANSFORM: CanvasTransform = { scale: 1, x: 0, y: 0 };
 const createEmptySlide = (): Slide => ({
   id: Date.now(),
   mediaUrl: null,
   mediaType: null,
   transform: INITIAL_TRANSFORM,
   spotlight: null,
+  notes: '',
+  annotations: [],
+  visibleAnnotationIds: [],
+  video: null,
 });
+const createProjectId = () => `project-${Date.now()}`;
+const DEFAULT_PROJECT_NAME = 'Untitled presentation';
 
 const App: React.FC = () => {
   const [activeTool, setActiveTool] = useState<Tool>(Tool.NONE);
   const [isCapturing, setIsCapturing] = useState(false);
   const [slides, setSlides] = useState<Slide[]>([createEmptySlide()]);
   const [currentSlideIndex, setCurrentSlideIndex] = useState(0);
-  const [clickSequence, setClickSequence] = useState<ClickRecord[]>([]);
+  const [sequences, setSequences] = useState<ClickSequence[]>(() => [
+    createSequence(),
+  ]);
+  const [activeSequenceId, setActiveSequenceId] = useState(
+    () => sequences[0]?.id ?? ''
+  );
   const [isPlaying, setIsPlaying] = useState(false);
   const [isStepping, setIsStepping] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const [playbackSpeed, setPlaybackSpeed] = useState(1);
   const [currentStep, setCurrentStep] = useState(0);
-  const [replayCursor, setReplayCursor] = useState<{
-    x: number;
-    y: number;
-    slideIndex: number;
+  const [replayCursor, setReplayCursor] = useState<ReplayCursorState | null>(
+    null
+  );
+  const [stepAnimation, setStepAnimation] = useState<TweenOptions | null>(null);
+  const [projectId, setProjectId] = useState(createProjectId);
+  const [projectName, setProjectName] = useState(DEFAULT_PROJECT_NAME);
+  const [recentProjects, setRecentProjects] = useState<StoredProjectSummary[]>(
+    []
+  );
+  const [recentDialog, setRecentDialog] = useState<'restore' | 'browse' | null>(
+    null
+  );
+  const [isSequenceEditorOpen, setIsSequenceEditorOpen] = useState(false);
+  const [selectedStepIndex, setSelectedStepIndex] = useState<number | null>(
+    null
+  );
+  const [captureTarget, setCaptureTarget] = useState<CaptureTarget>({
+    mode: 'append',
+  });
+  const [isPresenting, setIsPresenting] = useState(false);
+  const [isNotesOpen, setIsNotesOpen] = useState(false);
+  const [isSlideSorterOpen, setIsSlideSorterOpen] = useState(false);
+  const [isExportDialogOpen, setIsExportDialogOpen] = useState(false);
+  const [importReport, setImportReport] = useState<{
+    isImporting: boolean;
+    importedCount: number;
+    skipped: SkippedFile[];
   } | null>(null);
+  const [annotationStyle, setAnnotationStyle] = useState<AnnotationStyle>(
+    DEFAULT_ANNOTATION_STYLE
+  );
+  const [inkStyle, setInkStyle] = useState<InkStyle>(DEFAULT_INK_STYLE);
+  const [spotlightStyle, setSpotlightStyle] = useState<SpotlightStyle>(
+    DEFAULT_SPOTLIGHT_STYLE
+  );
+  const [isRecordingPath, setIsRecordingPath] = useState(false);
+  const [shortcutSettings, setShortcutSettings] =
+    useState(loadShortcutSettings);
+  const [isShortcutsOpen, setIsShortcutsOpen] = useState(false);
+  const [isBlanked, setIsBlanked] = useState(false);
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+  const slidesContainerRef = useRef<HTMLDivElement>(null);
+  const projectInputRef = useRef<HTMLInputElement>(null);
+  const lastCaptureRef = useRef<{ id: number; time: number } | null>(null);
+  // Pointer samples since the last captured step, stamped with Date.now().
+  const pointerSamplesRef = useRef<TimedPoint[]>([]);
+  const viewportSize = useElementSize(slidesContainerRef);
+
+  // Capture, the step list and replay all work on the active sequence.
+  const activeSequence = getActiveSequence(sequences, activeSequenceId);
+  const clickSequence = activeSequence?.steps ?? [];
+  const setClickSequence = (update: (steps: ClickRecord[]) => ClickRecord[]) =>
+    setSequences((prev) => updateSequenceSteps(prev, activeSequenceId, update));
+
+  const restoreSnapshot = useCallback(
+    (snapshot: {
+      slides: Slide[];
+      sequences: ClickSequence[];
+      activeSequenceId: string;
+    }) => {
+      setSlides(snapshot.slides);
+      setSequences(snapshot.sequences);
+      setActiveSequenceId(snapshot.activeSequenceId);
+      setCurrentSlideIndex((prev) =>
+        Math.min(prev, snapshot.slides.length - 1)
+      );
+    },
+    []
+  );
+  const deckRef = useRef<Deck>({ slides, sequences });
+  deckRef.current = { slides, sequences };
+  const history = useHistory(
+    { slides, sequences, activeSequenceId },
+    restoreSnapshot
+  );
+  const { record: recordHistory, seal: sealHistory, getSnapshots } = history;
+
+  // Media URLs stay alive while the current slides or any undo/redo snapshot
+  // use them, so replacing, deleting or loading never breaks an undo.
+  const mediaUrlsRef = useRef(new Set<string>());
+  useEffect(() => {
+    const inUse = new Set(
+      [{ slides }, ...getSnapshots()].flatMap((snapshot) =>
+        snapshot.slides.flatMap((slide) =>
+          slide.mediaUrl ? [slide.mediaUrl] : []
+        )
+      )
+    );
+    mediaUrlsRef.current.forEach((url) => {
+      if (!inUse.has(url)) revokeMediaUrl(url);
+    });
+    mediaUrlsRef.current = inUse;
+  }, [slides, getSnapshots]);
+
+  useAutosave(
+    projectId,
+    projectName,
+    slides,
+    sequences,
+    activeSequenceId,
+    !isPlaying && !isStepping
+  );
 
   const addSlide = () => {
+    recordHistory();
     setSlides((prev) => [
       ...prev,
       { ...createEmptySlide(), id: Date.now() + prev.length },
@@ -56,42 +268,66 @@ const App: React.FC = () => {
   }, [isPlaying]);
 
   const toggleCapture = useCallback(() => setIsCapturing((prev) => !prev), []);
-  useKeyboardShortcuts(
-    setActiveTool,
-    toggleCapture,
-    goToNextSlide,
-    goToPrevSlide
+
+  const isReplaying = isPlaying || isStepping;
+  const { undo: undoHistory, redo: redoHistory } = history;
+  const handleUndo = useCallback(() => {
+    if (!isReplaying) undoHistory();
+  }, [isReplaying, undoHistory]);
+  const handleRedo = useCallback(() => {
+    if (!isReplaying) redoHistory();
+  }, [isReplaying, redoHistory]);
+
+  const keyBindings = useMemo(
+    () => getKeyBindings(shortcutSettings),
+    [shortcutSettings]
   );
+  useEffect(() => {
+    saveShortcutSettings(shortcutSettings);
+  }, [shortcutSettings]);
+  const withShortcut = (title: string, id: CommandId) => {
+    const hint = getShortcutHint(keyBindings, id);
+    return hint ? `${title} (${hint})` : title;
+  };
 
-  const handleFileForSlide = useCallback((file: File, slideIndex: number) => {
-    if (file) {
-      const url = URL.createObjectURL(file);
-      const type = file.type.startsWith('image/')
-        ? 'image'
-        : file.type.startsWith('video/')
-          ? 'video'
-          : null;
-      if (type) {
-        setSlides((prevSlides) => {
-          const newSlides = [...prevSlides];
-          const slideToUpdate = newSlides[slideIndex];
-          if (slideToUpdate) {
-            if (slideToUpdate.mediaUrl) {
-              URL.revokeObjectURL(slideToUpdate.mediaUrl);
-            }
-            newSlides[slideIndex] = {
-              ...slideToUpdate,
-              mediaUrl: url,
-              mediaType: type,
-            };
-          }
-          return newSlides;
-        });
-      } else {
-        alert('Unsupported file type. Please use an image or video.');
-      }
+  // The first file replaces the media of the slide it was dropped on; the
+  // rest become new slides right after it, in order. The previous media URL
+  // is released once no undo step needs it.
+  const handleFilesForSlide = async (files: File[], slideIndex: number) => {
+    if (files.some(isPdfFile)) {
+      setImportReport({ isImporting: true, importedCount: 0, skipped: [] });
     }
-  }, []);
+    const { media, skipped } = await importMediaFiles(files);
+    setImportReport(
+      skipped.length > 0
+        ? { isImporting: false, importedCount: media.length, skipped }
+        : null
+    );
+    const [first, ...rest] = media;
+    if (!first) return;
+    editDeck((deck) => {
+      const slide = deck.slides[slideIndex];
+      if (!slide) return deck;
+      const id = nextSlideId(deck.slides);
+      return insertSlides(
+        {
+          ...deck,
+          slides: deck.slides.map((other, index) =>
+            index === slideIndex
+              ? { ...other, mediaUrl: first.url, mediaType: first.type }
+              : other
+          ),
+        },
+        slideIndex + 1,
+        rest.map((item, offset) => ({
+          ...createEmptySlide(),
+          id: id + offset,
+          mediaUrl: item.url,
+          mediaType: item.type,
+        }))
+      );
+    }, slideIndex);
+  };
 
   const updateSlideState = useCallback(
     (slideIndex: number, updates: Partial<Slide>) => {
@@ -107,43 +343,248 @@ const App: React.FC = () => {
     []
   );
 
+  // User edits go through history; replay drives `updateSlideState` directly.
+  const editSlideState = (slideIndex: number, updates: Partial<Slide>) => {
+    recordHistory(`slide-${slideIndex}`);
+    updateSlideState(slideIndex, updates);
+  };
+
   const handleRecordClick = (
     x: number,
     y: number,
-    transform: CanvasTransform,
-    spotlight: SpotlightState | null
+    toolState: ToolState,
+    timing?: Partial<StepTiming>,
+    videoAction: VideoAction | null = null
   ) => {
     if (!isCapturing) return;
-    setClickSequence((prev) => [
-      ...prev,
-      {
-        id: Date.now(),
-        slideIndex: currentSlideIndex,
-        x,
-        y,
-        toolState: { transform, spotlight },
-      },
-    ]);
+    // Shares the key of the slide edit made by the same click, so the edit
+    // and its captured step are undone together, then closes the entry so
+    // the next click (however quick) gets its own.
+    recordHistory(`slide-${currentSlideIndex}`);
+    sealHistory();
+    const now = Date.now();
+    const path = isRecordingPath
+      ? createPath(pointerSamplesRef.current, { x, y, t: now })
+      : [];
+    pointerSamplesRef.current = [];
+    // A recorded path replaces the cursor's glide, so it sets the travel time.
+    const pathTiming =
+      getPathDuration(path) > 0 ? { transitionMs: getPathDuration(path) } : {};
+    const record: ClickRecord = {
+      id: createStepId(),
+      slideIndex: currentSlideIndex,
+      x,
+      y,
+      toolState,
+      timing: { ...DEFAULT_STEP_TIMING, ...pathTiming, ...timing },
+      notes: '',
+      path,
+      videoAction,
+    };
+    const lastCapture = lastCaptureRef.current;
+    setClickSequence((prev) => {
+      let next = prev;
+      // While appending, the pause before this click becomes the previous
+      // step's dwell so replay keeps the presenter's own rhythm.
+      if (
+        captureTarget.mode === 'append' &&
+        lastCapture &&
+        prev[prev.length - 1]?.id === lastCapture.id
+      ) {
+        const previous = prev[prev.length - 1] as ClickRecord;
+        next = updateStepTiming(prev, lastCapture.id, {
+          dwellMs: dwellFromCaptureGap(
+            now - lastCapture.time,
+            previous.timing,
+            record.timing
+          ),
+        });
+      }
+      return applyCapture(next, record, captureTarget);
+    });
+    lastCaptureRef.current =
+      captureTarget.mode === 'append' ? { id: record.id, time: now } : null;
+    if (captureTarget.mode === 'replace') {
+      // Re-capturing a single step is a one-shot operation.
+      setIsCapturing(false);
+    } else if (captureTarget.mode === 'insert') {
+      setCaptureTarget({ mode: 'insert', index: captureTarget.index + 1 });
+    }
+  };
+
+  useEffect(() => {
+    if (!isCapturing) setCaptureTarget({ mode: 'append' });
+  }, [isCapturing]);
+
+  const handlePointerMove = (point: Point) => {
+    if (!isCapturing || !isRecordingPath) return;
+    const now = Date.now();
+    pointerSamplesRef.current = [
+      ...pointerSamplesRef.current.filter(
+        (sample) => sample.t >= now - MAX_PATH_MS
+      ),
+      { ...point, t: now },
+    ];
+  };
+
+  // Paths only lead up to clicks on the slide they were recorded on.
+  useEffect(() => {
+    pointerSamplesRef.current = [];
+  }, [currentSlideIndex, isCapturing]);
+
+  // The look of the spotlight also applies to the one already on the slide.
+  const handleSpotlightStyleChange = (style: SpotlightStyle) => {
+    setSpotlightStyle(style);
+    const spotlight = slides[currentSlideIndex]?.spotlight;
+    if (!spotlight) return;
+    const { dimOpacity, blur, feather } = style;
+    if (
+      dimOpacity !== spotlight.dimOpacity ||
+      blur !== spotlight.blur ||
+      feather !== spotlight.feather
+    ) {
+      editSlideState(currentSlideIndex, {
+        spotlight: { ...spotlight, dimOpacity, blur, feather },
+      });
+    }
+  };
+
+  const handleSlideNotesChange = (notes: string) => {
+    const slide = slides[currentSlideIndex];
+    if (!slide) return;
+    recordHistory(`notes-slide-${slide.id}`);
+    updateSlideState(currentSlideIndex, { notes });
+  };
+
+  const handleStepNotesChange = (stepId: number, notes: string) => {
+    recordHistory(`notes-step-${stepId}`);
+    setClickSequence((prev) =>
+      prev.map((step) => (step.id === stepId ? { ...step, notes } : step))
+    );
+  };
+
+  const handleSelectStep = (index: number) => {
+    const record = clickSequence[index];
+    if (!record) return;
+    setSelectedStepIndex(index);
+    setCurrentSlideIndex(record.slideIndex);
+    // Previewing is not an edit, so it bypasses history like replay does.
+    // It shows the step's video frame without starting playback.
+    const { video } = record.toolState;
+    updateSlideState(record.slideIndex, {
+      ...slideStateFromToolState(record.toolState),
+      video: video && { ...video, isPlaying: false },
+    });
+  };
+
+  const editSequence = (edit: (sequence: ClickRecord[]) => ClickRecord[]) => {
+    recordHistory();
+    setClickSequence(edit);
+    setSelectedStepIndex(null);
   };
 
-  const handleReplay = () => {
-    if (clickSequence.length > 0 && !isPlaying) {
+  const handlePickSequence = (id: string) => {
+    setActiveSequenceId(id);
+    setIsCapturing(false);
+    setSelectedStepIndex(null);
+    lastCaptureRef.current = null;
+  };
+
+  const handleCreateSequence = () => {
+    const sequence = createSequence(
+      getUniqueSequenceName(sequences, `Sequence ${sequences.length + 1}`)
+    );
+    recordHistory();
+    setSequences((prev) => [...prev, sequence]);
+    handlePickSequence(sequence.id);
+  };
+
+  const handleRenameSequence = (name: string) => {
+    recordHistory(`rename-sequence-${activeSequenceId}`);
+    setSequences((prev) => renameSequence(prev, activeSequenceId, name));
+  };
+
+  const handleDuplicateSequence = () => {
+    const { sequences: next, copy } = duplicateSequence(
+      sequences,
+      activeSequenceId
+    );
+    if (!copy) return;
+    recordHistory();
+    setSequences(next);
+    handlePickSequence(copy.id);
+  };
+
+  // The neighbour that takes the deleted sequence's place becomes active.
+  const handleDeleteSequence = () => {
+    const next = removeSequence(sequences, activeSequenceId);
+    const index = sequences.findIndex(({ id }) => id === activeSequenceId);
+    const neighbour = next[Math.min(index, next.length - 1)];
+    if (next === sequences || !neighbour) return;
+    recordHistory();
+    setSequences(next);
+    handlePickSequence(neighbour.id);
+  };
+
+  // Slide edits rewrite step slide indices too; the current slide is followed
+  // by id, or `focusIndex` is shown instead when given.
+  // Reads the latest deck, as imports finish after the render that began them.
+  const editDeck = (edit: (deck: Deck) => Deck, focusIndex?: number) => {
+    const previous = deckRef.current;
+    const deck = edit(previous);
+    if (deck.slides === previous.slides) return;
+    recordHistory();
+    setSlides(deck.slides);
+    setSequences(deck.sequences);
+    setSelectedStepIndex(null);
+    setCurrentSlideIndex((prev) => {
+      if (focusIndex !== undefined) return focusIndex;
+      const currentId = previous.slides[prev]?.id;
+      const followedIndex = deck.slides.findIndex(
+        (slide) => slide.id === currentId
+      );
+      return followedIndex >= 0
+        ? followedIndex
+        : Math.min(prev, deck.slides.length - 1);
+    });
+  };
+
+  const handleRecaptureStep = (index: number) => {
+    const record = clickSequence[index];
+    if (!record) return;
+    setCurrentSlideIndex(record.slideIndex);
+    setCaptureTarget({ mode: 'replace', index });
+    setIsCapturing(true);
+  };
+
+  const handleInsertSteps = (index: number) => {
+    const previous = clickSequence[index - 1];
+    if (previous) setCurrentSlideIndex(previous.slideIndex);
+    setCaptureTarget({ mode: 'insert', index });
+    setIsCapturing(true);
+  };
+
+  const handleReplay = (fromStep = 0) => {
+    if (fromStep < clickSequence.length && !isPlaying) {
+      // Slides start out as they were right before the chosen step.
+      setSlides((prev) => getSlideStatesAtStep(prev, clickSequence, fromStep));
+      setCurrentStep(fromStep);
+      setIsPaused(false);
       setIsPlaying(true);
     }
   };
 
+  const handleStopReplay = () => {
+    setIsPlaying(false);
+    setIsPaused(false);
+  };
+
   const handleStepReplay = () => {
     if (clickSequence.length > 0 && !isStepping) {
       setIsStepping(true);
       setCurrentStep(0);
       // Reset all slides to initial state before starting
-      setSlides((prev) =>
-        prev.map((slide) => ({
-          ...slide,
-          transform: INITIAL_TRANSFORM,
-          spotlight: null,
-        }))
-      );
+      setSlides((prev) => getSlideStatesAtStep(prev, clickSequence, 0));
     }
   };
 
@@ -157,122 +598,448 @@ const App: React.FC = () => {
 
   const handleExitStepping = () => {
     setIsStepping(false);
+    setIsPresenting(false);
     setCurrentStep(0);
+    setReplayCursor(null);
+    setIsBlanked(false);
   };
 
-  const handleFullReset = () => {
-    slides.forEach((slide) => {
-      if (slide.mediaUrl) URL.revokeObjectURL(slide.mediaUrl);
-    });
-    setSlides([createEmptySlide()]);
+  const handlePresent = () => {
+    if (!isPresenterChannelAvailable()) {
+      alert('This browser cannot sync a second presentation window.');
+      return;
+    }
+    if (!openAudienceWindow()) {
+      alert('Allow pop-ups for this site to open the audience window.');
+      return;
+    }
+    handleStepReplay();
+    setIsPresenting(true);
+  };
+
+  const loadProjectState = (
+    project: {
+      slides: Slide[];
+      sequences: ClickSequence[];
+      activeSequenceId: string;
+    },
+    id: string,
+    name: string
+  ) => {
+    history.clear();
+    setSlides(
+      project.slides.length > 0 ? project.slides : [createEmptySlide()]
+    );
+    setSequences(project.sequences);
+    setActiveSequenceId(project.activeSequenceId);
+    setSelectedStepIndex(null);
+    setProjectId(id);
+    setProjectName(name);
     setCurrentSlideIndex(0);
-    setClickSequence([]);
     setIsPlaying(false);
-    setActiveTool(Tool.NONE);
+    setIsStepping(false);
+    setIsPresenting(false);
+    setCurrentStep(0);
     setIsCapturing(false);
   };
 
-  useEffect(() => {
-    if (!isStepping || clickSequence.length === 0) return;
-
-    const record = clickSequence[currentStep];
-    if (!record) return;
-
-    setCurrentSlideIndex(record.slideIndex);
+  const handleFullReset = () => {
+    const sequence = createSequence();
+    loadProjectState(
+      { slides: [], sequences: [sequence], activeSequenceId: sequence.id },
+      createProjectId(),
+      DEFAULT_PROJECT_NAME
+    );
+    setActiveTool(Tool.NONE);
+  };
 
-    setReplayCursor({
-      x: record.x,
-      y: record.y,
-      slideIndex: record.slideIndex,
-    });
+  const handleSaveProject = async () => {
+    try {
+      await saveProjectFile(slides, sequences, activeSequenceId);
+    } catch (error) {
+      console.error('Failed to save project', error);
+      alert('Could not save the project.');
+    }
+  };
 
-    updateSlideState(record.slideIndex, {
-      transform: record.toolState.transform,
-      spotlight: record.toolState.spotlight,
-    });
-  }, [isStepping, currentStep, clickSequence, updateSlideState]);
+  const handleExport = async ({
+    format,
+    includeNotes,
+    video,
+    onProgress,
+    signal,
+  }: ExportRequest) => {
+    try {
+      switch (format) {
+        case 'player':
+          if (activeSequence) {
+            await exportPlayerFile(slides, activeSequence, projectName);
+          }
+          break;
+        case 'frames':
+          await exportFrameZip(slides, clickSequence, { onProgress });
+          break;
+        case 'handout':
+          await exportHandoutPdf(slides, clickSequence, projectName, {
+            includeNotes,
+            onProgress,
+          });
+          break;
+        case 'video':
+          await recordReplayVideo(slides, clickSequence, {
+            ...video,
+            onProgress,
+            signal,
+          });
+          break;
+      }
+    } catch (error) {
+      if (signal.aborted) return;
+      console.error(`Failed to export ${format}`, error);
+      alert('Could not export the presentation.');
+    }
+  };
 
-  useEffect(() => {
-    if (!isPlaying) {
-      setReplayCursor(null);
+  const handleOpenProject = async (file: File) => {
+    let project;
+    try {
+      project = await convertLegacyProject(
+        await readProjectFile(file),
+        viewportSize
+      );
+    } catch (error) {
+      console.error('Failed to open project', error);
+      alert(
+        error instanceof ProjectValidationError
+          ? `Could not open the project file.\n\n${error.message}`
+          : 'Could not open the project file.'
+      );
       return;
     }
+    // Opened files become a new local project so they never overwrite an
+    // autosaved session.
+    loadProjectState(
+      project,
+      createProjectId(),
+      file.name.replace(/\.presentation\.json$|\.json$/i, '')
+    );
+  };
+
+  const refreshRecentProjects = useCallback(async () => {
+    const projects = await listStoredProjects();
+    setRecentProjects(projects);
+    return projects;
+  }, []);
 
-    let isCancelled = false;
-    let step = 0;
+  const handleShowRecentProjects = async () => {
+    try {
+      await refreshRecentProjects();
+      setRecentDialog('browse');
+    } catch (error) {
+      console.error('Failed to list recent projects', error);
+      alert('Could not load recent projects.');
+    }
+  };
 
-    const sleep = (ms: number) =>
-      new Promise((resolve) => setTimeout(resolve, ms));
+  const handleOpenStoredProject = async (id: string) => {
+    try {
+      const { name, ...stored } = await loadStoredProject(id);
+      const project = await convertLegacyProject(stored, viewportSize);
+      loadProjectState(project, id, name);
+      setRecentDialog(null);
+    } catch (error) {
+      console.error('Failed to restore project', error);
+      alert(
+        error instanceof ProjectValidationError
+          ? `Could not restore the project.\n\n${error.message}`
+          : 'Could not restore the project.'
+      );
+    }
+  };
 
-    const animateStep = async () => {
-      if (isCancelled || step >= clickSequence.length) {
-        setIsPlaying(false);
-        return;
+  const handleDeleteStoredProject = async (id: string) => {
+    try {
+      await deleteStoredProject(id);
+      const projects = await refreshRecentProjects();
+      if (projects.length === 0 && recentDialog === 'restore') {
+        setRecentDialog(null);
       }
+    } catch (error) {
+      console.error('Failed to delete project', error);
+    }
+  };
 
-      const record = clickSequence[step];
-      if (!record) return;
+  useEffect(() => {
+    if (!isProjectStoreAvailable()) return;
+    refreshRecentProjects()
+      .then((projects) => {
+        if (projects.length > 0) setRecentDialog('restore');
+      })
+      .catch((error) => console.error('Failed to list recent projects', error));
+  }, [refreshRecentProjects]);
 
-      if (record.slideIndex !== currentSlideIndex) {
-        setCurrentSlideIndex(record.slideIndex);
-        await sleep(500); // Wait for slide transition
-      }
-      if (isCancelled) return;
+  const handleGoToStep = (index: number) => {
+    if (isStepping) {
+      setCurrentStep(index);
+      return;
+    }
+    setIsSequenceEditorOpen(true);
+    handleSelectStep(index);
+  };
 
-      // Animate cursor (simplified for this example, you could use rAF for smoother animation)
-      setReplayCursor({
-        x: record.x,
-        y: record.y,
-        slideIndex: record.slideIndex,
-      });
-      await sleep(800);
-      if (isCancelled) return;
+  const toggleTool = (tool: Tool) =>
+    setActiveTool((prev) => (prev === tool ? Tool.NONE : tool));
+  const hasSequence = clickSequence.length > 0 && !isPlaying;
+  // Every action the toolbar, the keyboard and the command palette offer.
+  // Arrow keys move through steps while stepping and through slides
+  // otherwise, as only one of the two is enabled at a time.
+  const commands: CommandStates = {
+    'tool.panZoom': {
+      run: () => toggleTool(Tool.PAN_ZOOM),
+      isActive: activeTool === Tool.PAN_ZOOM,
+    },
+    'tool.spotlight': {
+      run: () => toggleTool(Tool.SPOTLIGHT),
+      isActive: activeTool === Tool.SPOTLIGHT,
+    },
+    'tool.annotate': {
+      run: () => toggleTool(Tool.ANNOTATE),
+      isActive: activeTool === Tool.ANNOTATE,
+    },
+    'tool.ink': {
+      run: () => toggleTool(Tool.INK),
+      isActive: activeTool === Tool.INK,
+    },
+    'tool.laser': {
+      run: () => toggleTool(Tool.LASER),
+      isActive: activeTool === Tool.LASER,
+    },
+    'capture.toggle': { run: toggleCapture, isActive: isCapturing },
+    'capture.path': {
+      run: () => setIsRecordingPath((prev) => !prev),
+      isActive: isRecordingPath,
+    },
+    'edit.undo': {
+      run: handleUndo,
+      isDisabled: !history.canUndo || isReplaying,
+    },
+    'edit.redo': {
+      run: handleRedo,
+      isDisabled: !history.canRedo || isReplaying,
+    },
+    'panel.steps': {
+      run: () => {
+        setIsSequenceEditorOpen((prev) => !prev);
+        setSelectedStepIndex(null);
+      },
+      isActive: isSequenceEditorOpen,
+    },
+    'panel.notes': {
+      run: () => setIsNotesOpen((prev) => !prev),
+      isActive: isNotesOpen,
+    },
+    'slide.add': { run: addSlide },
+    'slide.next': {
+      run: goToNextSlide,
+      isDisabled: isReplaying || currentSlideIndex >= slides.length - 1,
+    },
+    'slide.prev': {
+      run: goToPrevSlide,
+      isDisabled: isReplaying || currentSlideIndex === 0,
+    },
+    'panel.slides': {
+      run: () => setIsSlideSorterOpen((prev) => !prev),
+      isActive: isSlideSorterOpen,
+    },
+    'replay.play': { run: () => handleReplay(0), isDisabled: !hasSequence },
+    'replay.step': { run: handleStepReplay, isDisabled: !hasSequence },
+    'replay.present': { run: handlePresent, isDisabled: !hasSequence },
+    'step.next': {
+      run: handleNextStep,
+      isDisabled: !isStepping || currentStep >= clickSequence.length - 1,
+    },
+    'step.prev': {
+      run: handlePrevStep,
+      isDisabled: !isStepping || currentStep === 0,
+    },
+    'step.exit': { run: handleExitStepping, isDisabled: !isStepping },
+    'view.blank': {
+      run: () => setIsBlanked((prev) => !prev),
+      isActive: isBlanked,
+    },
+    'project.save': { run: () => void handleSaveProject() },
+    'project.export': { run: () => setIsExportDialogOpen(true) },
+    'project.open': { run: () => projectInputRef.current?.click() },
+    'project.recent': { run: () => void handleShowRecentProjects() },
+    'project.reset': { run: handleFullReset },
+    'palette.open': { run: () => setIsPaletteOpen(true) },
+    'help.shortcuts': { run: () => setIsShortcutsOpen(true) },
+  };
+  // Only the key that brings the screen back works while it is blank.
+  useKeyboardShortcuts(
+    keyBindings,
+    isBlanked ? { 'view.blank': commands['view.blank'] } : commands,
+    !isShortcutsOpen && !isPaletteOpen
+  );
 
-      // Apply state
-      updateSlideState(record.slideIndex, {
-        transform: record.toolState.transform,
-        spotlight: record.toolState.spotlight,
-      });
+  const paletteItems: PaletteItem[] = isPaletteOpen
+    ? [
+        ...SHORTCUT_COMMANDS.filter(({ id }) => id !== 'palette.open').map(
+          ({ id, label, group }) => ({
+            id,
+            label,
+            group,
+            shortcut: getShortcutHint(keyBindings, id),
+            isDisabled: commands[id].isDisabled ?? false,
+            run: commands[id].run,
+          })
+        ),
+        ...slides.map((_slide, index) => ({
+          id: `slide-${index}`,
+          label: `Go to Slide ${index + 1}`,
+          group: 'Slides',
+          isDisabled: isReplaying,
+          run: () => setCurrentSlideIndex(index),
+        })),
+        ...sequences.map((sequence) => ({
+          id: `sequence-${sequence.id}`,
+          label: `Use Sequence: ${sequence.name}`,
+          group: 'Sequences',
+          isDisabled: isReplaying || sequence.id === activeSequenceId,
+          run: () => handlePickSequence(sequence.id),
+        })),
+        ...clickSequence.map((record, index) => ({
+          id: `step-${index}`,
+          label: `Go to Step ${index + 1}: ${describeStep(record)}`,
+          group: 'Steps',
+          isDisabled: isPlaying,
+          run: () => handleGoToStep(index),
+        })),
+      ]
+    : [];
 
-      await sleep(400);
-      if (isCancelled) return;
+  useStepReplay({
+    isStepping,
+    currentStep,
+    sequence: clickSequence,
+    onSlideChange: setCurrentSlideIndex,
+    onCursorChange: setReplayCursor,
+    onAnimationChange: setStepAnimation,
+    onSlidesChange: setSlides,
+  });
 
-      step++;
-      animateStep();
-    };
+  useAutoReplay({
+    isPlaying,
+    isPaused,
+    speed: playbackSpeed,
+    startStep: currentStep,
+    sequence: clickSequence,
+    currentSlideIndex,
+    onStepChange: setCurrentStep,
+    onSlideChange: setCurrentSlideIndex,
+    onCursorChange: setReplayCursor,
+    onApplyStep: (record, animation) => {
+      setStepAnimation(animation);
+      updateSlideState(
+        record.slideIndex,
+        slideStateFromToolState(record.toolState)
+      );
+    },
+    onFinish: () => setIsPlaying(false),
+  });
 
-    // Reset all slides to initial state before starting
-    setSlides((prev) =>
-      prev.map((slide) => ({
-        ...slide,
-        transform: INITIAL_TRANSFORM,
-        spotlight: null,
-      }))
-    );
-    sleep(50).then(animateStep);
+  const selectedStep =
+    isSequenceEditorOpen && selectedStepIndex !== null
+      ? clickSequence[selectedStepIndex]
+      : undefined;
+  const visibleCursor: ReplayCursorState | null =
+    replayCursor ??
+    (selectedStep
+      ? {
+          x: selectedStep.x,
+          y: selectedStep.y,
+          slideIndex: selectedStep.slideIndex,
+          travelMs: 0,
+          easing: 'linear',
+          path: [],
+          clickId: null,
+        }
+      : null);
 
-    return () => {
-      isCancelled = true;
-    };
-  }, [isPlaying, clickSequence, currentSlideIndex, updateSlideState]);
+  const currentSlide = slides[currentSlideIndex];
+  const audienceCursor =
+    replayCursor?.slideIndex === currentSlideIndex ? replayCursor : null;
+  const audienceAnimation = isReplaying ? stepAnimation : null;
+  const audienceFrame = useMemo<AudienceFrame>(
+    () => ({
+      mediaUrl: currentSlide?.mediaUrl ?? null,
+      mediaType: currentSlide?.mediaType ?? null,
+      transform: currentSlide?.transform ?? INITIAL_TRANSFORM,
+      spotlight: currentSlide?.spotlight ?? null,
+      annotations: currentSlide?.annotations ?? [],
+      visibleAnnotationIds: currentSlide?.visibleAnnotationIds ?? [],
+      video: currentSlide?.video ?? null,
+      replayCursor: audienceCursor,
+      animation: audienceAnimation,
+      isBlanked,
+    }),
+    [currentSlide, audienceCursor, audienceAnimation, isBlanked]
+  );
+  usePresenterBroadcast(isPresenting, audienceFrame);
+
+  const steppingRecord = isStepping ? clickSequence[currentStep] : undefined;
+  const steppingNotes =
+    steppingRecord &&
+    (steppingRecord.notes.trim() ||
+      slides[steppingRecord.slideIndex]?.notes.trim())
+      ? {
+          slideNotes: slides[steppingRecord.slideIndex]?.notes ?? '',
+          stepNotes: steppingRecord.notes,
+        }
+      : null;
 
   return (
     <div className="h-screen w-screen flex flex-col bg-gray-900 font-sans overflow-hidden">
       <Toolbar
-        activeTool={activeTool}
-        setActiveTool={setActiveTool}
-        onReplay={handleReplay}
-        onStepReplay={handleStepReplay}
-        onReset={handleFullReset}
-        hasSequence={clickSequence.length > 0 && !isPlaying}
-        isCapturing={isCapturing}
-        toggleCapture={toggleCapture}
-        onAddSlide={addSlide}
+        commands={commands}
+        keyBindings={keyBindings}
         currentSlideIndex={currentSlideIndex}
         totalSlides={slides.length}
       />
+      <input
+        ref={projectInputRef}
+        type="file"
+        accept={`${PROJECT_FILE_EXTENSION},application/json`}
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) void handleOpenProject(file);
+          // Reset the input so the same project can be opened again
+          e.target.value = '';
+        }}
+        className="hidden"
+        aria-label="Open project file"
+      />
       <main className="flex-grow pb-[120px] sm:pb-0 sm:pt-[80px] relative">
-        {isStepping && (
+        {isPlaying && (
+          <PlaybackControls
+            isPaused={isPaused}
+            speed={playbackSpeed}
+            currentStep={currentStep}
+            totalSteps={clickSequence.length}
+            onPauseToggle={() => setIsPaused((prev) => !prev)}
+            onStop={handleStopReplay}
+            onSpeedChange={setPlaybackSpeed}
+          />
+        )}
+        {isStepping && !isPresenting && steppingNotes && (
+          <div className="fixed bottom-24 left-1/2 -translate-x-1/2 z-50 w-[min(42rem,90vw)] max-h-48 overflow-y-auto bg-gray-800 bg-opacity-90 backdrop-blur-sm p-4 rounded-xl shadow-2xl border border-gray-700 text-white">
+            <SpeakerNotes
+              slideNotes={steppingNotes.slideNotes}
+              stepNotes={steppingNotes.stepNotes}
+            />
+          </div>
+        )}
+        {isStepping && !isPresenting && (
           <ReplayControls
             onNext={handleNextStep}
             onPrev={handlePrevStep}
@@ -282,6 +1049,7 @@ const App: React.FC = () => {
           />
         )}
         <div
+          ref={slidesContainerRef}
           className="w-full h-full flex transition-transform duration-500 ease-in-out"
           style={{ transform: `translateX(-${currentSlideIndex * 100}%)` }}
         >
@@ -292,22 +1060,39 @@ const App: React.FC = () => {
                 mediaType={slide.mediaType}
                 transform={slide.transform}
                 spotlight={slide.spotlight}
+                annotations={slide.annotations}
+                visibleAnnotationIds={slide.visibleAnnotationIds}
+                video={
+                  // The audience window plays the sound while presenting.
+                  isPresenting && slide.video
+                    ? { ...slide.video, isMuted: true }
+                    : slide.video
+                }
+                annotationStyle={annotationStyle}
+                inkStyle={inkStyle}
+                spotlightStyle={spotlightStyle}
                 activeTool={activeTool}
                 isCapturing={isCapturing}
                 onRecordClick={handleRecordClick}
+                onVideoAction={(x, y, toolState, action) =>
+                  handleRecordClick(x, y, toolState, {}, action)
+                }
+                onPointerMove={handlePointerMove}
                 isPlaying={isPlaying}
-                replayCursorPos={
-                  replayCursor?.slideIndex === index
-                    ? { x: replayCursor.x, y: replayCursor.y }
-                    : null
+                replayCursor={
+                  visibleCursor?.slideIndex === index ? visibleCursor : null
                 }
+                animation={isReplaying ? stepAnimation : null}
                 onTransformChange={(transform) =>
-                  updateSlideState(index, { transform })
+                  editSlideState(index, { transform })
                 }
                 onSpotlightChange={(spotlight) =>
-                  updateSlideState(index, { spotlight })
+                  editSlideState(index, { spotlight })
                 }
-                onFile={(file) => handleFileForSlide(file, index)}
+                onAnnotationsChange={(annotations, visibleAnnotationIds) =>
+                  editSlideState(index, { annotations, visibleAnnotationIds })
+                }
+                onFiles={(files) => handleFilesForSlide(files, index)}
               />
             </div>
           ))}
@@ -318,7 +1103,7 @@ const App: React.FC = () => {
               onClick={goToPrevSlide}
               disabled={currentSlideIndex === 0}
               className="absolute left-2 sm:left-4 top-1/2 -translate-y-1/2 z-20 p-1 sm:p-2 bg-gray-800 bg-opacity-50 rounded-full hover:bg-opacity-80 disabled:opacity-30 disabled:cursor-not-allowed transition-all"
-              title="Previous Slide (Left Arrow)"
+              title={withShortcut('Previous Slide', 'slide.prev')}
             >
               <ChevronLeftIcon className="w-6 h-6 sm:w-8 sm:h-8 text-white" />
             </button>
@@ -326,13 +1111,159 @@ const App: React.FC = () => {
               onClick={goToNextSlide}
               disabled={currentSlideIndex === slides.length - 1}
               className="absolute right-2 sm:right-4 top-1/2 -translate-y-1/2 z-20 p-1 sm:p-2 bg-gray-800 bg-opacity-50 rounded-full hover:bg-opacity-80 disabled:opacity-30 disabled:cursor-not-allowed transition-all"
-              title="Next Slide (Right Arrow)"
+              title={withShortcut('Next Slide', 'slide.next')}
             >
               <ChevronRightIcon className="w-6 h-6 sm:w-8 sm:h-8 text-white" />
             </button>
           </>
         )}
       </main>
+      {isSequenceEditorOpen && !isReplaying && (
+        <SequenceEditor
+          sequences={sequences}
+          activeSequenceId={activeSequenceId}
+          onPickSequence={handlePickSequence}
+          onCreateSequence={handleCreateSequence}
+          onRenameSequence={handleRenameSequence}
+          onDuplicateSequence={handleDuplicateSequence}
+          onDeleteSequence={handleDeleteSequence}
+          sequence={clickSequence}
+          slides={slides}
+          viewportSize={viewportSize}
+          selectedIndex={selectedStepIndex}
+          captureTarget={captureTarget}
+          isCapturing={isCapturing}
+          onSelect={handleSelectStep}
+          onDelete={(index) => editSequence((prev) => removeStep(prev, index))}
+          onDuplicate={(index) =>
+            editSequence((prev) => duplicateStep(prev, index))
+          }
+          onMove={(from, to) =>
+            editSequence((prev) => moveStep(prev, from, to))
+          }
+          onRecapture={handleRecaptureStep}
+          onTimingChange={(stepId, timing) => {
+            recordHistory(`timing-${stepId}`);
+            setClickSequence((prev) => updateStepTiming(prev, stepId, timing));
+          }}
+          onPlayFrom={handleReplay}
+          onInsert={handleInsertSteps}
+          onCancelCapture={() => setIsCapturing(false)}
+          onClose={() => {
+            setIsSequenceEditorOpen(false);
+            setSelectedStepIndex(null);
+          }}
+        />
+      )}
+      {isSlideSorterOpen && !isReplaying && (
+        <SlideSorter
+          slides={slides}
+          sequences={sequences}
+          currentIndex={currentSlideIndex}
+          viewportSize={viewportSize}
+          onSelect={setCurrentSlideIndex}
+          onMove={(from, to) =>
+            editDeck(
+              (deck) => moveSlide(deck, from, to),
+              getMoveDestination(from, to)
+            )
+          }
+          onDuplicate={(index) =>
+            editDeck((deck) => duplicateSlide(deck, index), index + 1)
+          }
+          onDelete={(index) => editDeck((deck) => removeSlide(deck, index))}
+          onClose={() => setIsSlideSorterOpen(false)}
+        />
+      )}
+      {isPresenting && (
+        <PresenterView
+          frame={audienceFrame}
+          slides={slides}
+          sequence={clickSequence}
+          currentStep={currentStep}
+          viewportSize={viewportSize}
+          onNext={handleNextStep}
+          onPrev={handlePrevStep}
+          onExit={handleExitStepping}
+        />
+      )}
+      {activeTool === Tool.ANNOTATE && !isReplaying && (
+        <AnnotationPalette
+          style={annotationStyle}
+          onChange={setAnnotationStyle}
+        />
+      )}
+      {activeTool === Tool.INK && !isReplaying && (
+        <InkPalette style={inkStyle} onChange={setInkStyle} />
+      )}
+      {activeTool === Tool.SPOTLIGHT && !isReplaying && (
+        <SpotlightPalette
+          style={spotlightStyle}
+          onChange={handleSpotlightStyleChange}
+          onClear={() => editSlideState(currentSlideIndex, { spotlight: null })}
+        />
+      )}
+      {isNotesOpen && !isReplaying && currentSlide && (
+        <NotesDrawer
+          slideNumber={currentSlideIndex + 1}
+          slideNotes={currentSlide.notes}
+          onSlideNotesChange={handleSlideNotesChange}
+          step={
+            selectedStep && selectedStepIndex !== null
+              ? { number: selectedStepIndex + 1, notes: selectedStep.notes }
+              : null
+          }
+          onStepNotesChange={(notes) => {
+            if (selectedStep) handleStepNotesChange(selectedStep.id, notes);
+          }}
+          onClose={() => setIsNotesOpen(false)}
+        />
+      )}
+      {importReport && (
+        <ImportSummary
+          isImporting={importReport.isImporting}
+          importedCount={importReport.importedCount}
+          skipped={importReport.skipped}
+          onDismiss={() => setImportReport(null)}
+        />
+      )}
+      {isExportDialogOpen && (
+        <ExportDialog
+          stepCount={clickSequence.length}
+          onExport={handleExport}
+          onClose={() => setIsExportDialogOpen(false)}
+        />
+      )}
+      {isShortcutsOpen && (
+        <ShortcutsDialog
+          settings={shortcutSettings}
+          bindings={keyBindings}
+          onChange={setShortcutSettings}
+          onClose={() => setIsShortcutsOpen(false)}
+        />
+      )}
+      {isPaletteOpen && (
+        <CommandPalette
+          items={paletteItems}
+          onClose={() => setIsPaletteOpen(false)}
+        />
+      )}
+      {isBlanked && (
+        <button
+          onClick={() => setIsBlanked(false)}
+          className="fixed inset-0 z-[70] bg-black cursor-default"
+          aria-label="Show the screen again"
+        />
+      )}
+      {recentDialog && (
+        <RecentProjectsDialog
+          projects={recentProjects}
+          isRestorePrompt={recentDialog === 'restore'}
+          onOpen={handleOpenStoredProject}
+          onDelete={handleDeleteStoredProject}
+          onClose={() => setRecentDialog(null)}
+        />
+      )}
     </div>
   );
 };
@@ -1,11 +1,41 @@
 import React from 'react';
-import { render, screen } from '@testing-library/react';
+import { fireEvent, render, screen } from '@testing-library/react';
 import '@testing-library/jest-dom';
 
 import App from '../App';
+import {
+  isProjectStoreAvailable,
+  listStoredProjects,
+} from '../utils/projectStore';
+
+jest.mock('../utils/projectStore');
 
 test('renders the main application container', () => {
   render(<App />);
   const toolbar = screen.getByRole('toolbar');
   expect(toolbar).toBeInTheDocument();
 });
+
+test('offers to restore the last autosaved project', async () => {
+  jest.mocked(isProjectStoreAvailable).mockReturnValue(true);
+  jest.mocked(listStoredProjects).mockResolvedValue([
+    {
+      id: 'project-1',
+      name: 'Quarterly review',
+      updatedAt: Date.now(),
+      slideCount: 3,
+      stepCount: 5,
+    },
+  ]);
+
+  render(<App />);
+  expect(
+    await screen.findByText('Restore previous session?')
+  ).toBeInTheDocument();
+  expect(screen.getByRole('button', { name: 'Restore' })).toBeInTheDocument();
+
+  fireEvent.click(screen.getByRole('button', { name: 'Start fresh' }));
+  expect(
+    screen.queryByText('Restore previous session?')
+  ).not.toBeInTheDocument();
+});
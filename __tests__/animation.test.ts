@@ -0,0 +1,87 @@
+import { SpotlightRegion } from '../types';
+import {
+  CSS_EASE_IN_OUT,
+  cubicBezier,
+  interpolateSpotlight,
+  interpolateTransform,
+  spotlightToShape,
+} from '../utils/animation';
+
+describe('interpolateTransform', () => {
+  const from = { scale: 1, x: 0, y: 0 };
+  const to = { scale: 4, x: -300, y: -150 };
+
+  test('hits both endpoints', () => {
+    expect(interpolateTransform(from, to, 0)).toEqual(from);
+    const end = interpolateTransform(from, to, 1);
+    expect(end.scale).toBeCloseTo(4);
+    expect(end.x).toBeCloseTo(-300);
+    expect(end.y).toBeCloseTo(-150);
+  });
+
+  test('zooms geometrically around the shared fixed point', () => {
+    const mid = interpolateTransform(from, to, 0.5);
+    expect(mid.scale).toBeCloseTo(2);
+    // The fixed point q satisfies t + s * q == t' + s' * q for every frame.
+    const q = { x: -300 / (1 - 4), y: -150 / (1 - 4) };
+    expect(mid.x + mid.scale * q.x).toBeCloseTo(q.x);
+    expect(mid.y + mid.scale * q.y).toBeCloseTo(q.y);
+  });
+
+  test('pans linearly when the scale does not change', () => {
+    const mid = interpolateTransform(
+      { scale: 2, x: 0, y: 0 },
+      { scale: 2, x: 100, y: -50 },
+      0.5
+    );
+    expect(mid).toEqual({ scale: 2, x: 50, y: -25 });
+  });
+});
+
+describe('interpolateSpotlight', () => {
+  const region = {
+    id: 1,
+    type: 'circle' as const,
+    x: 50,
+    y: 60,
+    width: 0,
+    height: 0,
+    radius: 20,
+    points: [],
+  };
+  const spotlight = (regions: SpotlightRegion[]) =>
+    spotlightToShape({ regions, dimOpacity: 0.8, blur: 0, feather: 0 });
+
+  test('fades a spotlight in instead of growing it', () => {
+    const mid = interpolateSpotlight(null, spotlight([region]), 0.5);
+    expect(mid?.opacity).toBe(0.5);
+    expect(mid?.regions[0]).toMatchObject({ cx: 50, cy: 60, width: 40 });
+  });
+
+  test('ends as null when fading out', () => {
+    expect(interpolateSpotlight(spotlight([region]), null, 1)).toBeNull();
+  });
+
+  test('morphs regions with the same id and cross-fades the rest', () => {
+    const moved = { ...region, x: 150 };
+    const added = { ...region, id: 2, type: 'rect' as const, radius: 0 };
+    const mid = interpolateSpotlight(
+      spotlight([region]),
+      spotlight([moved, added]),
+      0.5
+    );
+    expect(mid?.regions).toHaveLength(2);
+    expect(mid?.regions[0]).toMatchObject({ id: 1, cx: 100, opacity: 1 });
+    expect(mid?.regions[1]).toMatchObject({ id: 2, opacity: 0.5 });
+  });
+});
+
+describe('cubicBezier', () => {
+  test('matches the CSS curves', () => {
+    expect(cubicBezier(0, 0, 1, 1)(0.3)).toBeCloseTo(0.3);
+    expect(CSS_EASE_IN_OUT(0)).toBe(0);
+    expect(CSS_EASE_IN_OUT(0.5)).toBeCloseTo(0.5);
+    expect(CSS_EASE_IN_OUT(0.25)).toBeCloseTo(0.1291, 3);
+    expect(CSS_EASE_IN_OUT(1)).toBe(1);
+  });
+});
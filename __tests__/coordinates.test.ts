@@ -0,0 +1,207 @@
+import { ClickRecord } from '../types';
+import {
+  MAX_SCALE,
+  centerOnContentPoint,
+  clampTransform,
+  contentToScreen,
+  convertPixelCoordinates,
+  fitContentRect,
+  getContentBox,
+  screenToContent,
+  zoomAtScreenPoint,
+} from '../utils/coordinates';
+
+const viewport = { width: 1000, height: 500 };
+
+describe('getContentBox', () => {
+  test('letterboxes media that is too large and centres it', () => {
+    expect(getContentBox(viewport, { width: 2000, height: 2000 })).toEqual({
+      left: 250,
+      top: 0,
+      width: 500,
+      height: 500,
+    });
+  });
+
+  test('never scales media up', () => {
+    expect(getContentBox(viewport, { width: 200, height: 100 })).toEqual({
+      left: 400,
+      top: 200,
+      width: 200,
+      height: 100,
+    });
+  });
+
+  test('falls back to the whole canvas without media', () => {
+    expect(getContentBox(viewport, null)).toEqual({
+      left: 0,
+      top: 0,
+      ...viewport,
+    });
+  });
+});
+
+describe('screen/content conversion', () => {
+  const box = getContentBox(viewport, { width: 800, height: 400 });
+  const transform = { scale: 2.5, x: -0.3, y: 0.1 };
+
+  test('round-trips through a transform', () => {
+    const screen = contentToScreen(
+      { x: 0.2, y: 0.7 },
+      transform,
+      box,
+      viewport
+    );
+    const content = screenToContent(screen, transform, box, viewport);
+    expect(content.x).toBeCloseTo(0.2);
+    expect(content.y).toBeCloseTo(0.7);
+  });
+
+  test('keeps the same content point across viewport sizes', () => {
+    const small = { width: 500, height: 250 };
+    const media = { width: 2000, height: 1000 };
+    const largeBox = getContentBox(viewport, media);
+    const smallBox = getContentBox(small, media);
+    const screen = contentToScreen(
+      { x: 0.25, y: 0.5 },
+      transform,
+      largeBox,
+      viewport
+    );
+    const smallScreen = contentToScreen(
+      { x: 0.25, y: 0.5 },
+      transform,
+      smallBox,
+      small
+    );
+    expect(smallScreen.x).toBeCloseTo(screen.x / 2);
+    expect(smallScreen.y).toBeCloseTo(screen.y / 2);
+  });
+
+  test('zooming centres the chosen point', () => {
+    const zoomed = centerOnContentPoint({ x: 0.9, y: 0.1 }, 3, box, viewport);
+    const screen = contentToScreen({ x: 0.9, y: 0.1 }, zoomed, box, viewport);
+    expect(screen.x).toBeCloseTo(500);
+    expect(screen.y).toBeCloseTo(250);
+  });
+});
+
+describe('pan/zoom helpers', () => {
+  const box = getContentBox(viewport, { width: 800, height: 400 });
+  const transform = { scale: 2, x: 0.1, y: -0.2 };
+
+  test('zooming at a point keeps it under the cursor', () => {
+    const cursor = { x: 300, y: 120 };
+    const before = screenToContent(cursor, transform, box, viewport);
+    const zoomed = zoomAtScreenPoint(transform, cursor, 5, box, viewport);
+    const after = contentToScreen(before, zoomed, box, viewport);
+    expect(zoomed.scale).toBe(5);
+    expect(after.x).toBeCloseTo(cursor.x);
+    expect(after.y).toBeCloseTo(cursor.y);
+  });
+
+  test('fits an area of the media to the canvas', () => {
+    const fitted = fitContentRect(
+      { x: 0.5, y: 0.5, width: 0.25, height: 0.5 },
+      box,
+      viewport
+    );
+    const topLeft = contentToScreen({ x: 0.5, y: 0.5 }, fitted, box, viewport);
+    const bottomRight = contentToScreen(
+      { x: 0.75, y: 1 },
+      fitted,
+      box,
+      viewport
+    );
+    // The area is as tall as the canvas and centred across it.
+    expect(topLeft.y).toBeCloseTo(0);
+    expect(bottomRight.y).toBeCloseTo(500);
+    expect((topLeft.x + bottomRight.x) / 2).toBeCloseTo(500);
+  });
+
+  test('clamps the scale and keeps the media under the centre', () => {
+    expect(
+      clampTransform({ scale: 100, x: 0, y: 0 }, box, viewport).scale
+    ).toBe(MAX_SCALE);
+    const panned = clampTransform({ scale: 2, x: 40, y: 0 }, box, viewport);
+    const center = screenToContent({ x: 500, y: 250 }, panned, box, viewport);
+    expect(center.x).toBeCloseTo(0);
+    expect(clampTransform(transform, box, viewport)).toEqual(transform);
+  });
+});
+
+describe('convertPixelCoordinates', () => {
+  test('maps pixel clicks and spotlights onto the media', () => {
+    const spotlight = {
+      regions: [
+        {
+          id: 1,
+          type: 'rect' as const,
+          x: 400,
+          y: 150,
+          width: 200,
+          height: 100,
+          radius: 0,
+          points: [],
+        },
+      ],
+      dimOpacity: 0.8,
+      blur: 0,
+      feather: 0,
+    };
+    const record: ClickRecord = {
+      id: 2,
+      slideIndex: 0,
+      x: 500,
+      y: 250,
+      toolState: {
+        transform: { scale: 2, x: 100, y: -50 },
+        spotlight,
+        annotationIds: [],
+        video: null,
+      },
+      timing: {
+        transitionMs: 800,
+        animationMs: 500,
+        dwellMs: 400,
+        easing: 'linear',
+      },
+      notes: '',
+      path: [],
+      videoAction: null,
+    };
+    const { slides, clickSequence } = convertPixelCoordinates(
+      [
+        {
+          id: 1,
+          mediaUrl: 'blob:image',
+          mediaType: 'image',
+          transform: { scale: 1, x: 0, y: 0 },
+          spotlight,
+          notes: '',
+          annotations: [],
+          visibleAnnotationIds: [],
+          video: null,
+        },
+      ],
+      [record, { ...record, id: 3 }],
+      viewport,
+      [{ width: 500, height: 250 }]
+    );
+
+    const converted = slides[0]?.spotlight?.regions[0];
+    expect(converted?.type).toBe('rect');
+    expect(converted?.x).toBeCloseTo(0.3);
+    expect(converted?.y).toBeCloseTo(0.1);
+    expect(converted?.width).toBeCloseTo(0.4);
+    expect(converted?.height).toBeCloseTo(0.4);
+    const [first, second] = clickSequence;
+    expect(first?.toolState.transform).toEqual({ scale: 2, x: 0.2, y: -0.2 });
+    // The first click lands on the unzoomed slide, at the canvas centre.
+    expect(first?.x).toBeCloseTo(0.5);
+    expect(first?.y).toBeCloseTo(0.5);
+    // The next lands on the view the first one left behind.
+    expect(second?.x).toBeCloseTo(0.4);
+    expect(second?.y).toBeCloseTo(0.6);
+  });
+});
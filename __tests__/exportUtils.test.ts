@@ -0,0 +1,89 @@
+import { ClickSequence, Slide } from '../types';
+import { DEFAULT_STEP_TIMING } from '../utils/timing';
+import { INITIAL_TRANSFORM } from '../utils/sequence';
+import { createMediaUrl, getMediaBlob } from '../utils/media';
+import { deserializeProject, serializeProject } from '../utils/exportUtils';
+import { parseProject } from '../utils/projectSchema';
+
+// jsdom has no object URLs.
+let lastUrl = 0;
+Object.defineProperty(URL, 'createObjectURL', {
+  value: () => `blob:test-${++lastUrl}`,
+});
+Object.defineProperty(URL, 'revokeObjectURL', { value: () => undefined });
+
+// jsdom's Blob has no arrayBuffer().
+const readBytes = (blob: Blob) =>
+  new Promise<Uint8Array>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+
+const bytes = new Uint8Array([137, 80, 78, 71, 0, 255, 16, 32]);
+
+const slide = (id: number, mediaUrl: string | null): Slide => ({
+  id,
+  mediaUrl,
+  mediaType: mediaUrl ? 'image' : null,
+  transform: { scale: 2, x: 0.1, y: -0.2 },
+  spotlight: null,
+  notes: `Slide ${id}`,
+  annotations: [],
+  visibleAnnotationIds: [],
+  video: null,
+});
+
+const sequences: ClickSequence[] = [
+  {
+    id: 'main',
+    name: 'Main',
+    steps: [
+      {
+        id: 1,
+        slideIndex: 1,
+        x: 0.25,
+        y: 0.75,
+        toolState: {
+          transform: INITIAL_TRANSFORM,
+          spotlight: null,
+          annotationIds: [],
+          video: null,
+        },
+        timing: DEFAULT_STEP_TIMING,
+        notes: 'Point at the chart',
+        path: [],
+        videoAction: null,
+      },
+    ],
+  },
+];
+
+describe('serializeProject / deserializeProject', () => {
+  test('round-trips slides, sequences and embedded media through JSON', async () => {
+    const mediaUrl = createMediaUrl(new Blob([bytes], { type: 'image/png' }));
+    const slides = [slide(1, null), slide(2, mediaUrl)];
+
+    const json = JSON.stringify(
+      await serializeProject(slides, sequences, 'main')
+    );
+    const restored = deserializeProject(parseProject(JSON.parse(json)));
+
+    expect(restored.sequences).toEqual(sequences);
+    expect(restored.activeSequenceId).toBe('main');
+    expect(restored.coordinateSpace).toBe('content');
+    expect(restored.slides[0]).toEqual(slides[0]);
+
+    const [, restoredSlide] = restored.slides;
+    expect(restoredSlide).toEqual({
+      ...slides[1],
+      mediaUrl: restoredSlide?.mediaUrl,
+    });
+    // Embedded media comes back under a fresh object URL.
+    expect(restoredSlide?.mediaUrl).not.toBe(mediaUrl);
+    const blob = await getMediaBlob(restoredSlide?.mediaUrl ?? '');
+    expect(blob.type).toBe('image/png');
+    expect(await readBytes(blob)).toEqual(bytes);
+  });
+});
@@ -0,0 +1,83 @@
+import { ClickRecord, Slide } from '../types';
+import { DEFAULT_STEP_TIMING } from '../utils/timing';
+import { INITIAL_TRANSFORM } from '../utils/sequence';
+import { getFrameFileName, getHandoutNotes } from '../utils/frameExport';
+import { FRAME_SIZE, drawSlide } from '../utils/frameRender';
+
+const slide: Slide = {
+  id: 1,
+  mediaUrl: 'blob:1',
+  mediaType: 'image',
+  transform: INITIAL_TRANSFORM,
+  spotlight: null,
+  notes: 'Slide **notes**',
+  annotations: [],
+  visibleAnnotationIds: [],
+  video: null,
+};
+
+const step: ClickRecord = {
+  id: 1,
+  slideIndex: 0,
+  x: 0.5,
+  y: 0.5,
+  toolState: {
+    transform: INITIAL_TRANSFORM,
+    spotlight: null,
+    annotationIds: [],
+    video: null,
+  },
+  timing: DEFAULT_STEP_TIMING,
+  notes: '- Say hello',
+  path: [],
+  videoAction: null,
+};
+
+describe('getFrameFileName', () => {
+  test('pads step numbers so the files sort in order', () => {
+    expect(getFrameFileName(6, 12)).toBe('step-07.png');
+    expect(getFrameFileName(0, 120)).toBe('step-001.png');
+  });
+});
+
+describe('getHandoutNotes', () => {
+  test('puts step notes before slide notes, without markup', () => {
+    expect(getHandoutNotes(step, slide)).toBe('- Say hello\n\nSlide notes');
+    expect(getHandoutNotes({ ...step, notes: ' ' }, slide)).toBe('Slide notes');
+  });
+});
+
+describe('drawSlide', () => {
+  test('letterboxes media without scaling it up, then applies the transform', () => {
+    const calls: { name: string; args: unknown[] }[] = [];
+    const context = new Proxy(
+      {},
+      {
+        get:
+          (_, name: string) =>
+          (...args: unknown[]) =>
+            calls.push({ name, args }),
+        set: () => true,
+      }
+    ) as CanvasRenderingContext2D;
+    const image = document.createElement('img');
+    Object.defineProperty(image, 'naturalWidth', { value: 800 });
+    Object.defineProperty(image, 'naturalHeight', { value: 400 });
+
+    drawSlide(
+      context,
+      { ...slide, transform: { scale: 2, x: 0.25, y: 0 } },
+      image,
+      FRAME_SIZE
+    );
+
+    const drawn = (name: string) =>
+      calls.filter((call) => call.name === name).map((call) => call.args);
+    expect(drawn('drawImage')).toEqual([[image, 560, 340, 800, 400]]);
+    expect(drawn('translate')).toEqual([
+      [960 + 200, 540],
+      [-960, -540],
+    ]);
+    expect(drawn('scale')).toEqual([[2, 2]]);
+  });
+});
@@ -0,0 +1,24 @@
+import { fuzzyMatch } from '../utils/fuzzy';
+
+describe('fuzzyMatch', () => {
+  test('matches letters in order, across words', () => {
+    expect(fuzzyMatch('ns', 'Next Slide')?.indices).toEqual([0, 5]);
+    expect(fuzzyMatch('go 12', 'Go to Slide 12')?.indices).toEqual([
+      0, 1, 12, 13,
+    ]);
+    expect(fuzzyMatch('sn', 'Next Slide')).toBeNull();
+  });
+
+  test('prefers word starts and runs of letters', () => {
+    const score = (query: string, text: string) =>
+      fuzzyMatch(query, text)?.score ?? 0;
+    expect(score('rep', 'Replay Click Sequence')).toBeGreaterThan(
+      score('rep', 'Keyboard Shortcuts Help')
+    );
+    expect(score('ex', 'Export')).toBeGreaterThan(score('ex', 'Next Step'));
+  });
+
+  test('lets an empty query match everything', () => {
+    expect(fuzzyMatch('  ', 'Undo')).toEqual({ score: 0, indices: [] });
+  });
+});
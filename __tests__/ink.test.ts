@@ -0,0 +1,63 @@
+import {
+  distanceToPolyline,
+  getPartialStroke,
+  getPressureScale,
+  getStrokePath,
+} from '../utils/ink';
+
+const points = [
+  { x: 0, y: 0, t: 0 },
+  { x: 10, y: 0, t: 100 },
+  { x: 10, y: 20, t: 300 },
+];
+
+describe('getPartialStroke', () => {
+  test('ends where the pen was at the given time', () => {
+    expect(getPartialStroke(points, 200)).toEqual([
+      { x: 0, y: 0, t: 0 },
+      { x: 10, y: 0, t: 100 },
+      { x: 10, y: 10, t: 200 },
+    ]);
+  });
+
+  test('returns the whole stroke once it has been drawn', () => {
+    expect(getPartialStroke(points, 300)).toBe(points);
+    expect(getPartialStroke(points, 500)).toBe(points);
+  });
+
+  test('starts with the first point', () => {
+    expect(getPartialStroke(points, 0)).toEqual([{ x: 0, y: 0, t: 0 }]);
+  });
+});
+
+describe('getPressureScale', () => {
+  test('draws half pressure at the chosen width', () => {
+    expect(getPressureScale({ x: 0, y: 0, t: 0 })).toBe(1);
+    expect(getPressureScale({ x: 0, y: 0, t: 0, pressure: 0.5 })).toBe(1);
+    expect(getPressureScale({ x: 0, y: 0, t: 0, pressure: 1 })).toBeGreaterThan(
+      getPressureScale({ x: 0, y: 0, t: 0, pressure: 0.2 })
+    );
+  });
+});
+
+describe('distanceToPolyline', () => {
+  test('measures to the nearest segment', () => {
+    expect(distanceToPolyline(points, { x: 5, y: 3 })).toBe(3);
+    expect(distanceToPolyline(points, { x: 14, y: 10 })).toBe(4);
+    expect(distanceToPolyline(points, { x: 13, y: 24 })).toBe(5);
+  });
+
+  test('treats a single point as a dot', () => {
+    expect(distanceToPolyline([{ x: 0, y: 0 }], { x: 3, y: 4 })).toBe(5);
+    expect(distanceToPolyline([], { x: 0, y: 0 })).toBe(Infinity);
+  });
+});
+
+describe('getStrokePath', () => {
+  test('draws a dot for a single point', () => {
+    expect(getStrokePath([{ x: 1, y: 2 }])).toBe('M1,2 L1,2');
+    expect(getStrokePath([points[0], points[1]] as typeof points)).toBe(
+      'M0,0 L10,0'
+    );
+  });
+});
@@ -0,0 +1,65 @@
+import {
+  markdownToPlainText,
+  parseInline,
+  parseMarkdown,
+} from '../utils/markdown';
+
+describe('parseMarkdown', () => {
+  test('splits headings, paragraphs and lists', () => {
+    const blocks = parseMarkdown(
+      '# Intro\nFirst line\ncontinues here\n\n- one\n- two\n1. first'
+    );
+    expect(blocks.map((block) => block.type)).toEqual([
+      'heading',
+      'paragraph',
+      'list',
+      'list',
+    ]);
+    expect(blocks[1]).toEqual({
+      type: 'paragraph',
+      children: [{ type: 'text', text: 'First line continues here' }],
+    });
+    expect(blocks[2]).toMatchObject({ ordered: false });
+    expect(blocks[3]).toMatchObject({ ordered: true });
+  });
+
+  test('parses nested inline formatting', () => {
+    expect(parseInline('say **very _loud_** and `code`')).toEqual([
+      { type: 'text', text: 'say ' },
+      {
+        type: 'strong',
+        children: [
+          { type: 'text', text: 'very ' },
+          { type: 'em', children: [{ type: 'text', text: 'loud' }] },
+        ],
+      },
+      { type: 'text', text: ' and ' },
+      { type: 'code', text: 'code' },
+    ]);
+  });
+
+  test('drops links with unsafe schemes', () => {
+    expect(parseInline('[docs](https://example.com)')).toEqual([
+      {
+        type: 'link',
+        href: 'https://example.com',
+        children: [{ type: 'text', text: 'docs' }],
+      },
+    ]);
+    expect(parseInline('[click](javascript:void)')).toEqual([
+      { type: 'text', text: 'click' },
+    ]);
+  });
+});
+
+describe('markdownToPlainText', () => {
+  test('keeps the words, list markers and link targets', () => {
+    expect(
+      markdownToPlainText(
+        '## Setup\nOpen **the** [docs](https://example.com)\n\n- one\n- _two_\n1. first'
+      )
+    ).toBe(
+      'Setup\n\nOpen the docs (https://example.com)\n\n- one\n- two\n\n1. first'
+    );
+  });
+});
@@ -0,0 +1,82 @@
+import { getMediaBlob, importMediaFiles } from '../utils/media';
+import { renderPdfPages } from '../utils/pdf';
+
+jest.mock('../utils/pdf', () => ({
+  ...jest.requireActual('../utils/pdf'),
+  renderPdfPages: jest.fn(),
+}));
+
+// jsdom has no object URLs.
+let lastUrl = 0;
+Object.defineProperty(URL, 'createObjectURL', {
+  value: () => `blob:test-${++lastUrl}`,
+});
+Object.defineProperty(URL, 'revokeObjectURL', { value: () => undefined });
+
+const file = (name: string, type = '') => new File([name], name, { type });
+const page = (number: number) =>
+  new Blob([`page ${number}`], { type: 'image/png' });
+
+beforeEach(() => {
+  jest.mocked(renderPdfPages).mockReset();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('importMediaFiles', () => {
+  test('keeps the order of the files and splits PDFs into pages', async () => {
+    const pages = [page(1), page(2)];
+    jest.mocked(renderPdfPages).mockResolvedValue(pages);
+    const photo = file('photo.jpg', 'image/jpeg');
+    const clip = file('clip.mp4', 'video/mp4');
+
+    const { media, skipped } = await importMediaFiles([
+      photo,
+      file('handout.pdf', 'application/pdf'),
+      clip,
+    ]);
+
+    expect(skipped).toEqual([]);
+    expect(media.map(({ type }) => type)).toEqual([
+      'image',
+      'image',
+      'image',
+      'video',
+    ]);
+    const blobs = await Promise.all(media.map(({ url }) => getMediaBlob(url)));
+    expect(blobs).toEqual([photo, ...pages, clip]);
+  });
+
+  test('reports unsupported files and keeps the rest', async () => {
+    const { media, skipped } = await importMediaFiles([
+      file('notes.txt', 'text/plain'),
+      file('slide.png', 'image/png'),
+      file('archive'),
+    ]);
+    expect(media).toHaveLength(1);
+    expect(skipped).toEqual([
+      { name: 'notes.txt', reason: 'unsupported file type' },
+      { name: 'archive', reason: 'unsupported file type' },
+    ]);
+  });
+
+  test('reports PDFs that are empty or cannot be read', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    jest
+      .mocked(renderPdfPages)
+      .mockResolvedValueOnce([])
+      .mockRejectedValueOnce(new Error('Invalid PDF structure'));
+
+    const { media, skipped } = await importMediaFiles([
+      file('empty.pdf'),
+      file('broken.pdf', 'application/pdf'),
+    ]);
+    expect(media).toEqual([]);
+    expect(skipped).toEqual([
+      { name: 'empty.pdf', reason: 'the PDF has no pages' },
+      { name: 'broken.pdf', reason: 'the PDF could not be read' },
+    ]);
+  });
+});
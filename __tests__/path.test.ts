@@ -0,0 +1,54 @@
+import { MAX_PATH_MS, createPath, getPointAt } from '../utils/path';
+
+const path = [
+  { x: 0, y: 0, t: 0 },
+  { x: 10, y: 0, t: 100 },
+  { x: 10, y: 20, t: 300 },
+];
+
+describe('getPointAt', () => {
+  test('interpolates between samples', () => {
+    expect(getPointAt(path, 50)).toEqual({ x: 5, y: 0 });
+    expect(getPointAt(path, 200)).toEqual({ x: 10, y: 10 });
+  });
+
+  test('clamps to the ends of the path', () => {
+    expect(getPointAt(path, -10)).toEqual({ x: 0, y: 0 });
+    expect(getPointAt(path, 1000)).toEqual({ x: 10, y: 20 });
+  });
+});
+
+describe('createPath', () => {
+  test('times the path from its first sample and ends at the click', () => {
+    expect(
+      createPath(
+        [
+          { x: 0.1, y: 0.1, t: 5000 },
+          { x: 0.2, y: 0.1, t: 5100 },
+        ],
+        { x: 0.3, y: 0.2, t: 5250 }
+      )
+    ).toEqual([
+      { x: 0.1, y: 0.1, t: 0 },
+      { x: 0.2, y: 0.1, t: 100 },
+      { x: 0.3, y: 0.2, t: 250 },
+    ]);
+  });
+
+  test('drops movement from long before the click', () => {
+    const end = { x: 0.5, y: 0.5, t: MAX_PATH_MS + 2000 };
+    expect(
+      createPath(
+        [
+          { x: 0.1, y: 0.1, t: 0 },
+          { x: 0.4, y: 0.4, t: MAX_PATH_MS + 1000 },
+        ],
+        end
+      )
+    ).toEqual([
+      { x: 0.4, y: 0.4, t: 0 },
+      { x: 0.5, y: 0.5, t: 1000 },
+    ]);
+    expect(createPath([], end)).toEqual([]);
+  });
+});
@@ -0,0 +1,92 @@
+import { isPdfFile, renderPdfPages } from '../utils/pdf';
+
+// A fake pdf.js: the first byte of the document data is its page count and
+// every page is 600 x 800 points.
+const mockDestroy = jest.fn(() => Promise.resolve());
+
+jest.mock('pdfjs-dist', () => ({
+  GlobalWorkerOptions: {},
+  getDocument: ({ data }: { data: ArrayBuffer }) => ({
+    promise: Promise.resolve({
+      numPages: new Uint8Array(data)[0] ?? 0,
+      getPage: async (number: number) => ({
+        getViewport: ({ scale }: { scale: number }) => ({
+          width: 600 * scale,
+          height: 800 * scale,
+        }),
+        render: ({ canvas }: { canvas: HTMLCanvasElement }) => {
+          canvas.dataset.page = String(number);
+          return { promise: Promise.resolve() };
+        },
+        cleanup: () => undefined,
+      }),
+    }),
+    destroy: mockDestroy,
+  }),
+}));
+jest.mock(
+  'pdfjs-dist/build/pdf.worker.min.mjs?url',
+  () => ({ default: 'pdf.worker.min.mjs' }),
+  { virtual: true }
+);
+
+// jsdom can't encode canvases, so each page becomes a note of what was drawn.
+beforeAll(() => {
+  jest
+    .spyOn(HTMLCanvasElement.prototype, 'toBlob')
+    .mockImplementation(function (this: HTMLCanvasElement, callback) {
+      const { page } = this.dataset;
+      callback(
+        new Blob([`page ${page} at ${this.width}x${this.height}`], {
+          type: 'image/png',
+        })
+      );
+    });
+});
+
+const readText = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(blob);
+  });
+
+// jsdom's Blob has no arrayBuffer().
+const pdfWithPages = (pageCount: number) =>
+  Object.assign(new Blob([], { type: 'application/pdf' }), {
+    arrayBuffer: async () => new Uint8Array([pageCount]).buffer,
+  });
+
+describe('isPdfFile', () => {
+  test('goes by the MIME type or the extension', () => {
+    expect(isPdfFile(new File([], 'deck', { type: 'application/pdf' }))).toBe(
+      true
+    );
+    expect(isPdfFile(new File([], 'Deck.PDF'))).toBe(true);
+    expect(isPdfFile(new File([], 'deck.png', { type: 'image/png' }))).toBe(
+      false
+    );
+  });
+});
+
+describe('renderPdfPages', () => {
+  test('renders every page to a sharp PNG, in order', async () => {
+    const pages = await renderPdfPages(pdfWithPages(3));
+    expect(pages.map((page) => page.type)).toEqual([
+      'image/png',
+      'image/png',
+      'image/png',
+    ]);
+    expect(await Promise.all(pages.map(readText))).toEqual([
+      'page 1 at 2400x3200',
+      'page 2 at 2400x3200',
+      'page 3 at 2400x3200',
+    ]);
+    expect(mockDestroy).toHaveBeenCalled();
+  });
+
+  test('returns no pages for an empty document', async () => {
+    expect(await renderPdfPages(pdfWithPages(0))).toEqual([]);
+  });
+});
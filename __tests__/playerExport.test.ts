@@ -0,0 +1,24 @@
+import { PLAYER_DATA_ID } from '../utils/exportUtils';
+import { buildPlayerHtml } from '../utils/playerExport';
+
+describe('buildPlayerHtml', () => {
+  const html = buildPlayerHtml(
+    'Q&A <demo>',
+    JSON.stringify({ notes: '</script><b>hi</b>' }),
+    { script: 'console.log("</script>")', styles: 'body{margin:0}' }
+  );
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+
+  test('keeps embedded text from closing its script element', () => {
+    const data = doc.getElementById(PLAYER_DATA_ID);
+    expect(JSON.parse(data?.textContent ?? '')).toEqual({
+      notes: '</script><b>hi</b>',
+    });
+    expect(doc.querySelectorAll('script')).toHaveLength(2);
+    expect(doc.querySelector('b')).toBeNull();
+  });
+
+  test('escapes the title', () => {
+    expect(doc.title).toBe('Q&A <demo>');
+  });
+});
@@ -0,0 +1,151 @@
+import React from 'react';
+import { act, render, renderHook, screen } from '@testing-library/react';
+import '@testing-library/jest-dom';
+
+import { AudienceView } from '../components/AudienceView';
+import { usePresenterBroadcast } from '../hooks/usePresenterBroadcast';
+import { AudienceFrame, PresenterMessage } from '../utils/presenterChannel';
+
+// An in-memory stand-in for the browser's BroadcastChannel: messages reach
+// every other open channel with the same name, never the sender.
+class FakeBroadcastChannel {
+  static open: FakeBroadcastChannel[] = [];
+  onmessage: ((event: MessageEvent) => void) | null = null;
+
+  constructor(readonly name: string) {
+    FakeBroadcastChannel.open.push(this);
+  }
+
+  postMessage(data: PresenterMessage) {
+    FakeBroadcastChannel.open
+      .filter((other) => other !== this && other.name === this.name)
+      .forEach((other) =>
+        other.onmessage?.(new MessageEvent('message', { data }))
+      );
+  }
+
+  close() {
+    FakeBroadcastChannel.open = FakeBroadcastChannel.open.filter(
+      (other) => other !== this
+    );
+  }
+}
+
+const frame = (scale: number, isBlanked = false): AudienceFrame => ({
+  mediaUrl: null,
+  mediaType: null,
+  transform: { scale, x: 0, y: 0 },
+  spotlight: null,
+  annotations: [],
+  visibleAnnotationIds: [],
+  video: null,
+  replayCursor: null,
+  animation: null,
+  isBlanked,
+});
+
+// Listens on the presenter channel like an audience window would.
+const listen = () => {
+  const received: PresenterMessage[] = [];
+  const channel = new FakeBroadcastChannel(
+    'interactive-presentation-tool:presenter'
+  );
+  channel.onmessage = (event) => received.push(event.data);
+  return { channel, received };
+};
+
+const broadcast = (enabled: boolean, current: AudienceFrame) =>
+  renderHook(
+    (props: { enabled: boolean; current: AudienceFrame }) =>
+      usePresenterBroadcast(props.enabled, props.current),
+    { initialProps: { enabled, current } }
+  );
+
+// Closing would tear down jsdom's window, even while tests unmount.
+const close = jest.spyOn(window, 'close').mockImplementation(() => undefined);
+
+beforeAll(() => {
+  Object.defineProperty(globalThis, 'BroadcastChannel', {
+    value: FakeBroadcastChannel,
+    configurable: true,
+  });
+});
+
+afterEach(() => {
+  FakeBroadcastChannel.open = [];
+  close.mockClear();
+});
+
+describe('usePresenterBroadcast', () => {
+  test('sends the current frame when it starts and whenever it changes', () => {
+    const { received } = listen();
+    const hook = broadcast(true, frame(1));
+    expect(received).toContainEqual({ type: 'frame', frame: frame(1) });
+    hook.rerender({ enabled: true, current: frame(2) });
+    expect(received.at(-1)).toEqual({ type: 'frame', frame: frame(2) });
+  });
+
+  test('answers a late audience window with the latest frame', () => {
+    const hook = broadcast(true, frame(1));
+    hook.rerender({ enabled: true, current: frame(3) });
+
+    const { channel, received } = listen();
+    channel.postMessage({ type: 'request-frame' });
+    expect(received).toEqual([{ type: 'frame', frame: frame(3) }]);
+  });
+
+  test('ends the presentation when it stops', () => {
+    const { received } = listen();
+    const hook = broadcast(true, frame(1));
+    hook.rerender({ enabled: false, current: frame(1) });
+    expect(received.at(-1)).toEqual({ type: 'end' });
+    // Nothing more goes out once it has ended.
+    const sent = received.length;
+    hook.rerender({ enabled: false, current: frame(2) });
+    expect(received).toHaveLength(sent);
+  });
+
+  test('stays quiet while disabled', () => {
+    const { received } = listen();
+    broadcast(false, frame(1));
+    expect(received).toEqual([]);
+  });
+});
+
+describe('AudienceView', () => {
+  test('picks up the presentation when opened after it started', () => {
+    broadcast(true, frame(2));
+    render(<AudienceView />);
+    expect(
+      screen.queryByText('Waiting for the presenter…')
+    ).not.toBeInTheDocument();
+  });
+
+  test('closes once the presenter ends the presentation', () => {
+    const hook = broadcast(true, frame(2));
+    render(<AudienceView />);
+
+    act(() => hook.rerender({ enabled: false, current: frame(2) }));
+    expect(close).toHaveBeenCalled();
+    expect(screen.getByText('The presentation has ended.')).toBeInTheDocument();
+  });
+
+  test('blanks along with the presenter', () => {
+    const hook = broadcast(true, frame(2));
+    render(<AudienceView />);
+    expect(screen.queryByRole('img', { name: 'Blank screen' })).toBeNull();
+
+    act(() => hook.rerender({ enabled: true, current: frame(2, true) }));
+    expect(
+      screen.getByRole('img', { name: 'Blank screen' })
+    ).toBeInTheDocument();
+
+    act(() => hook.rerender({ enabled: true, current: frame(2) }));
+    expect(screen.queryByRole('img', { name: 'Blank screen' })).toBeNull();
+  });
+
+  test('waits for a presenter that has not started yet', () => {
+    render(<AudienceView />);
+    expect(screen.getByText('Waiting for the presenter…')).toBeInTheDocument();
+  });
+});
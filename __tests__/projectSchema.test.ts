@@ -0,0 +1,429 @@
+import {
+  CURRENT_PROJECT_VERSION,
+  ProjectValidationError,
+  migrateProject,
+  parseProject,
+} from '../utils/projectSchema';
+
+const validProject = () => ({
+  version: CURRENT_PROJECT_VERSION,
+  savedAt: '2024-01-01T00:00:00.000Z',
+  coordinateSpace: 'content',
+  slides: [
+    {
+      id: 1,
+      mediaType: 'image',
+      media: { mimeType: 'image/png', data: 'AAAA' },
+      transform: { scale: 1, x: 0, y: 0 },
+      spotlight: null,
+      notes: '# Intro',
+      annotations: [
+        {
+          id: 3,
+          kind: 'arrow',
+          color: '#f43f5e',
+          x: 0.1,
+          y: 0.1,
+          width: 0.2,
+          height: -0.1,
+        },
+        { id: 4, kind: 'text', color: '#facc15', x: 0.5, y: 0.5, text: 'Hi' },
+        {
+          id: 5,
+          kind: 'ink',
+          color: '#22d3ee',
+          brush: 'highlighter',
+          width: 0.016,
+          points: [
+            { x: 0.2, y: 0.3, t: 0 },
+            { x: 0.4, y: 0.3, t: 120, pressure: 0.7 },
+          ],
+        },
+      ],
+      visibleAnnotationIds: [3, 4, 5],
+    },
+  ],
+  sequences: [
+    {
+      id: 'sequence-1',
+      name: 'Main',
+      steps: [
+        {
+          id: 2,
+          slideIndex: 0,
+          x: 10,
+          y: 20,
+          toolState: {
+            transform: { scale: 1.5, x: -5, y: -5 },
+            spotlight: {
+              regions: [
+                {
+                  id: 6,
+                  type: 'circle',
+                  x: 10,
+                  y: 20,
+                  width: 0,
+                  height: 0,
+                  radius: 60,
+                  points: [],
+                },
+                {
+                  id: 7,
+                  type: 'polygon',
+                  x: 0.1,
+                  y: 0.1,
+                  width: 0.2,
+                  height: 0.2,
+                  radius: 0,
+                  points: [
+                    { x: 0.1, y: 0.1 },
+                    { x: 0.3, y: 0.1 },
+                    { x: 0.2, y: 0.3 },
+                  ],
+                },
+              ],
+              dimOpacity: 0.6,
+              blur: 0.01,
+              feather: 0.02,
+            },
+            annotationIds: [3],
+            video: { time: 42.5, isPlaying: true, isMuted: false, rate: 1.5 },
+          },
+          timing: {
+            transitionMs: 800,
+            animationMs: 500,
+            dwellMs: 1200,
+            easing: 'easeInOutCubic',
+          },
+          notes: '',
+          path: [
+            { x: 0.3, y: 0.4, t: 0 },
+            { x: 0.35, y: 0.45, t: 250 },
+          ],
+          videoAction: 'play',
+        },
+      ],
+    },
+  ],
+  activeSequenceId: 'sequence-1',
+});
+
+// The project with the steps of its first sequence replaced.
+const withSteps = (
+  project: ReturnType<typeof validProject>,
+  steps: unknown[]
+) => ({
+  ...project,
+  sequences: project.sequences.map((sequence, index) =>
+    index === 0 ? { ...sequence, steps } : sequence
+  ),
+});
+
+// Before v11 a project had a single, unnamed sequence.
+const legacyProject = () => {
+  const { savedAt, coordinateSpace, slides, sequences } = validProject();
+  return {
+    version: 10,
+    savedAt,
+    coordinateSpace,
+    slides,
+    clickSequence: sequences[0]?.steps ?? [],
+  };
+};
+
+// Spotlights before v9 were a single circle or rect.
+const legacySpotlight = {
+  type: 'circle',
+  x: 10,
+  y: 20,
+  width: 0,
+  height: 0,
+  radius: 60,
+};
+
+const withLegacySpotlights = ({
+  clickSequence,
+  ...rest
+}: ReturnType<typeof legacyProject>) => ({
+  ...rest,
+  clickSequence: clickSequence.map((record) => ({
+    ...record,
+    toolState: { ...record.toolState, spotlight: legacySpotlight },
+  })),
+});
+
+const expectError = (data: unknown, path: string) => {
+  try {
+    parseProject(data);
+  } catch (error) {
+    expect(error).toBeInstanceOf(ProjectValidationError);
+    expect((error as ProjectValidationError).path).toBe(path);
+    return;
+  }
+  throw new Error('expected parseProject to throw');
+};
+
+describe('parseProject', () => {
+  test('accepts a well-formed project', () => {
+    const project = parseProject(validProject());
+    expect(project.slides).toHaveLength(1);
+    expect(
+      project.sequences[0]?.steps[0]?.toolState.spotlight?.regions[1]?.points
+    ).toHaveLength(3);
+    expect(project.activeSequenceId).toBe('sequence-1');
+  });
+
+  test('reports the path of a malformed field', () => {
+    const project = validProject();
+    const [slide] = project.slides;
+    expectError(
+      {
+        ...project,
+        slides: [{ ...slide, transform: { scale: 'big', x: 0, y: 0 } }],
+      },
+      'slides[0].transform.scale'
+    );
+  });
+
+  test('rejects steps that point at missing slides', () => {
+    const project = validProject();
+    const [record] = project.sequences[0]?.steps ?? [];
+    expectError(
+      withSteps(project, [{ ...record, slideIndex: 3 }]),
+      'sequences[0].steps[0].slideIndex'
+    );
+  });
+
+  test('rejects unknown enum values', () => {
+    const project = validProject();
+    const [record] = project.sequences[0]?.steps ?? [];
+    const spotlight = record?.toolState.spotlight;
+    expectError(
+      withSteps(project, [
+        {
+          ...record,
+          toolState: {
+            ...record?.toolState,
+            spotlight: {
+              ...spotlight,
+              regions: [{ ...spotlight?.regions[0], type: 'star' }],
+            },
+          },
+        },
+      ]),
+      'sequences[0].steps[0].toolState.spotlight.regions[0].type'
+    );
+  });
+
+  test('rejects video playback that runs backwards', () => {
+    const project = validProject();
+    const [record] = project.sequences[0]?.steps ?? [];
+    expectError(
+      withSteps(project, [
+        {
+          ...record,
+          toolState: {
+            ...record?.toolState,
+            video: { time: 1, isPlaying: true, isMuted: false, rate: -1 },
+          },
+        },
+      ]),
+      'sequences[0].steps[0].toolState.video.rate'
+    );
+  });
+
+  test('rejects sequences that share an id', () => {
+    const project = validProject();
+    const [sequence] = project.sequences;
+    expectError(
+      {
+        ...project,
+        sequences: [...project.sequences, { ...sequence, name: 'Copy' }],
+      },
+      'sequences[1].id'
+    );
+  });
+
+  test('rejects an active sequence that does not exist', () => {
+    expectError(
+      { ...validProject(), activeSequenceId: 'sequence-2' },
+      'activeSequenceId'
+    );
+  });
+
+  test('rejects projects without a sequence', () => {
+    expectError({ ...validProject(), sequences: [] }, 'sequences');
+  });
+
+  test('rejects ink points without timing', () => {
+    const project = validProject();
+    const [slide] = project.slides;
+    expectError(
+      {
+        ...project,
+        slides: [
+          {
+            ...slide,
+            annotations: [
+              {
+                id: 5,
+                kind: 'ink',
+                color: '#22d3ee',
+                brush: 'pen',
+                width: 0.004,
+                points: [{ x: 0.2, y: 0.3 }],
+              },
+            ],
+          },
+        ],
+      },
+      'slides[0].annotations[0].points[0].t'
+    );
+  });
+
+  test('rejects files from a newer version', () => {
+    expectError(
+      { ...validProject(), version: CURRENT_PROJECT_VERSION + 1 },
+      'version'
+    );
+  });
+
+  test('rejects data that is not a project at all', () => {
+    expectError([1, 2, 3], '');
+  });
+});
+
+describe('migrateProject', () => {
+  test('runs the migration chain in order', () => {
+    const migrations = {
+      1: (p: Record<string, unknown>) => ({ ...p, version: 2, a: true }),
+      2: (p: Record<string, unknown>) => ({ ...p, version: 3, b: p.a }),
+    };
+    expect(migrateProject({ version: 1 }, migrations, 3)).toEqual({
+      version: 3,
+      a: true,
+      b: true,
+    });
+  });
+
+  test('upgrades v1 projects to timed, animated steps', () => {
+    const { clickSequence, ...rest } = withLegacySpotlights(legacyProject());
+    const v1 = {
+      ...rest,
+      version: 1,
+      clickSequence: clickSequence.map(
+        ({ id, slideIndex, x, y, toolState }) => ({
+          id,
+          slideIndex,
+          x,
+          y,
+          toolState,
+        })
+      ),
+    };
+    const project = parseProject(v1);
+    expect(project.version).toBe(CURRENT_PROJECT_VERSION);
+    expect(project.sequences[0]?.steps[0]?.timing).toEqual({
+      transitionMs: 800,
+      animationMs: 300,
+      dwellMs: 400,
+      easing: 'easeOutCubic',
+    });
+  });
+
+  test('flags v3 projects as using pixel coordinates', () => {
+    const { coordinateSpace, ...rest } = withLegacySpotlights(legacyProject());
+    expect(coordinateSpace).toBe('content');
+    const project = parseProject({ ...rest, version: 3 });
+    expect(project.coordinateSpace).toBe('pixels');
+  });
+
+  test('gives v4 slides and steps empty notes', () => {
+    const { slides, clickSequence, ...rest } =
+      withLegacySpotlights(legacyProject());
+    const project = parseProject({
+      ...rest,
+      version: 4,
+      slides: slides.map(({ id, mediaType, media, transform, spotlight }) => ({
+        id,
+        mediaType,
+        media,
+        transform,
+        spotlight,
+      })),
+      clickSequence: clickSequence.map(
+        ({ id, slideIndex, x, y, toolState, timing }) => ({
+          id,
+          slideIndex,
+          x,
+          y,
+          toolState,
+          timing,
+        })
+      ),
+    });
+    expect(project.slides[0]?.notes).toBe('');
+    expect(project.sequences[0]?.steps[0]?.notes).toBe('');
+  });
+
+  test('gives v5 projects no annotations', () => {
+    const { slides, clickSequence, ...rest } =
+      withLegacySpotlights(legacyProject());
+    const project = parseProject({
+      ...rest,
+      version: 5,
+      slides: slides.map(
+        ({ id, mediaType, media, transform, spotlight, notes }) => ({
+          id,
+          mediaType,
+          media,
+          transform,
+          spotlight,
+          notes,
+        })
+      ),
+      clickSequence: clickSequence.map((record) => ({
+        ...record,
+        toolState: {
+          transform: record.toolState.transform,
+          spotlight: record.toolState.spotlight,
+        },
+      })),
+    });
+    expect(project.slides[0]?.annotations).toEqual([]);
+    expect(project.slides[0]?.visibleAnnotationIds).toEqual([]);
+    expect(project.sequences[0]?.steps[0]?.toolState.annotationIds).toEqual([]);
+  });
+
+  test('turns v8 spotlights into a single dimmed region', () => {
+    const project = parseProject({
+      ...withLegacySpotlights(legacyProject()),
+      version: 8,
+    });
+    expect(project.slides[0]?.spotlight).toBeNull();
+    expect(project.sequences[0]?.steps[0]?.toolState.spotlight).toEqual({
+      regions: [{ id: 1, ...legacySpotlight, points: [] }],
+      dimOpacity: 0.8,
+      blur: 0,
+      feather: 0,
+    });
+  });
+
+  test('gives v9 steps no video playback', () => {
+    const project = parseProject({ ...legacyProject(), version: 9 });
+    expect(project.sequences[0]?.steps[0]?.toolState.video).toBeNull();
+    expect(project.sequences[0]?.steps[0]?.videoAction).toBeNull();
+  });
+
+  test('moves the v10 click sequence into a single active sequence', () => {
+    const project = parseProject(legacyProject());
+    expect(project.sequences).toEqual(validProject().sequences);
+    expect(project.activeSequenceId).toBe(project.sequences[0]?.id);
+  });
+
+  test('fails when a migration step is missing', () => {
+    expect(() => migrateProject({ version: 1 }, {}, 2)).toThrow(
+      ProjectValidationError
+    );
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * @jest-environment node
+ */
+// jsdom can't structured-clone blobs into IndexedDB.
+import 'fake-indexeddb/auto';
+
+import { ClickSequence, Slide } from '../types';
+import { DEFAULT_STEP_TIMING } from '../utils/timing';
+import { INITIAL_TRANSFORM } from '../utils/sequence';
+import { createMediaUrl, getMediaBlob } from '../utils/media';
+import {
+  deleteStoredProject,
+  listStoredProjects,
+  loadStoredProject,
+  saveStoredProject,
+} from '../utils/projectStore';
+
+const readBytes = async (blob: Blob) =>
+  new Uint8Array(await blob.arrayBuffer());
+
+const bytes = new Uint8Array([137, 80, 78, 71, 1, 2, 3]);
+
+const slide = (id: number, mediaUrl: string | null): Slide => ({
+  id,
+  mediaUrl,
+  mediaType: mediaUrl ? 'image' : null,
+  transform: INITIAL_TRANSFORM,
+  spotlight: null,
+  notes: `Slide ${id}`,
+  annotations: [],
+  visibleAnnotationIds: [],
+  video: null,
+});
+
+const sequences: ClickSequence[] = [
+  {
+    id: 'main',
+    name: 'Main',
+    steps: [
+      {
+        id: 1,
+        slideIndex: 0,
+        x: 0.5,
+        y: 0.5,
+        toolState: {
+          transform: INITIAL_TRANSFORM,
+          spotlight: null,
+          annotationIds: [],
+          video: null,
+        },
+        timing: DEFAULT_STEP_TIMING,
+        notes: '',
+        path: [],
+        videoAction: null,
+      },
+    ],
+  },
+];
+
+const saveProject = async (id: string, name: string) => {
+  const mediaUrl = createMediaUrl(new Blob([bytes], { type: 'image/png' }));
+  const slides = [slide(1, mediaUrl), slide(2, null)];
+  await saveStoredProject(id, name, slides, sequences, 'main');
+  return slides;
+};
+
+describe('project store', () => {
+  test('loads a saved project with its media as fresh blobs', async () => {
+    const slides = await saveProject('project-1', 'Demo');
+
+    const restored = await loadStoredProject('project-1');
+    expect(restored.name).toBe('Demo');
+    expect(restored.sequences).toEqual(sequences);
+    expect(restored.activeSequenceId).toBe('main');
+    expect(restored.slides[1]).toEqual(slides[1]);
+
+    const [withMedia] = restored.slides;
+    expect(withMedia?.notes).toBe('Slide 1');
+    expect(withMedia?.mediaUrl).not.toBe(slides[0]?.mediaUrl);
+    const blob = await getMediaBlob(withMedia?.mediaUrl ?? '');
+    expect(blob.type).toBe('image/png');
+    expect(await readBytes(blob)).toEqual(bytes);
+  });
+
+  test('lists saved projects, newest first', async () => {
+    await saveProject('project-2', 'Newer');
+    const projects = await listStoredProjects();
+    expect(projects[0]).toMatchObject({
+      id: 'project-2',
+      name: 'Newer',
+      slideCount: 2,
+      stepCount: 1,
+    });
+    expect(projects.map(({ id }) => id)).toContain('project-1');
+  });
+
+  test('deletes a project and keeps the others loadable', async () => {
+    await deleteStoredProject('project-2');
+    const projects = await listStoredProjects();
+    expect(projects.map(({ id }) => id)).toEqual(['project-1']);
+    await expect(loadStoredProject('project-2')).rejects.toThrow(
+      'No stored project'
+    );
+
+    const { slides } = await loadStoredProject('project-1');
+    const blob = await getMediaBlob(slides[0]?.mediaUrl ?? '');
+    expect(await readBytes(blob)).toEqual(bytes);
+  });
+});
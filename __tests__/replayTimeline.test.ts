@@ -0,0 +1,150 @@
+import { act, renderHook } from '@testing-library/react';
+
+import { ClickRecord, Slide } from '../types';
+import { useAutoReplay } from '../hooks/useAutoReplay';
+import { INITIAL_TRANSFORM } from '../utils/sequence';
+import { SLIDE_TRANSITION_MS } from '../utils/timing';
+import { buildReplayTimeline, getReplayFrame } from '../utils/replayTimeline';
+
+const slide = (id: number, mediaType: Slide['mediaType'] = 'image'): Slide => ({
+  id,
+  mediaUrl: `blob:${id}`,
+  mediaType,
+  transform: INITIAL_TRANSFORM,
+  spotlight: null,
+  notes: '',
+  annotations: [],
+  visibleAnnotationIds: [],
+  video: null,
+});
+
+const step = (
+  id: number,
+  slideIndex: number,
+  x: number,
+  scale = 1
+): ClickRecord => ({
+  id,
+  slideIndex,
+  x,
+  y: 0.5,
+  toolState: {
+    transform: { scale, x: 0, y: 0 },
+    spotlight: null,
+    annotationIds: [],
+    video: null,
+  },
+  timing: {
+    transitionMs: 1000,
+    animationMs: 500,
+    dwellMs: 500,
+    easing: 'linear',
+  },
+  notes: '',
+  path: [],
+  videoAction: null,
+});
+
+describe('buildReplayTimeline', () => {
+  test('lays steps out one after another, with slide changes between', () => {
+    const { steps, durationMs } = buildReplayTimeline(
+      [slide(1), slide(2)],
+      [step(1, 0, 0.2), step(2, 0, 0.8), step(3, 1, 0.5)]
+    );
+    expect(
+      steps.map(({ startMs, clickMs, endMs }) => [startMs, clickMs, endMs])
+    ).toEqual([
+      [50, 1050, 2050],
+      [2050, 3050, 4050],
+      [4050, 4050 + SLIDE_TRANSITION_MS + 1000, 6050 + SLIDE_TRANSITION_MS],
+    ]);
+    expect(durationMs).toBe(6050 + SLIDE_TRANSITION_MS);
+  });
+});
+
+describe('buildReplayTimeline and useAutoReplay', () => {
+  afterEach(() => jest.useRealTimers());
+
+  test('agree on when every step starts, clicks and ends', async () => {
+    jest.useFakeTimers();
+    const slides = [slide(1), slide(2)];
+    const sequence = [step(1, 0, 0.2), step(2, 0, 0.8), step(3, 1, 0.5)];
+    const timeline = buildReplayTimeline(slides, sequence);
+
+    const startedAt = performance.now();
+    const elapsed = () => performance.now() - startedAt;
+    const starts: number[] = [];
+    const clicks: number[] = [];
+    let finishedAt: number | null = null;
+    renderHook(() =>
+      useAutoReplay({
+        isPlaying: true,
+        isPaused: false,
+        speed: 1,
+        startStep: 0,
+        sequence,
+        currentSlideIndex: timeline.initialSlideIndex,
+        onStepChange: () => starts.push(elapsed()),
+        onSlideChange: () => undefined,
+        onCursorChange: () => undefined,
+        onApplyStep: () => clicks.push(elapsed()),
+        onFinish: () => {
+          finishedAt = elapsed();
+        },
+      })
+    );
+    await act(() => jest.advanceTimersByTimeAsync(timeline.durationMs + 100));
+
+    expect(starts).toEqual(timeline.steps.map(({ startMs }) => startMs));
+    expect(clicks).toEqual(timeline.steps.map(({ clickMs }) => clickMs));
+    expect(finishedAt).toBe(timeline.durationMs);
+  });
+});
+
+describe('getReplayFrame', () => {
+  const timeline = buildReplayTimeline(
+    [slide(1), slide(2)],
+    [step(1, 0, 0.2, 2), step(2, 0, 0.8), step(3, 1, 0.5)]
+  );
+
+  test('shows the cursor where it lands and animates the step', () => {
+    const frame = getReplayFrame(timeline, 1050 + 250);
+    expect(frame.stripOffset).toBe(0);
+    const [current] = frame.slides;
+    expect(current?.cursor?.point).toEqual({ x: 0.2, y: 0.5 });
+    expect(current?.cursor?.rippleProgress).toBeGreaterThan(0);
+    expect(current?.animation?.progress).toBeCloseTo(0.5);
+    expect(current?.slide.transform.scale).toBe(2);
+  });
+
+  test('glides the cursor from the previous click on the same slide', () => {
+    const point = getReplayFrame(timeline, 2050 + 500).slides[0]?.cursor?.point;
+    expect(point?.x).toBeGreaterThan(0.2);
+    expect(point?.x).toBeLessThan(0.8);
+  });
+
+  test('slides the strip between slides, keeping the last cursor behind', () => {
+    const frame = getReplayFrame(timeline, 4050 + SLIDE_TRANSITION_MS / 2);
+    expect(frame.stripOffset).toBeCloseTo(0.5);
+    expect(frame.slides.map(({ slideIndex }) => slideIndex)).toEqual([0, 1]);
+    expect(frame.slides[0]?.cursor?.point).toEqual({ x: 0.8, y: 0.5 });
+    expect(frame.slides[1]?.cursor).toBeNull();
+  });
+
+  test('keeps a playing video going', () => {
+    const playing = {
+      ...step(1, 0, 0.5),
+      toolState: {
+        ...step(1, 0, 0.5).toolState,
+        video: { time: 10, isPlaying: true, isMuted: false, rate: 2 },
+      },
+    };
+    const videoTimeline = buildReplayTimeline([slide(1, 'video')], [playing]);
+    expect(
+      getReplayFrame(videoTimeline, 1050 + 1500).slides[0]?.slide.video?.time
+    ).toBe(13);
+    expect(getReplayFrame(videoTimeline, 0).slides[0]?.slide.video?.time).toBe(
+      0
+    );
+  });
+});
@@ -0,0 +1,142 @@
+import { ClickRecord, Slide, ToolState } from '../types';
+import { DEFAULT_STEP_TIMING } from '../utils/timing';
+import { INITIAL_VIDEO_PLAYBACK } from '../utils/video';
+import {
+  INITIAL_TRANSFORM,
+  applyCapture,
+  duplicateStep,
+  getSlideStatesAtStep,
+  moveStep,
+  removeStep,
+} from '../utils/sequence';
+
+const toolState = (scale: number, annotationIds: number[] = []): ToolState => ({
+  transform: { scale, x: 0, y: 0 },
+  spotlight: null,
+  annotationIds,
+  video: null,
+});
+
+const step = (
+  id: number,
+  slideIndex = 0,
+  state: ToolState = toolState(1)
+): ClickRecord => ({
+  id,
+  slideIndex,
+  x: 0.5,
+  y: 0.5,
+  toolState: state,
+  timing: DEFAULT_STEP_TIMING,
+  notes: `Step ${id}`,
+  path: [],
+  videoAction: null,
+});
+
+const slide = (id: number, mediaType: Slide['mediaType']): Slide => ({
+  id,
+  mediaUrl: `blob:${id}`,
+  mediaType,
+  transform: { scale: 3, x: 0.2, y: 0.2 },
+  spotlight: null,
+  notes: '',
+  annotations: [],
+  visibleAnnotationIds: [7],
+  video: null,
+});
+
+const sequence = [step(1), step(2), step(3), step(4)];
+const ids = (steps: ClickRecord[]) => steps.map((record) => record.id);
+
+describe('applyCapture', () => {
+  test('appends and inserts new steps', () => {
+    expect(ids(applyCapture(sequence, step(5), { mode: 'append' }))).toEqual([
+      1, 2, 3, 4, 5,
+    ]);
+    expect(
+      ids(applyCapture(sequence, step(5), { mode: 'insert', index: 1 }))
+    ).toEqual([1, 5, 2, 3, 4]);
+  });
+
+  test('replaces the click but keeps the id and notes of the step', () => {
+    const recaptured = { ...step(5, 1, toolState(2)), notes: '' };
+    const result = applyCapture(sequence, recaptured, {
+      mode: 'replace',
+      index: 2,
+    });
+    expect(ids(result)).toEqual([1, 2, 3, 4]);
+    expect(result[2]).toEqual({ ...recaptured, id: 3, notes: 'Step 3' });
+  });
+
+  test('adds steps for targets past the end', () => {
+    expect(
+      ids(applyCapture(sequence, step(5), { mode: 'replace', index: 9 }))
+    ).toEqual([1, 2, 3, 4, 5]);
+    expect(
+      ids(applyCapture(sequence, step(5), { mode: 'insert', index: 9 }))
+    ).toEqual([1, 2, 3, 4, 5]);
+  });
+});
+
+describe('moveStep', () => {
+  test('moves a step in front of the step at the drop position', () => {
+    expect(ids(moveStep(sequence, 0, 2))).toEqual([2, 1, 3, 4]);
+    expect(ids(moveStep(sequence, 3, 1))).toEqual([1, 4, 2, 3]);
+  });
+
+  test('moves a step to the end', () => {
+    expect(ids(moveStep(sequence, 1, sequence.length))).toEqual([1, 3, 4, 2]);
+  });
+
+  test('leaves the sequence alone when the step stays put', () => {
+    expect(moveStep(sequence, 1, 1)).toBe(sequence);
+    expect(moveStep(sequence, 1, 2)).toBe(sequence);
+    expect(moveStep(sequence, 9, 0)).toBe(sequence);
+  });
+});
+
+describe('duplicateStep / removeStep', () => {
+  test('inserts a copy with a new id after the original', () => {
+    const result = duplicateStep(sequence, 1);
+    expect(result).toHaveLength(5);
+    expect(result[2]).toEqual({ ...step(2), id: result[2]?.id });
+    expect(new Set(ids(result)).size).toBe(5);
+    expect(duplicateStep(sequence, 9)).toBe(sequence);
+  });
+
+  test('removes a step', () => {
+    expect(ids(removeStep(sequence, 0))).toEqual([2, 3, 4]);
+    expect(ids(removeStep(sequence, 9))).toEqual([1, 2, 3, 4]);
+  });
+});
+
+describe('getSlideStatesAtStep', () => {
+  const slides = [slide(10, 'image'), slide(20, 'video')];
+  const steps = [
+    step(1, 0, toolState(2, [7])),
+    step(2, 1, toolState(1.5)),
+    step(3, 0, toolState(4)),
+  ];
+
+  test('resets every slide before the first step', () => {
+    const [image, video] = getSlideStatesAtStep(slides, steps, 0);
+    expect(image).toMatchObject({
+      transform: INITIAL_TRANSFORM,
+      spotlight: null,
+      visibleAnnotationIds: [],
+      video: null,
+    });
+    expect(video?.video).toEqual(INITIAL_VIDEO_PLAYBACK);
+  });
+
+  test('applies the steps before the given one', () => {
+    const [image, video] = getSlideStatesAtStep(slides, steps, 2);
+    expect(image?.transform.scale).toBe(2);
+    expect(image?.visibleAnnotationIds).toEqual([7]);
+    expect(video?.transform.scale).toBe(1.5);
+
+    const [last] = getSlideStatesAtStep(slides, steps, steps.length);
+    expect(last?.transform.scale).toBe(4);
+    expect(last?.visibleAnnotationIds).toEqual([]);
+  });
+});
@@ -0,0 +1,61 @@
+import { ClickSequence } from '../types';
+import {
+  duplicateSequence,
+  getActiveSequence,
+  getUniqueSequenceName,
+  removeSequence,
+} from '../utils/sequences';
+
+const sequences: ClickSequence[] = [
+  { id: 'a', name: 'Main', steps: [] },
+  { id: 'b', name: 'Short', steps: [] },
+];
+
+describe('getActiveSequence', () => {
+  test('falls back to the first sequence for an unknown id', () => {
+    expect(getActiveSequence(sequences, 'b')?.name).toBe('Short');
+    expect(getActiveSequence(sequences, 'missing')?.name).toBe('Main');
+  });
+});
+
+describe('getUniqueSequenceName', () => {
+  test('numbers names that are already taken', () => {
+    expect(getUniqueSequenceName(sequences, 'Long')).toBe('Long');
+    expect(getUniqueSequenceName(sequences, 'Main')).toBe('Main 2');
+    expect(
+      getUniqueSequenceName(
+        [...sequences, { id: 'c', name: 'Main 2', steps: [] }],
+        'Main'
+      )
+    ).toBe('Main 3');
+  });
+});
+
+describe('duplicateSequence', () => {
+  test('inserts a renamed copy right after the original', () => {
+    const { sequences: result, copy } = duplicateSequence(sequences, 'a');
+    expect(result.map((sequence) => sequence.name)).toEqual([
+      'Main',
+      'Main copy',
+      'Short',
+    ]);
+    expect(copy?.id).not.toBe('a');
+    expect(copy?.steps).toBe(sequences[0]?.steps);
+  });
+
+  test('does nothing for an unknown sequence', () => {
+    expect(duplicateSequence(sequences, 'missing')).toEqual({
+      sequences,
+      copy: null,
+    });
+  });
+});
+
+describe('removeSequence', () => {
+  test('never removes the last sequence', () => {
+    const [first] = removeSequence(sequences, 'b');
+    expect(first?.id).toBe('a');
+    const only = removeSequence(sequences, 'b');
+    expect(removeSequence(only, 'a')).toBe(only);
+  });
+});
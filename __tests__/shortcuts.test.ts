@@ -0,0 +1,134 @@
+import {
+  DEFAULT_SHORTCUT_SETTINGS,
+  formatBinding,
+  getKeyBindings,
+  getKeyCombo,
+  loadShortcutSettings,
+  matchShortcut,
+  normalizeBinding,
+  saveShortcutSettings,
+} from '../utils/shortcuts';
+
+const press = (
+  key: string,
+  code: string,
+  modifiers: Partial<
+    Record<'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey', boolean>
+  > = {}
+) => ({
+  key,
+  code,
+  ctrlKey: false,
+  metaKey: false,
+  altKey: false,
+  shiftKey: false,
+  ...modifiers,
+});
+
+describe('getKeyCombo', () => {
+  test('names keys with their modifiers in order', () => {
+    expect(getKeyCombo(press('a', 'KeyA'))).toBe('A');
+    expect(
+      getKeyCombo(press('Z', 'KeyZ', { shiftKey: true, metaKey: true }))
+    ).toBe('Ctrl+Shift+Z');
+    expect(getKeyCombo(press('å', 'KeyA', { altKey: true }))).toBe('Alt+A');
+    expect(getKeyCombo(press(' ', 'Space'))).toBe('Space');
+    expect(getKeyCombo(press('PageDown', 'PageDown'))).toBe('PageDown');
+  });
+
+  test('leaves Shift out of symbols it typed', () => {
+    expect(getKeyCombo(press('?', 'Slash', { shiftKey: true }))).toBe('?');
+  });
+
+  test('ignores modifiers pressed on their own', () => {
+    expect(getKeyCombo(press('Shift', 'ShiftLeft', { shiftKey: true }))).toBe(
+      null
+    );
+  });
+});
+
+describe('normalizeBinding', () => {
+  test('tidies modifiers, keys and chords', () => {
+    expect(normalizeBinding('shift+cmd+z')).toBe('Ctrl+Shift+Z');
+    expect(normalizeBinding(' g  s ')).toBe('G S');
+    expect(normalizeBinding('Ctrl++')).toBe('Ctrl++');
+    expect(normalizeBinding('Hyper+A')).toBeNull();
+    expect(normalizeBinding('A B C')).toBeNull();
+  });
+
+  test('formats bindings for people', () => {
+    expect(formatBinding('ArrowRight')).toBe('Right Arrow');
+    expect(formatBinding('G S')).toBe('G then S');
+  });
+});
+
+describe('getKeyBindings', () => {
+  test('adds profile keys to the defaults, and overrides replace both', () => {
+    const clicker = getKeyBindings({ profile: 'clicker', overrides: {} });
+    expect(clicker['step.next']).toEqual(['ArrowRight', 'Space', 'PageDown']);
+    expect(
+      getKeyBindings({ profile: 'clicker', overrides: { 'step.next': ['X'] } })[
+        'step.next'
+      ]
+    ).toEqual(['X']);
+  });
+});
+
+describe('matchShortcut', () => {
+  const bindings = getKeyBindings({
+    profile: 'standard',
+    overrides: { 'tool.ink': ['G P'] },
+  });
+
+  test('picks the active command for a shared key', () => {
+    expect(
+      matchShortcut(bindings, ['slide.next', 'tool.ink'], null, 'ArrowRight')
+    ).toEqual({ type: 'command', id: 'slide.next' });
+    expect(matchShortcut(bindings, ['step.next'], null, 'ArrowRight')).toEqual({
+      type: 'command',
+      id: 'step.next',
+    });
+    expect(matchShortcut(bindings, ['step.next'], null, 'Ctrl+R')).toBeNull();
+  });
+
+  test('waits for the rest of a chord', () => {
+    expect(matchShortcut(bindings, ['tool.ink'], null, 'G')).toEqual({
+      type: 'chord',
+      prefix: 'G',
+    });
+    expect(matchShortcut(bindings, ['tool.ink'], 'G', 'P')).toEqual({
+      type: 'command',
+      id: 'tool.ink',
+    });
+    expect(
+      matchShortcut(bindings, ['tool.ink', 'tool.laser'], 'G', 'L')
+    ).toEqual({ type: 'command', id: 'tool.laser' });
+  });
+});
+
+describe('shortcut settings', () => {
+  afterEach(() => localStorage.clear());
+
+  test('round-trip through local storage', () => {
+    const settings = {
+      profile: 'clicker' as const,
+      overrides: { 'edit.undo': ['Ctrl+U'] },
+    };
+    saveShortcutSettings(settings);
+    expect(loadShortcutSettings()).toEqual(settings);
+  });
+
+  test('drop anything unknown or malformed', () => {
+    localStorage.setItem(
+      'interactive-presentation-tool:shortcuts',
+      JSON.stringify({
+        profile: 'foot-pedal',
+        overrides: { 'tool.ink': ['ctrl+i', 7], 'tool.magic': ['M'] },
+      })
+    );
+    expect(loadShortcutSettings()).toEqual({
+      profile: DEFAULT_SHORTCUT_SETTINGS.profile,
+      overrides: { 'tool.ink': ['Ctrl+I'] },
+    });
+  });
+});
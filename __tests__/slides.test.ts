@@ -0,0 +1,117 @@
+import { ClickRecord, Slide } from '../types';
+import { DEFAULT_STEP_TIMING } from '../utils/timing';
+import { INITIAL_TRANSFORM } from '../utils/sequence';
+import {
+  Deck,
+  countStepsOnSlide,
+  duplicateSlide,
+  insertSlides,
+  moveSlide,
+  removeSlide,
+} from '../utils/slides';
+
+const slide = (id: number): Slide => ({
+  id,
+  mediaUrl: `blob:${id}`,
+  mediaType: 'image',
+  transform: { x: id, y: 0, scale: 2 },
+  spotlight: null,
+  notes: '',
+  annotations: [],
+  visibleAnnotationIds: [],
+  video: null,
+});
+
+const step = (id: number, slideIndex: number): ClickRecord => ({
+  id,
+  slideIndex,
+  x: 0.5,
+  y: 0.5,
+  toolState: {
+    transform: INITIAL_TRANSFORM,
+    spotlight: null,
+    annotationIds: [],
+    video: null,
+  },
+  timing: DEFAULT_STEP_TIMING,
+  notes: '',
+  path: [],
+  videoAction: null,
+});
+
+const deck: Deck = {
+  slides: [slide(10), slide(20), slide(30)],
+  sequences: [
+    {
+      id: 'main',
+      name: 'Main',
+      steps: [step(1, 0), step(2, 1), step(3, 2), step(4, 1)],
+    },
+    { id: 'short', name: 'Short', steps: [step(5, 2)] },
+  ],
+};
+
+// Which slide (by id) every step of a sequence plays on, in order.
+const stepSlideIds = ({ slides, sequences }: Deck, sequenceIndex = 0) =>
+  sequences[sequenceIndex]?.steps.map(
+    (record) => slides[record.slideIndex]?.id
+  );
+
+describe('moveSlide', () => {
+  test('moves a slide in front of the slide at the drop position', () => {
+    expect(moveSlide(deck, 0, 2).slides.map((s) => s.id)).toEqual([20, 10, 30]);
+    expect(moveSlide(deck, 2, 1).slides.map((s) => s.id)).toEqual([10, 30, 20]);
+  });
+
+  test('keeps every step on the slide it was captured on', () => {
+    const forward = moveSlide(deck, 0, deck.slides.length);
+    expect(forward.slides.map((s) => s.id)).toEqual([20, 30, 10]);
+    expect(stepSlideIds(forward)).toEqual([10, 20, 30, 20]);
+    expect(stepSlideIds(forward, 1)).toEqual([30]);
+
+    const back = moveSlide(deck, 2, 0);
+    expect(back.slides.map((s) => s.id)).toEqual([30, 10, 20]);
+    expect(stepSlideIds(back)).toEqual([10, 20, 30, 20]);
+  });
+
+  test('leaves the deck alone when nothing moves', () => {
+    expect(moveSlide(deck, 1, 1)).toBe(deck);
+    expect(moveSlide(deck, 1, 2)).toBe(deck);
+  });
+});
+
+describe('duplicateSlide', () => {
+  test('inserts a copy with a new id after the original', () => {
+    const result = duplicateSlide(deck, 0);
+    const copy = result.slides[1];
+    expect(result.slides).toHaveLength(4);
+    expect(copy).toEqual({ ...slide(10), id: copy?.id });
+    expect(new Set(result.slides.map((s) => s.id)).size).toBe(4);
+    expect(stepSlideIds(result)).toEqual([10, 20, 30, 20]);
+  });
+});
+
+describe('insertSlides', () => {
+  test('shifts steps on later slides past the new ones', () => {
+    const result = insertSlides(deck, 1, [slide(40), slide(50)]);
+    expect(result.slides.map((s) => s.id)).toEqual([10, 40, 50, 20, 30]);
+    expect(stepSlideIds(result)).toEqual([10, 20, 30, 20]);
+  });
+});
+
+describe('removeSlide', () => {
+  test('drops the steps on the removed slide and shifts later ones', () => {
+    const result = removeSlide(deck, 1);
+    expect(result.slides.map((s) => s.id)).toEqual([10, 30]);
+    expect(result.sequences[0]?.steps.map((record) => record.id)).toEqual([
+      1, 3,
+    ]);
+    expect(stepSlideIds(result)).toEqual([10, 30]);
+    expect(stepSlideIds(result, 1)).toEqual([30]);
+  });
+
+  test('counts the steps a removal would drop in every sequence', () => {
+    expect(countStepsOnSlide(deck.sequences, 1)).toBe(2);
+    expect(countStepsOnSlide(deck.sequences, 2)).toBe(2);
+  });
+});
@@ -0,0 +1,69 @@
+import {
+  createDraggedRegion,
+  createPolygonRegion,
+  isInsideRegion,
+  resizeRegion,
+} from '../utils/spotlight';
+
+describe('createDraggedRegion', () => {
+  test('spans the drag whichever way it went', () => {
+    expect(
+      createDraggedRegion('rect', { x: 50, y: 40 }, { x: 10, y: 20 })
+    ).toMatchObject({ type: 'rect', x: 10, y: 20, width: 40, height: 20 });
+  });
+
+  test('grows circles from where the drag started', () => {
+    expect(
+      createDraggedRegion('circle', { x: 10, y: 10 }, { x: 13, y: 14 })
+    ).toMatchObject({ type: 'circle', x: 10, y: 10, radius: 5 });
+  });
+});
+
+describe('resizeRegion', () => {
+  test('keeps the opposite corner in place', () => {
+    const region = createDraggedRegion(
+      'rect',
+      { x: 0, y: 0 },
+      { x: 10, y: 10 }
+    );
+    expect(resizeRegion(region, 'nw', { x: -10, y: 5 })).toMatchObject({
+      x: -10,
+      y: 5,
+      width: 20,
+      height: 5,
+    });
+  });
+
+  test('stretches polygon outlines to the new bounds', () => {
+    const region = createPolygonRegion([
+      { x: 0, y: 0 },
+      { x: 10, y: 0 },
+      { x: 0, y: 10 },
+    ]);
+    expect(resizeRegion(region, 'se', { x: 20, y: 5 }).points).toEqual([
+      { x: 0, y: 0 },
+      { x: 20, y: 0 },
+      { x: 0, y: 5 },
+    ]);
+  });
+});
+
+describe('isInsideRegion', () => {
+  test('follows the outline of each shape', () => {
+    const ellipse = createDraggedRegion(
+      'ellipse',
+      { x: 0, y: 0 },
+      { x: 20, y: 10 }
+    );
+    expect(isInsideRegion(ellipse, { x: 10, y: 5 })).toBe(true);
+    expect(isInsideRegion(ellipse, { x: 1, y: 1 })).toBe(false);
+
+    const triangle = createPolygonRegion([
+      { x: 0, y: 0 },
+      { x: 10, y: 0 },
+      { x: 0, y: 10 },
+    ]);
+    expect(isInsideRegion(triangle, { x: 2, y: 2 })).toBe(true);
+    expect(isInsideRegion(triangle, { x: 8, y: 8 })).toBe(false);
+  });
+});
@@ -0,0 +1,93 @@
+import {
+  DEFAULT_STEP_TIMING,
+  MAX_DWELL_MS,
+  MIN_DWELL_MS,
+  PlaybackClock,
+  dwellFromCaptureGap,
+  waitPlayback,
+} from '../utils/timing';
+
+describe('dwellFromCaptureGap', () => {
+  const step = { ...DEFAULT_STEP_TIMING, animationMs: 500 };
+  const next = { ...DEFAULT_STEP_TIMING, transitionMs: 800 };
+
+  test("subtracts the step's animation and the next step's travel", () => {
+    expect(dwellFromCaptureGap(3000, step, next)).toBe(1700);
+  });
+
+  test('clamps quick and long pauses', () => {
+    expect(dwellFromCaptureGap(1000, step, next)).toBe(MIN_DWELL_MS);
+    expect(dwellFromCaptureGap(60000, step, next)).toBe(MAX_DWELL_MS);
+  });
+});
+
+describe('waitPlayback', () => {
+  let now = 0;
+  let clock: PlaybackClock;
+
+  beforeEach(() => {
+    now = 0;
+    clock = { speed: 1, isPaused: false, isCancelled: false };
+    jest.useFakeTimers({ doNotFake: ['performance'] });
+    jest.spyOn(performance, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  // Moves the mocked clock and the fake timers forward together.
+  const advance = async (ms: number) => {
+    for (let elapsed = 0; elapsed < ms; elapsed += 10) {
+      now += 10;
+      await jest.advanceTimersByTimeAsync(10);
+    }
+  };
+
+  const start = (ms: number) => {
+    let result: boolean | undefined;
+    void waitPlayback(ms, () => clock).then((value) => {
+      result = value;
+    });
+    return () => result;
+  };
+
+  test('waits the given time at normal speed', async () => {
+    const result = start(1000);
+    await advance(950);
+    expect(result()).toBeUndefined();
+    await advance(100);
+    expect(result()).toBe(true);
+  });
+
+  test('scales the wait by the playback speed', async () => {
+    clock.speed = 2;
+    const result = start(1000);
+    await advance(450);
+    expect(result()).toBeUndefined();
+    await advance(100);
+    expect(result()).toBe(true);
+  });
+
+  test('freezes while paused', async () => {
+    const result = start(1000);
+    await advance(500);
+    clock.isPaused = true;
+    await advance(5000);
+    expect(result()).toBeUndefined();
+    clock.isPaused = false;
+    await advance(450);
+    expect(result()).toBeUndefined();
+    await advance(100);
+    expect(result()).toBe(true);
+  });
+
+  test('resolves false once cancelled', async () => {
+    const result = start(1000);
+    await advance(200);
+    clock.isCancelled = true;
+    await advance(100);
+    expect(result()).toBe(false);
+  });
+});
@@ -0,0 +1,100 @@
+import { renderHook } from '@testing-library/react';
+
+import { ClickSequence, Slide } from '../types';
+import { INITIAL_TRANSFORM } from '../utils/sequence';
+import { DEFAULT_STEP_TIMING } from '../utils/timing';
+import {
+  isProjectStoreAvailable,
+  saveStoredProject,
+} from '../utils/projectStore';
+import { useAutosave } from '../hooks/useAutosave';
+
+jest.mock('../utils/projectStore');
+
+const slides: Slide[] = [
+  {
+    id: 1,
+    mediaUrl: null,
+    mediaType: null,
+    transform: INITIAL_TRANSFORM,
+    spotlight: null,
+    notes: '',
+    annotations: [],
+    visibleAnnotationIds: [],
+    video: null,
+  },
+];
+
+const sequence = (stepCount: number): ClickSequence[] => [
+  {
+    id: 'main',
+    name: 'Main',
+    steps: Array.from({ length: stepCount }, (_, index) => ({
+      id: index + 1,
+      slideIndex: 0,
+      x: 0.5,
+      y: 0.5,
+      toolState: {
+        transform: INITIAL_TRANSFORM,
+        spotlight: null,
+        annotationIds: [],
+        video: null,
+      },
+      timing: DEFAULT_STEP_TIMING,
+      notes: '',
+      path: [],
+      videoAction: null,
+    })),
+  },
+];
+
+const setup = (sequences: ClickSequence[], enabled = true) =>
+  renderHook(
+    ({ name, current }) =>
+      useAutosave('project-1', name, slides, current, 'main', enabled),
+    { initialProps: { name: 'Demo', current: sequences } }
+  );
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  jest.mocked(isProjectStoreAvailable).mockReturnValue(true);
+  jest.mocked(saveStoredProject).mockResolvedValue(undefined);
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.resetAllMocks();
+});
+
+test('saves once the project has been left alone for a second', () => {
+  const hook = setup(sequence(1));
+  jest.advanceTimersByTime(600);
+  const edited = sequence(2);
+  hook.rerender({ name: 'Demo', current: edited });
+  jest.advanceTimersByTime(600);
+  expect(saveStoredProject).not.toHaveBeenCalled();
+
+  jest.advanceTimersByTime(400);
+  expect(saveStoredProject).toHaveBeenCalledTimes(1);
+  expect(saveStoredProject).toHaveBeenCalledWith(
+    'project-1',
+    'Demo',
+    slides,
+    edited,
+    'main'
+  );
+});
+
+test('skips blank and disabled projects', () => {
+  setup(sequence(0));
+  setup(sequence(1), false);
+  jest.advanceTimersByTime(5000);
+  expect(saveStoredProject).not.toHaveBeenCalled();
+});
+
+test('skips saving without IndexedDB', () => {
+  jest.mocked(isProjectStoreAvailable).mockReturnValue(false);
+  setup(sequence(1));
+  jest.advanceTimersByTime(5000);
+  expect(saveStoredProject).not.toHaveBeenCalled();
+});
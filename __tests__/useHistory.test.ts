@@ -0,0 +1,68 @@
+import { act, renderHook } from '@testing-library/react';
+
+import { useHistory } from '../hooks/useHistory';
+
+const setup = () => {
+  let value = 0;
+  const restore = jest.fn((snapshot: number) => {
+    value = snapshot;
+  });
+  const hook = renderHook(() => useHistory(value, restore));
+  const change = (next: number, coalesceKey?: string) => {
+    act(() => hook.result.current.record(coalesceKey));
+    value = next;
+    hook.rerender();
+  };
+  return { hook, change, getValue: () => value };
+};
+
+test('undo and redo walk through recorded snapshots', () => {
+  const { hook, change, getValue } = setup();
+  change(1);
+  change(2);
+
+  act(() => hook.result.current.undo());
+  hook.rerender();
+  expect(getValue()).toBe(1);
+
+  act(() => hook.result.current.undo());
+  hook.rerender();
+  expect(getValue()).toBe(0);
+  expect(hook.result.current.canUndo).toBe(false);
+
+  act(() => hook.result.current.redo());
+  hook.rerender();
+  expect(getValue()).toBe(1);
+  expect(hook.result.current.canRedo).toBe(true);
+});
+
+test('a new change discards the redo stack', () => {
+  const { hook, change } = setup();
+  change(1);
+  act(() => hook.result.current.undo());
+  hook.rerender();
+  change(5);
+  expect(hook.result.current.canRedo).toBe(false);
+});
+
+test('rapid changes with the same key are undone together', () => {
+  const { hook, change, getValue } = setup();
+  change(1, 'drag');
+  change(2, 'drag');
+  change(3, 'drag');
+
+  act(() => hook.result.current.undo());
+  hook.rerender();
+  expect(getValue()).toBe(0);
+});
+
+test('a sealed change is never merged with the next one', () => {
+  const { hook, change, getValue } = setup();
+  change(1, 'slide-0');
+  act(() => hook.result.current.seal());
+  change(2, 'slide-0');
+
+  act(() => hook.result.current.undo());
+  hook.rerender();
+  expect(getValue()).toBe(1);
+});
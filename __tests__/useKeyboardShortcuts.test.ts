@@ -0,0 +1,47 @@
+import { renderHook } from '@testing-library/react';
+
+import { useKeyboardShortcuts } from '../hooks/useKeyboardShortcuts';
+import { DEFAULT_SHORTCUT_SETTINGS, getKeyBindings } from '../utils/shortcuts';
+
+const bindings = getKeyBindings(DEFAULT_SHORTCUT_SETTINGS);
+
+const pressSpace = (target: EventTarget = document.body) =>
+  target.dispatchEvent(
+    new KeyboardEvent('keydown', {
+      key: ' ',
+      code: 'Space',
+      bubbles: true,
+      cancelable: true,
+    })
+  );
+
+describe('useKeyboardShortcuts', () => {
+  test('runs the command bound to the key', () => {
+    const run = jest.fn();
+    renderHook(() => useKeyboardShortcuts(bindings, { 'step.next': { run } }));
+    pressSpace();
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  test('leaves keys a focused element has handled alone', () => {
+    const run = jest.fn();
+    renderHook(() => useKeyboardShortcuts(bindings, { 'step.next': { run } }));
+    const canvas = document.body.appendChild(document.createElement('div'));
+    canvas.addEventListener('keydown', (event) => event.preventDefault());
+
+    pressSpace(canvas);
+    expect(run).not.toHaveBeenCalled();
+    canvas.remove();
+  });
+
+  test('ignores disabled commands', () => {
+    const run = jest.fn();
+    renderHook(() =>
+      useKeyboardShortcuts(bindings, {
+        'step.next': { run, isDisabled: true },
+      })
+    );
+    pressSpace();
+    expect(run).not.toHaveBeenCalled();
+  });
+});
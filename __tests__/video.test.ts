@@ -0,0 +1,71 @@
+import {
+  applyVideoPlayback,
+  describeVideoAction,
+  formatVideoTime,
+} from '../utils/video';
+
+const fakeVideo = (state: Partial<HTMLVideoElement>) => {
+  const video = {
+    currentTime: 0,
+    paused: true,
+    muted: false,
+    playbackRate: 1,
+    play: jest.fn(() => {
+      video.paused = false;
+      return Promise.resolve();
+    }),
+    pause: jest.fn(() => {
+      video.paused = true;
+    }),
+    ...state,
+  };
+  return video;
+};
+
+describe('formatVideoTime', () => {
+  test('formats minutes and seconds', () => {
+    expect(formatVideoTime(42.9)).toBe('0:42');
+    expect(formatVideoTime(605)).toBe('10:05');
+    expect(formatVideoTime(3725)).toBe('1:02:05');
+  });
+});
+
+describe('applyVideoPlayback', () => {
+  test('seeks, mutes and plays to match', () => {
+    const video = fakeVideo({ currentTime: 3 });
+    applyVideoPlayback(video as unknown as HTMLVideoElement, {
+      time: 42,
+      isPlaying: true,
+      isMuted: true,
+      rate: 1.5,
+    });
+    expect(video).toMatchObject({
+      currentTime: 42,
+      paused: false,
+      muted: true,
+      playbackRate: 1.5,
+    });
+  });
+
+  test('leaves a video that is nearly in place alone', () => {
+    const video = fakeVideo({ currentTime: 42.2, paused: false });
+    applyVideoPlayback(video as unknown as HTMLVideoElement, {
+      time: 42,
+      isPlaying: true,
+      isMuted: false,
+      rate: 1,
+    });
+    expect(video.currentTime).toBe(42.2);
+    expect(video.play).not.toHaveBeenCalled();
+    expect(video.pause).not.toHaveBeenCalled();
+  });
+});
+
+describe('describeVideoAction', () => {
+  test('names the action and where it happened', () => {
+    const playback = { time: 42, isPlaying: true, isMuted: false, rate: 2 };
+    expect(describeVideoAction('play', playback)).toBe('Play video at 0:42');
+    expect(describeVideoAction('seek', playback)).toBe('Seek video to 0:42');
+    expect(describeVideoAction('rate', playback)).toBe('Video speed 2×');
+  });
+});
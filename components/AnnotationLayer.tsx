@@ -0,0 +1,580 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+import {
+  Annotation,
+  CanvasTransform,
+  InkAnnotation,
+  ShapeAnnotation,
+  ShapeAnnotationKind,
+  TextAnnotation,
+} from '../types';
+import {
+  AnnotationStyle,
+  createAnnotationId,
+  createShapeAnnotation,
+  getAnnotationFontSize,
+  getAnnotationStrokeWidth,
+  getArrowheadCorners,
+  moveAnnotation,
+  moveShapeHandle,
+} from '../utils/annotations';
+import {
+  ContentBox,
+  Point,
+  Size,
+  contentToScreen,
+  screenToContent,
+} from '../utils/coordinates';
+import { getPartialStroke } from '../utils/ink';
+import { TweenOptions } from '../hooks/useTween';
+import { useInkReveal } from '../hooks/useInkReveal';
+
+import { InkPath } from './InkLayer';
+
+interface AnnotationLayerProps {
+  annotations: Annotation[];
+  visibleIds: number[];
+  transform: CanvasTransform;
+  contentBox: ContentBox;
+  viewport: Size;
+  // Editing shows hidden annotations faintly and enables placing, selecting,
+  // moving and deleting.
+  isEditing: boolean;
+  style: AnnotationStyle;
+  // Set while replaying a step; ink it reveals is redrawn over its duration.
+  animation: TweenOptions | null;
+  onChange: (annotations: Annotation[], visibleIds: number[]) => void;
+  // Called with the point an annotation draws attention to once it's placed.
+  onPlace: (anchor: Point, visibleIds: number[]) => void;
+}
+
+type PlacedAnnotation = ShapeAnnotation | TextAnnotation;
+
+type Drag =
+  | { mode: 'create'; start: Point; current: Point }
+  | { mode: 'move'; id: number; start: Point; current: Point }
+  | { mode: 'handle'; id: number; handle: 'start' | 'end'; current: Point };
+
+const DRAG_THRESHOLD = 10; // pixels
+const HIDDEN_OPACITY = 0.35;
+
+// Where a placed annotation points: the arrowhead, or the middle of a shape.
+const getAnchor = (annotation: PlacedAnnotation): Point =>
+  annotation.kind === 'text'
+    ? { x: annotation.x, y: annotation.y }
+    : annotation.kind === 'arrow'
+      ? {
+          x: annotation.x + annotation.width,
+          y: annotation.y + annotation.height,
+        }
+      : {
+          x: annotation.x + annotation.width / 2,
+          y: annotation.y + annotation.height / 2,
+        };
+
+export const AnnotationLayer: React.FC<AnnotationLayerProps> = ({
+  annotations,
+  visibleIds,
+  transform,
+  contentBox,
+  viewport,
+  isEditing,
+  style,
+  animation,
+  onChange,
+  onPlace,
+}) => {
+  const [drag, setDrag] = useState<Drag | null>(null);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [editingText, setEditingText] = useState<{
+    annotation: TextAnnotation;
+    isNew: boolean;
+  } | null>(null);
+  const layerRef = useRef<HTMLDivElement>(null);
+  const textInputRef = useRef<HTMLInputElement | null>(null);
+  const revealing = useInkReveal(annotations, visibleIds, animation);
+
+  // Editing can be switched off mid-drag (by a pinch on the canvas).
+  if (!isEditing && drag) setDrag(null);
+
+  const selection = isEditing ? selectedId : null;
+  const visible = new Set(visibleIds);
+  const pixelsPerUnit = contentBox.width * transform.scale;
+  const strokeWidth = getAnnotationStrokeWidth(pixelsPerUnit);
+  const fontSize = getAnnotationFontSize(pixelsPerUnit);
+
+  const toScreen = (point: Point) =>
+    contentToScreen(point, transform, contentBox, viewport);
+
+  const getPointer = (e: React.PointerEvent): Point => {
+    const rect = layerRef.current?.getBoundingClientRect();
+    return screenToContent(
+      { x: e.clientX - (rect?.left ?? 0), y: e.clientY - (rect?.top ?? 0) },
+      transform,
+      contentBox,
+      viewport
+    );
+  };
+
+  const applyDrag = (annotation: Annotation, active: Drag): Annotation => {
+    if (annotation.kind === 'ink') return annotation;
+    if (active.mode === 'move' && active.id === annotation.id) {
+      return moveAnnotation(
+        annotation,
+        active.current.x - active.start.x,
+        active.current.y - active.start.y
+      );
+    }
+    if (
+      active.mode === 'handle' &&
+      active.id === annotation.id &&
+      annotation.kind !== 'text'
+    ) {
+      return moveShapeHandle(annotation, active.handle, active.current);
+    }
+    return annotation;
+  };
+
+  const draftShape =
+    drag?.mode === 'create' && style.kind !== 'text'
+      ? createShapeAnnotation(
+          style.kind as ShapeAnnotationKind,
+          style.color,
+          drag.start,
+          drag.current
+        )
+      : null;
+  const rendered = [
+    ...(drag ? annotations.map((a) => applyDrag(a, drag)) : annotations),
+    ...(draftShape ? [draftShape] : []),
+  ];
+
+  const deleteAnnotation = (id: number) => {
+    onChange(
+      annotations.filter((annotation) => annotation.id !== id),
+      visibleIds.filter((visibleId) => visibleId !== id)
+    );
+    setSelectedId(null);
+  };
+
+  const toggleVisibility = (id: number) => {
+    onChange(
+      annotations,
+      visible.has(id)
+        ? visibleIds.filter((visibleId) => visibleId !== id)
+        : [...visibleIds, id]
+    );
+  };
+
+  useEffect(() => {
+    if (selection === null || editingText) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const tag = (event.target as HTMLElement).tagName.toLowerCase();
+      if (tag === 'input' || tag === 'textarea') return;
+      if (event.key === 'Delete' || event.key === 'Backspace') {
+        event.preventDefault();
+        onChange(
+          annotations.filter((annotation) => annotation.id !== selection),
+          visibleIds.filter((visibleId) => visibleId !== selection)
+        );
+        setSelectedId(null);
+      } else if (event.key === 'Escape') {
+        setSelectedId(null);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [selection, editingText, annotations, visibleIds, onChange]);
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (!isEditing || e.button !== 0) return;
+    // Let the selection toolbar's buttons receive their clicks.
+    if ((e.target as HTMLElement).closest('button')) return;
+    e.stopPropagation();
+    e.preventDefault();
+    const point = getPointer(e);
+    setSelectedId(null);
+    if (editingText) {
+      // preventDefault above keeps the editor from blurring, so commit here.
+      commitText();
+      return;
+    }
+    if (style.kind === 'text') {
+      setEditingText({
+        annotation: {
+          id: createAnnotationId(),
+          kind: 'text',
+          color: style.color,
+          x: point.x,
+          y: point.y,
+          text: '',
+        },
+        isNew: true,
+      });
+      return;
+    }
+    setDrag({ mode: 'create', start: point, current: point });
+  };
+
+  const startMove = (e: React.PointerEvent, annotation: PlacedAnnotation) => {
+    if (!isEditing || e.button !== 0) return;
+    e.stopPropagation();
+    e.preventDefault();
+    const point = getPointer(e);
+    setSelectedId(annotation.id);
+    setDrag({ mode: 'move', id: annotation.id, start: point, current: point });
+  };
+
+  const startHandleDrag = (
+    e: React.PointerEvent,
+    shape: ShapeAnnotation,
+    handle: 'start' | 'end'
+  ) => {
+    e.stopPropagation();
+    e.preventDefault();
+    setDrag({ mode: 'handle', id: shape.id, handle, current: getPointer(e) });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag) return;
+    e.stopPropagation();
+    const current = getPointer(e);
+    setDrag({ ...drag, current });
+  };
+
+  const finishDrag = () => {
+    if (!drag) return;
+    setDrag(null);
+    if (drag.mode === 'create') {
+      if (!draftShape) return;
+      const start = toScreen(drag.start);
+      const end = toScreen(drag.current);
+      if (Math.hypot(end.x - start.x, end.y - start.y) < DRAG_THRESHOLD) {
+        return;
+      }
+      const nextVisibleIds = [...visibleIds, draftShape.id];
+      onChange([...annotations, draftShape], nextVisibleIds);
+      setSelectedId(draftShape.id);
+      onPlace(getAnchor(draftShape), nextVisibleIds);
+      return;
+    }
+    const start = drag.mode === 'move' ? drag.start : null;
+    if (start && start.x === drag.current.x && start.y === drag.current.y) {
+      return;
+    }
+    onChange(
+      annotations.map((annotation) => applyDrag(annotation, drag)),
+      visibleIds
+    );
+  };
+
+  const commitText = () => {
+    const input = textInputRef.current;
+    if (!editingText || !input) return;
+    // Enter and the blur that follows must not commit twice.
+    textInputRef.current = null;
+    const { annotation, isNew } = editingText;
+    setEditingText(null);
+    const trimmed = input.value.trim();
+    if (isNew) {
+      if (!trimmed) return;
+      const nextVisibleIds = [...visibleIds, annotation.id];
+      onChange(
+        [...annotations, { ...annotation, text: trimmed }],
+        nextVisibleIds
+      );
+      setSelectedId(annotation.id);
+      onPlace(getAnchor(annotation), nextVisibleIds);
+    } else if (!trimmed) {
+      deleteAnnotation(annotation.id);
+    } else if (trimmed !== annotation.text) {
+      onChange(
+        annotations.map((a) =>
+          a.id === annotation.id ? { ...annotation, text: trimmed } : a
+        ),
+        visibleIds
+      );
+    }
+  };
+
+  const isShown = (annotation: Annotation) =>
+    visible.has(annotation.id) || annotation === draftShape;
+
+  const renderInk = (stroke: InkAnnotation) => {
+    const elapsedMs = revealing.get(stroke.id);
+    const points =
+      elapsedMs === undefined
+        ? stroke.points
+        : getPartialStroke(stroke.points, elapsedMs);
+    if (points.length === 0) return null;
+    return (
+      <InkPath
+        stroke={stroke}
+        points={points}
+        toScreen={toScreen}
+        pixelsPerUnit={pixelsPerUnit}
+      />
+    );
+  };
+
+  const renderShape = (shape: ShapeAnnotation) => {
+    const start = toScreen({ x: shape.x, y: shape.y });
+    const end = toScreen({
+      x: shape.x + shape.width,
+      y: shape.y + shape.height,
+    });
+    const paint = {
+      stroke: shape.color,
+      strokeWidth,
+      fill: 'none',
+      strokeLinecap: 'round' as const,
+    };
+    const hitArea = {
+      stroke: 'transparent',
+      strokeWidth: strokeWidth + 12,
+      fill: 'none',
+    };
+    switch (shape.kind) {
+      case 'rect': {
+        const box = {
+          x: Math.min(start.x, end.x),
+          y: Math.min(start.y, end.y),
+          width: Math.abs(end.x - start.x),
+          height: Math.abs(end.y - start.y),
+        };
+        return (
+          <>
+            <rect {...box} {...hitArea} />
+            <rect {...box} {...paint} rx={strokeWidth} />
+          </>
+        );
+      }
+      case 'ellipse': {
+        const ellipse = {
+          cx: (start.x + end.x) / 2,
+          cy: (start.y + end.y) / 2,
+          rx: Math.abs(end.x - start.x) / 2,
+          ry: Math.abs(end.y - start.y) / 2,
+        };
+        return (
+          <>
+            <ellipse {...ellipse} {...hitArea} />
+            <ellipse {...ellipse} {...paint} />
+          </>
+        );
+      }
+      case 'arrow': {
+        const head = getArrowheadCorners(start, end, strokeWidth)
+          .map((corner) => `${corner.x},${corner.y}`)
+          .join(' ');
+        return (
+          <>
+            <line
+              x1={start.x}
+              y1={start.y}
+              x2={end.x}
+              y2={end.y}
+              {...hitArea}
+            />
+            <line x1={start.x} y1={start.y} x2={end.x} y2={end.y} {...paint} />
+            <polygon
+              points={`${end.x},${end.y} ${head}`}
+              fill={shape.color}
+              stroke={shape.color}
+              strokeWidth={strokeWidth}
+              strokeLinejoin="round"
+            />
+          </>
+        );
+      }
+    }
+  };
+
+  const selected = rendered.find(
+    (annotation): annotation is PlacedAnnotation =>
+      annotation.id === selection && annotation.kind !== 'ink'
+  );
+  const selectedTop = selected
+    ? toScreen(
+        selected.kind === 'text'
+          ? selected
+          : {
+              x: Math.min(selected.x, selected.x + selected.width),
+              y: Math.min(selected.y, selected.y + selected.height),
+            }
+      )
+    : null;
+
+  return (
+    <div
+      ref={layerRef}
+      role="button"
+      aria-label="Annotations"
+      tabIndex={-1}
+      className={`absolute inset-0 z-20 ${isEditing ? 'cursor-crosshair' : 'pointer-events-none'}`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={finishDrag}
+      onPointerCancel={finishDrag}
+      onPointerLeave={finishDrag}
+      onKeyDown={(e) => {
+        if (e.key === 'Escape') {
+          setDrag(null);
+          setSelectedId(null);
+        }
+      }}
+    >
+      <svg className="absolute inset-0 w-full h-full overflow-visible pointer-events-none">
+        {rendered.map((annotation) => {
+          if (annotation.kind === 'text') return null;
+          const shown = isShown(annotation);
+          if (!shown && !isEditing) return null;
+          if (annotation.kind === 'ink') {
+            // Ink belongs to the ink tool: shown here, but not selectable.
+            return (
+              <g key={annotation.id} opacity={shown ? 1 : HIDDEN_OPACITY}>
+                {renderInk(annotation)}
+              </g>
+            );
+          }
+          return (
+            <g
+              key={annotation.id}
+              role="button"
+              tabIndex={-1}
+              aria-label={`${annotation.kind} annotation`}
+              opacity={shown ? 1 : HIDDEN_OPACITY}
+              className={isEditing ? 'pointer-events-auto cursor-move' : ''}
+              onPointerDown={(e) => startMove(e, annotation)}
+            >
+              {renderShape(annotation)}
+            </g>
+          );
+        })}
+        {selected && selected.kind !== 'text' && (
+          <>
+            {(['start', 'end'] as const).map((handle) => {
+              const point = toScreen(
+                handle === 'start'
+                  ? selected
+                  : {
+                      x: selected.x + selected.width,
+                      y: selected.y + selected.height,
+                    }
+              );
+              return (
+                <circle
+                  key={handle}
+                  role="button"
+                  tabIndex={-1}
+                  aria-label={`Drag ${handle} point`}
+                  cx={point.x}
+                  cy={point.y}
+                  r={6}
+                  fill="white"
+                  stroke="#06b6d4"
+                  strokeWidth={2}
+                  className="pointer-events-auto cursor-grab"
+                  onPointerDown={(e) => startHandleDrag(e, selected, handle)}
+                />
+              );
+            })}
+          </>
+        )}
+      </svg>
+
+      {rendered.map((annotation) => {
+        if (annotation.kind !== 'text') return null;
+        if (editingText?.annotation.id === annotation.id) return null;
+        const shown = isShown(annotation);
+        if (!shown && !isEditing) return null;
+        const position = toScreen(annotation);
+        return (
+          <div
+            key={annotation.id}
+            role="button"
+            tabIndex={-1}
+            className={`absolute whitespace-pre rounded font-semibold shadow-lg ${
+              isEditing ? 'cursor-move' : ''
+            } ${selection === annotation.id ? 'ring-2 ring-cyan-400' : ''}`}
+            style={{
+              left: position.x,
+              top: position.y,
+              fontSize,
+              padding: '0.25em 0.5em',
+              background: annotation.color,
+              color: '#111827',
+              opacity: shown ? 1 : HIDDEN_OPACITY,
+            }}
+            onPointerDown={(e) => startMove(e, annotation)}
+            onDoubleClick={(e) => {
+              if (!isEditing) return;
+              e.stopPropagation();
+              setEditingText({ annotation, isNew: false });
+            }}
+          >
+            {annotation.text}
+          </div>
+        );
+      })}
+
+      {editingText && isEditing && (
+        <input
+          // Focus follows the new callout so typing can start right away.
+          // eslint-disable-next-line jsx-a11y/no-autofocus
+          autoFocus
+          ref={textInputRef}
+          defaultValue={editingText.annotation.text}
+          aria-label="Annotation text"
+          className="absolute rounded font-semibold shadow-lg outline-none ring-2 ring-cyan-400"
+          style={{
+            left: toScreen(editingText.annotation).x,
+            top: toScreen(editingText.annotation).y,
+            fontSize,
+            padding: '0.25em 0.5em',
+            background: editingText.annotation.color,
+            color: '#111827',
+          }}
+          onPointerDown={(e) => e.stopPropagation()}
+          onKeyDown={(e) => {
+            e.stopPropagation();
+            if (e.key === 'Enter') commitText();
+            if (e.key === 'Escape') setEditingText(null);
+          }}
+          onBlur={commitText}
+        />
+      )}
+
+      {selected && selectedTop && !drag && !editingText && (
+        <div
+          className="absolute flex gap-1 p-1 rounded-lg bg-gray-800 border border-gray-600 shadow-xl text-xs text-white"
+          style={{ left: selectedTop.x, top: Math.max(0, selectedTop.y - 40) }}
+        >
+          {selected.kind === 'text' && (
+            <button
+              onClick={() =>
+                setEditingText({ annotation: selected, isNew: false })
+              }
+              className="px-2 py-1 rounded bg-gray-700 hover:bg-gray-600"
+            >
+              Edit
+            </button>
+          )}
+          <button
+            onClick={() => toggleVisibility(selected.id)}
+            className="px-2 py-1 rounded bg-gray-700 hover:bg-gray-600"
+            title="Hidden annotations only appear in replay once a step shows them"
+          >
+            {visible.has(selected.id) ? 'Hide' : 'Show'}
+          </button>
+          <button
+            onClick={() => deleteAnnotation(selected.id)}
+            className="px-2 py-1 rounded bg-gray-700 hover:bg-red-600"
+          >
+            Delete
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
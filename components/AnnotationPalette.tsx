@@ -0,0 +1,57 @@
+import React from 'react';
+
+import { AnnotationKind } from '../types';
+import {
+  ANNOTATION_COLORS,
+  ANNOTATION_KIND_LABELS,
+  AnnotationStyle,
+} from '../utils/annotations';
+
+interface AnnotationPaletteProps {
+  style: AnnotationStyle;
+  onChange: (style: AnnotationStyle) => void;
+}
+
+/** Shape and color choices for the annotation tool. */
+export const AnnotationPalette: React.FC<AnnotationPaletteProps> = ({
+  style,
+  onChange,
+}) => (
+  <div
+    role="toolbar"
+    aria-label="Annotation style"
+    className="fixed top-4 sm:top-[104px] left-1/2 -translate-x-1/2 z-50 flex items-center gap-3 p-2 bg-gray-800 bg-opacity-90 backdrop-blur-sm rounded-xl shadow-2xl border border-gray-700 text-white text-sm"
+  >
+    <div className="flex gap-1">
+      {(Object.keys(ANNOTATION_KIND_LABELS) as AnnotationKind[]).map((kind) => (
+        <button
+          key={kind}
+          onClick={() => onChange({ ...style, kind })}
+          aria-pressed={style.kind === kind}
+          className={`px-3 py-1 rounded-md transition-colors ${
+            style.kind === kind
+              ? 'bg-cyan-500 text-white'
+              : 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+          }`}
+        >
+          {ANNOTATION_KIND_LABELS[kind]}
+        </button>
+      ))}
+    </div>
+    <div className="w-px h-6 bg-gray-600"></div>
+    <div className="flex gap-1">
+      {ANNOTATION_COLORS.map((color) => (
+        <button
+          key={color}
+          onClick={() => onChange({ ...style, color })}
+          aria-label={`Color ${color}`}
+          aria-pressed={style.color === color}
+          className={`w-6 h-6 rounded-full border-2 ${
+            style.color === color ? 'border-white' : 'border-transparent'
+          }`}
+          style={{ background: color }}
+        />
+      ))}
+    </div>
+  </div>
+);
@@ -0,0 +1,88 @@
+import React, { useEffect, useState } from 'react';
+
+import { Tool } from '../types';
+import {
+  AudienceFrame,
+  isPresenterChannelAvailable,
+  openPresenterChannel,
+} from '../utils/presenterChannel';
+import { DEFAULT_ANNOTATION_STYLE } from '../utils/annotations';
+import { DEFAULT_INK_STYLE } from '../utils/ink';
+import { DEFAULT_SPOTLIGHT_STYLE } from '../utils/spotlight';
+
+import { Canvas } from './Canvas';
+
+const noop = () => undefined;
+
+/**
+ * The projector-facing window: just the canvas, kept in sync with the
+ * presenter over the presenter channel.
+ */
+export const AudienceView: React.FC = () => {
+  const [frame, setFrame] = useState<AudienceFrame | null>(null);
+  const [hasEnded, setHasEnded] = useState(false);
+
+  useEffect(() => {
+    if (!isPresenterChannelAvailable()) return;
+    const channel = openPresenterChannel((message) => {
+      if (message.type === 'frame') {
+        setFrame(message.frame);
+        setHasEnded(false);
+      } else if (message.type === 'end') {
+        setHasEnded(true);
+        // Only works for windows opened by script, which this one normally is.
+        window.close();
+      }
+    });
+    channel.post({ type: 'request-frame' });
+    return () => channel.close();
+  }, []);
+
+  const message = !isPresenterChannelAvailable()
+    ? 'This browser cannot sync presentation windows.'
+    : hasEnded
+      ? 'The presentation has ended.'
+      : 'Waiting for the presenter…';
+
+  return (
+    <div className="relative h-screen w-screen bg-gray-900 overflow-hidden">
+      {frame && !hasEnded ? (
+        <Canvas
+          mediaUrl={frame.mediaUrl}
+          mediaType={frame.mediaType}
+          transform={frame.transform}
+          spotlight={frame.spotlight}
+          annotations={frame.annotations}
+          visibleAnnotationIds={frame.visibleAnnotationIds}
+          video={frame.video}
+          annotationStyle={DEFAULT_ANNOTATION_STYLE}
+          inkStyle={DEFAULT_INK_STYLE}
+          spotlightStyle={DEFAULT_SPOTLIGHT_STYLE}
+          activeTool={Tool.NONE}
+          isCapturing={false}
+          isPlaying={true}
+          replayCursor={frame.replayCursor}
+          animation={frame.animation}
+          onTransformChange={noop}
+          onSpotlightChange={noop}
+          onAnnotationsChange={noop}
+          onRecordClick={noop}
+          onVideoAction={noop}
+          onPointerMove={noop}
+          onFiles={noop}
+        />
+      ) : (
+        <div className="w-full h-full flex items-center justify-center text-gray-500 text-xl font-semibold">
+          {message}
+        </div>
+      )}
+      {frame?.isBlanked && !hasEnded && (
+        <div
+          role="img"
+          aria-label="Blank screen"
+          className="absolute inset-0 z-10 bg-black"
+        />
+      )}
+    </div>
+  );
+};
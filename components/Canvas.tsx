@@ -1,192 +1,758 @@
-import React, { useRef, useState, useCallback, useEffect } from 'react';
+import React, {
+  useRef,
+  useState,
+  useCallback,
+  useEffect,
+  useMemo,
+  useId,
+} from 'react';
 
-import { Tool, CanvasTransform, SpotlightState } from '../types';
+import {
+  Tool,
+  Annotation,
+  CanvasTransform,
+  InkAnnotation,
+  SpotlightState,
+  ReplayCursorState,
+  StepTiming,
+  ToolState,
+  VideoAction,
+  VideoPlayback,
+} from '../types';
+import { TweenOptions, useTween } from '../hooks/useTween';
+import { useElementSize } from '../hooks/useElementSize';
+import {
+  SpotlightRegionShape,
+  interpolateSpotlight,
+  interpolateTransform,
+  spotlightToShape,
+  transformSpotlightShape,
+} from '../utils/animation';
+import {
+  Point,
+  Size,
+  centerOnContentPoint,
+  clampTransform,
+  contentToScreen,
+  fitContentRect,
+  getContentBox,
+  getPixelTranslation,
+  screenToContent,
+  spotlightToLayout,
+  zoomAtScreenPoint,
+} from '../utils/coordinates';
+import { AnnotationStyle } from '../utils/annotations';
+import { InkStyle, getStrokeDuration } from '../utils/ink';
+import { SpotlightStyle } from '../utils/spotlight';
+import {
+  SEEK_TOLERANCE,
+  applyVideoPlayback,
+  isSamePlayback,
+  readVideoPlayback,
+} from '../utils/video';
 
 import { UploadIcon } from './icons';
+import { ReplayCursor } from './ReplayCursor';
+import { AnnotationLayer } from './AnnotationLayer';
+import { InkLayer } from './InkLayer';
+import { LaserPointer } from './LaserPointer';
+import { SpotlightEditor } from './SpotlightEditor';
 
 interface CanvasProps {
   mediaUrl: string | null;
   mediaType: 'image' | 'video' | null;
   transform: CanvasTransform;
   spotlight: SpotlightState | null;
+  annotations: Annotation[];
+  visibleAnnotationIds: number[];
+  // Playback to bring the video to whenever it changes (see Slide.video).
+  video: VideoPlayback | null;
+  annotationStyle: AnnotationStyle;
+  inkStyle: InkStyle;
+  spotlightStyle: SpotlightStyle;
   activeTool: Tool;
   isCapturing: boolean;
   isPlaying: boolean;
-  replayCursorPos: { x: number; y: number } | null;
+  // Positions and spotlight geometry are in content space (utils/coordinates).
+  replayCursor: Omit<ReplayCursorState, 'slideIndex'> | null;
+  // How replayed steps animate; direct edits use the defaults below.
+  animation?: TweenOptions | null;
   onTransformChange: (transform: CanvasTransform) => void;
   onSpotlightChange: (spotlight: SpotlightState | null) => void;
+  onAnnotationsChange: (
+    annotations: Annotation[],
+    visibleAnnotationIds: number[]
+  ) => void;
+  // `timing` overrides the default timing of the recorded step.
   onRecordClick: (
     x: number,
     y: number,
-    transform: CanvasTransform,
-    spotlight: SpotlightState | null
+    toolState: ToolState,
+    timing?: Partial<StepTiming>
+  ) => void;
+  // Records use of the video's own controls while capturing.
+  onVideoAction: (
+    x: number,
+    y: number,
+    toolState: ToolState,
+    action: VideoAction
   ) => void;
-  onFile: (file: File) => void;
+  // Reports pointer movement (in content space) while capturing.
+  onPointerMove: (point: Point) => void;
+  onFiles: (files: File[]) => void;
 }
 
 const INITIAL_TRANSFORM: CanvasTransform = { scale: 1, x: 0, y: 0 };
-const CIRCLE_RADIUS = 60;
 const ZOOM_FACTOR = 1.5;
+const WHEEL_ZOOM_SPEED = 0.002; // scale change per wheel delta pixel
+const WHEEL_SETTLE_MS = 300; // a pause this long ends a wheel zoom
 const DRAG_THRESHOLD = 10; // pixels
+const DOUBLE_TAP_MS = 300;
+const DOUBLE_TAP_DISTANCE = 30; // pixels
+const PATH_SAMPLE_DISTANCE = 4; // pixels between reported pointer positions
+const SEEK_SETTLE_MS = 300; // scrubbing is recorded once it stops
+// Where video actions are recorded when the pointer position is unknown: on
+// the video's control bar.
+const VIDEO_CONTROLS_POINT: Point = { x: 0.5, y: 0.95 };
+const EDIT_TRANSFORM_ANIMATION: TweenOptions = {
+  durationMs: 300,
+  easing: 'easeOutCubic',
+};
+// Spotlights, pans and wheel zooms follow the pointer, so they don't animate.
+const FOLLOW_POINTER_ANIMATION: TweenOptions = {
+  durationMs: 0,
+  easing: 'linear',
+};
+
+// A pan/zoom drag: plain drags pan, Shift-drags pick an area to zoom to.
+interface ViewDrag {
+  mode: 'pan' | 'zoomRect';
+  start: Point;
+  current: Point;
+  startTransform: CanvasTransform;
+}
+
+// Two fingers on the canvas: their spread zooms and their midpoint pans.
+interface Pinch {
+  distance: number;
+  mid: Point;
+  startTransform: CanvasTransform;
+}
+
+interface Touch {
+  start: Point;
+  current: Point;
+}
+
+const getMidpoint = (a: Point, b: Point): Point => ({
+  x: (a.x + b.x) / 2,
+  y: (a.y + b.y) / 2,
+});
+
+const SpotlightHole: React.FC<{ region: SpotlightRegionShape }> = ({
+  region,
+}) =>
+  region.points ? (
+    <polygon
+      points={region.points.map((point) => `${point.x},${point.y}`).join(' ')}
+      fill="black"
+      fillOpacity={region.opacity}
+    />
+  ) : (
+    <rect
+      x={region.cx - region.width / 2}
+      y={region.cy - region.height / 2}
+      width={region.width}
+      height={region.height}
+      rx={region.rx}
+      ry={region.ry}
+      fill="black"
+      fillOpacity={region.opacity}
+    />
+  );
 
 export const Canvas: React.FC<CanvasProps> = ({
   mediaUrl,
   mediaType,
   transform,
   spotlight,
+  annotations,
+  visibleAnnotationIds,
+  video,
+  annotationStyle,
+  inkStyle,
+  spotlightStyle,
   activeTool,
   isCapturing,
   isPlaying,
-  replayCursorPos,
+  replayCursor,
+  animation = null,
   onTransformChange,
   onSpotlightChange,
+  onAnnotationsChange,
   onRecordClick,
-  onFile,
+  onVideoAction,
+  onPointerMove,
+  onFiles,
 }) => {
-  const [isDragging, setIsDragging] = useState(false);
-  const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
+  const [loadedMedia, setLoadedMedia] = useState<{
+    url: string;
+    size: Size;
+  } | null>(null);
+  const [viewDrag, setViewDrag] = useState<ViewDrag | null>(null);
+  const [isWheeling, setIsWheeling] = useState(false);
+  const [pinch, setPinch] = useState<Pinch | null>(null);
 
   const canvasRef = useRef<HTMLDivElement>(null);
   const imageRef = useRef<HTMLImageElement>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const lastPointerRef = useRef<Point | null>(null);
+  // Set when a drag ends so the click that follows it doesn't zoom.
+  const wasDraggedRef = useRef(false);
+  const wheelRef = useRef<{
+    transform: CanvasTransform;
+    point: Point;
+    timeout: ReturnType<typeof setTimeout>;
+  } | null>(null);
+  const wheelHandlerRef = useRef<(event: WheelEvent) => void>(() => {});
+  const touchesRef = useRef(new Map<number, Touch>());
+  const lastTapRef = useRef<{ time: number; point: Point } | null>(null);
+  // The playback the video should be in. Media events that leave it as is
+  // were caused by applying `video`, not by someone using the controls.
+  const expectedVideoRef = useRef<VideoPlayback | null>(null);
+  const pendingSeekRef = useRef<number | null>(null);
+  // Frames from the presenter window arrive as fresh copies of the same
+  // playback, which must not seek the video back each time.
+  const appliedVideoRef = useRef<{
+    url: string | null;
+    playback: VideoPlayback;
+  } | null>(null);
+  const seekTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Several canvases can be on screen (presenter view, step previews), so
+  // each one needs its own mask ids.
+  const maskId = `spotlight-mask-${useId().replace(/[^a-zA-Z0-9_-]/g, '')}`;
+  const featherId = `${maskId}-feather`;
+
+  const canvasSize = useElementSize(canvasRef);
+  const mediaSize =
+    mediaUrl && loadedMedia?.url === mediaUrl ? loadedMedia.size : null;
+  const contentBox = useMemo(
+    () => getContentBox(canvasSize, mediaSize),
+    [canvasSize, mediaSize]
+  );
+  const isMeasured = contentBox.width > 0 && contentBox.height > 0;
+
+  const displayedTransform = useTween(
+    transform,
+    interpolateTransform,
+    animation ??
+      (viewDrag?.mode === 'pan' || isWheeling || pinch
+        ? FOLLOW_POINTER_ANIMATION
+        : EDIT_TRANSFORM_ANIMATION)
+  );
+  // Spotlights tween in untransformed canvas pixels, then follow the camera.
+  const spotlightShape = useMemo(
+    () =>
+      spotlight
+        ? spotlightToShape(spotlightToLayout(spotlight, contentBox))
+        : null,
+    [spotlight, contentBox]
+  );
+  const tweenedSpotlight = useTween(
+    spotlightShape,
+    interpolateSpotlight,
+    animation ?? FOLLOW_POINTER_ANIMATION
+  );
+  const displayedSpotlight =
+    tweenedSpotlight &&
+    transformSpotlightShape(
+      tweenedSpotlight,
+      displayedTransform,
+      contentBox,
+      canvasSize
+    );
+  const pixelTranslation = getPixelTranslation(displayedTransform, contentBox);
+
+  const toContent = (point: Point) =>
+    screenToContent(point, transform, contentBox, canvasSize);
+  const cursorToScreen = (point: Point) =>
+    contentToScreen(point, displayedTransform, contentBox, canvasSize);
+
+  const getVideoPlayback = () =>
+    mediaType === 'video' && videoRef.current
+      ? readVideoPlayback(videoRef.current)
+      : null;
+
+  useEffect(() => {
+    const element = videoRef.current;
+    if (!element || !video) return;
+    const applied = appliedVideoRef.current;
+    if (applied?.url === mediaUrl && isSamePlayback(video, applied.playback)) {
+      return;
+    }
+    appliedVideoRef.current = { url: mediaUrl, playback: video };
+    expectedVideoRef.current = video;
+    pendingSeekRef.current =
+      Math.abs(element.currentTime - video.time) > SEEK_TOLERANCE
+        ? video.time
+        : null;
+    applyVideoPlayback(element, video);
+  }, [video, mediaUrl]);
+
+  useEffect(
+    () => () => {
+      if (seekTimeoutRef.current) clearTimeout(seekTimeoutRef.current);
+    },
+    []
+  );
+
+  const handleVideoChange = (action: VideoAction) => {
+    const element = videoRef.current;
+    if (!element) return;
+    const playback = readVideoPlayback(element);
+    expectedVideoRef.current = playback;
+    // The video has moved on, so applying the same playback again must act.
+    appliedVideoRef.current = null;
+    if (!isCapturing || isPlaying) return;
+    const point = lastPointerRef.current
+      ? toContent(lastPointerRef.current)
+      : VIDEO_CONTROLS_POINT;
+    onVideoAction(
+      point.x,
+      point.y,
+      {
+        transform,
+        spotlight,
+        annotationIds: visibleAnnotationIds,
+        video: playback,
+      },
+      action
+    );
+  };
+
+  const handleVideoPlayChange = (element: HTMLVideoElement) => {
+    // Reaching the end pauses the video without anyone asking for it.
+    if (element.ended) return;
+    if (expectedVideoRef.current?.isPlaying === !element.paused) return;
+    handleVideoChange(element.paused ? 'pause' : 'play');
+  };
+
+  // Volume changes are not steps; only muting and unmuting are.
+  const handleVideoVolumeChange = (element: HTMLVideoElement) => {
+    if (expectedVideoRef.current?.isMuted === element.muted) return;
+    handleVideoChange(element.muted ? 'mute' : 'unmute');
+  };
+
+  const handleVideoRateChange = (element: HTMLVideoElement) => {
+    if (expectedVideoRef.current?.rate === element.playbackRate) return;
+    handleVideoChange('rate');
+  };
+
+  const handleVideoSeeked = (element: HTMLVideoElement) => {
+    const pending = pendingSeekRef.current;
+    pendingSeekRef.current = null;
+    if (
+      pending !== null &&
+      Math.abs(element.currentTime - pending) <= SEEK_TOLERANCE
+    ) {
+      return;
+    }
+    if (seekTimeoutRef.current) clearTimeout(seekTimeoutRef.current);
+    seekTimeoutRef.current = setTimeout(() => {
+      seekTimeoutRef.current = null;
+      handleVideoChange('seek');
+    }, SEEK_SETTLE_MS);
+  };
 
   const resetView = useCallback(() => {
     onTransformChange(INITIAL_TRANSFORM);
     onSpotlightChange(null);
   }, [onTransformChange, onSpotlightChange]);
 
-  const getClickCoords = (e: React.MouseEvent<HTMLDivElement>) => {
+  const getClickCoords = (e: React.MouseEvent) => {
     if (!canvasRef.current) return { x: 0, y: 0 };
     const rect = canvasRef.current.getBoundingClientRect();
     return { x: e.clientX - rect.left, y: e.clientY - rect.top };
   };
 
-  const handleCanvasClick = (e: React.MouseEvent<HTMLDivElement>) => {
-    if (e.detail !== 1 || isPlaying || activeTool === Tool.SPOTLIGHT) return;
-    const { x, y } = getClickCoords(e);
+  const clamp = (next: CanvasTransform) =>
+    clampTransform(next, contentBox, canvasSize);
+
+  // Records a camera move made with the pan/zoom tool as a step.
+  const recordView = (point: Point, nextTransform: CanvasTransform) => {
+    if (!isCapturing) return;
+    onRecordClick(point.x, point.y, {
+      transform: nextTransform,
+      spotlight,
+      annotationIds: visibleAnnotationIds,
+      video: getVideoPlayback(),
+    });
+  };
+
+  // Zooms in on (or, with `zoomOut`, away from) and records a click at a
+  // screen position.
+  const activateAt = (screenPoint: Point, zoomOut = false) => {
+    if (!isMeasured) return;
+    const point = toContent(screenPoint);
     let nextTransform = transform;
 
-    if (activeTool === Tool.PAN_ZOOM && canvasRef.current) {
-      const newScale = transform.scale * ZOOM_FACTOR;
-      const { width, height } = canvasRef.current.getBoundingClientRect();
-      const imgX = (x - transform.x) / transform.scale;
-      const imgY = (y - transform.y) / transform.scale;
-      const newX = width / 2 - imgX * newScale;
-      const newY = height / 2 - imgY * newScale;
-      nextTransform = { scale: newScale, x: newX, y: newY };
+    if (activeTool === Tool.PAN_ZOOM) {
+      nextTransform = clamp(
+        zoomOut
+          ? zoomAtScreenPoint(
+              transform,
+              screenPoint,
+              transform.scale / ZOOM_FACTOR,
+              contentBox,
+              canvasSize
+            )
+          : centerOnContentPoint(
+              point,
+              transform.scale * ZOOM_FACTOR,
+              contentBox,
+              canvasSize
+            )
+      );
       onTransformChange(nextTransform);
       onSpotlightChange(null);
     }
 
     if (isCapturing) {
-      onRecordClick(x, y, nextTransform, null);
+      onRecordClick(point.x, point.y, {
+        transform: nextTransform,
+        spotlight: null,
+        annotationIds: visibleAnnotationIds,
+        video: getVideoPlayback(),
+      });
     }
   };
 
-  const handleKeyboardActivation = () => {
-    if (isPlaying || activeTool === Tool.SPOTLIGHT) return;
-
-    // For keyboard activation, use center of canvas as the click point
-    if (!canvasRef.current) return;
-    const rect = canvasRef.current.getBoundingClientRect();
-    const centerX = rect.width / 2;
-    const centerY = rect.height / 2;
-    let nextTransform = transform;
+  // Spotlight, annotation and ink tools handle the pointer themselves.
+  const isDrawingTool =
+    activeTool === Tool.SPOTLIGHT ||
+    activeTool === Tool.ANNOTATE ||
+    activeTool === Tool.INK;
 
-    if (activeTool === Tool.PAN_ZOOM) {
-      const newScale = transform.scale * ZOOM_FACTOR;
-      const { width, height } = rect;
-      const imgX = (centerX - transform.x) / transform.scale;
-      const imgY = (centerY - transform.y) / transform.scale;
-      const newX = width / 2 - imgX * newScale;
-      const newY = height / 2 - imgY * newScale;
-      nextTransform = { scale: newScale, x: newX, y: newY };
-      onTransformChange(nextTransform);
-      onSpotlightChange(null);
+  const handleCanvasClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (wasDraggedRef.current) {
+      wasDraggedRef.current = false;
+      return;
     }
+    if (e.detail !== 1 || isPlaying || isDrawingTool) return;
+    activateAt(getClickCoords(e), e.altKey);
+  };
 
-    if (isCapturing) {
-      onRecordClick(centerX, centerY, nextTransform, null);
-    }
+  // Enter and Space click the canvas when a click would zoom or capture;
+  // otherwise the keys stay free for the app's shortcuts.
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key !== 'Enter' && e.key !== ' ') return;
+    if (isPlaying || isDrawingTool) return;
+    if (activeTool !== Tool.PAN_ZOOM && !isCapturing) return;
+    e.preventDefault();
+    // For keyboard activation, use center of canvas as the click point
+    activateAt({ x: canvasSize.width / 2, y: canvasSize.height / 2 });
   };
 
+  // Annotation and ink tools use double clicks (and taps) themselves.
+  const canResetView =
+    !isPlaying && activeTool !== Tool.ANNOTATE && activeTool !== Tool.INK;
+
   const handleDoubleClick = (e: React.MouseEvent<HTMLDivElement>) => {
-    if (isPlaying) return;
+    if (!canResetView) return;
     e.preventDefault();
     resetView();
   };
 
+  // A stroke becomes a step that redraws it at the pace it was drawn.
+  const handleInkDraw = (stroke: InkAnnotation) => {
+    const nextVisibleIds = [...visibleAnnotationIds, stroke.id];
+    onAnnotationsChange([...annotations, stroke], nextVisibleIds);
+    const start = stroke.points[0];
+    if (isCapturing && start) {
+      onRecordClick(
+        start.x,
+        start.y,
+        {
+          transform,
+          spotlight,
+          annotationIds: nextVisibleIds,
+          video: getVideoPlayback(),
+        },
+        { animationMs: Math.round(getStrokeDuration(stroke)) }
+      );
+    }
+  };
+
+  const handleInkErase = (ids: number[], point: Point) => {
+    const erased = new Set(ids);
+    const nextVisibleIds = visibleAnnotationIds.filter((id) => !erased.has(id));
+    if (isCapturing) {
+      // Earlier steps may still show the erased strokes, so only hide them.
+      onAnnotationsChange(annotations, nextVisibleIds);
+      onRecordClick(point.x, point.y, {
+        transform,
+        spotlight,
+        annotationIds: nextVisibleIds,
+        video: getVideoPlayback(),
+      });
+    } else {
+      onAnnotationsChange(
+        annotations.filter((annotation) => !erased.has(annotation.id)),
+        nextVisibleIds
+      );
+    }
+  };
+
   const handleUploadClick = () => {
     fileInputRef.current?.click();
   };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      onFile(file);
-      // Reset the input so the same file can be selected again
+    const files = Array.from(e.target.files ?? []);
+    if (files.length > 0) {
+      onFiles(files);
+      // Reset the input so the same files can be selected again
       e.target.value = '';
     }
   };
 
-  const handleMouseDown = (e: React.MouseEvent<HTMLDivElement>) => {
-    if (isPlaying || activeTool !== Tool.SPOTLIGHT) return;
-    e.preventDefault();
-    setIsDragging(true);
-    setDragStart(getClickCoords(e));
+  const reportPointer = (screenPoint: Point) => {
+    const last = lastPointerRef.current;
+    if (
+      last &&
+      Math.hypot(screenPoint.x - last.x, screenPoint.y - last.y) <
+        PATH_SAMPLE_DISTANCE
+    ) {
+      return;
+    }
+    lastPointerRef.current = screenPoint;
+    onPointerMove(toContent(screenPoint));
   };
 
-  const handleMouseMove = (e: React.MouseEvent<HTMLDivElement>) => {
-    if (!isDragging || activeTool !== Tool.SPOTLIGHT || isPlaying) return;
-    const currentPos = getClickCoords(e);
-    const distance = Math.hypot(
-      currentPos.x - dragStart.x,
-      currentPos.y - dragStart.y
-    );
+  const isPanZooming = activeTool === Tool.PAN_ZOOM && !isPlaying && isMeasured;
 
-    if (distance < DRAG_THRESHOLD) {
-      onSpotlightChange(null);
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!isPanZooming || e.button !== 0) return;
+    const point = getClickCoords(e);
+    setViewDrag({
+      mode: e.shiftKey ? 'zoomRect' : 'pan',
+      start: point,
+      current: point,
+      startTransform: transform,
+    });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (isCapturing && isMeasured) reportPointer(getClickCoords(e));
+    if (!viewDrag) return;
+    const current = getClickCoords(e);
+    setViewDrag({ ...viewDrag, current });
+    const dx = current.x - viewDrag.start.x;
+    const dy = current.y - viewDrag.start.y;
+    if (viewDrag.mode === 'pan' && Math.hypot(dx, dy) >= DRAG_THRESHOLD) {
+      const { startTransform } = viewDrag;
+      onTransformChange(
+        clamp({
+          ...startTransform,
+          x: startTransform.x + dx / contentBox.width,
+          y: startTransform.y + dy / contentBox.height,
+        })
+      );
+    }
+  };
+
+  const finishViewDrag = () => {
+    if (!viewDrag) return;
+    setViewDrag(null);
+    const { mode, start, current, startTransform } = viewDrag;
+    if (Math.hypot(current.x - start.x, current.y - start.y) < DRAG_THRESHOLD) {
+      return;
+    }
+    wasDraggedRef.current = true;
+    if (mode === 'pan') {
+      // The pointer stays over what it grabbed, so that's what the step is for.
+      recordView(
+        screenToContent(start, startTransform, contentBox, canvasSize),
+        transform
+      );
       return;
     }
-    const x = Math.min(dragStart.x, currentPos.x);
-    const y = Math.min(dragStart.y, currentPos.y);
-    const width = Math.abs(dragStart.x - currentPos.x);
-    const height = Math.abs(dragStart.y - currentPos.y);
-    onSpotlightChange({ type: 'rect', x, y, width, height, radius: 0 });
+    const corner = toContent(start);
+    const opposite = toContent(current);
+    const area = {
+      x: Math.min(corner.x, opposite.x),
+      y: Math.min(corner.y, opposite.y),
+      width: Math.abs(opposite.x - corner.x),
+      height: Math.abs(opposite.y - corner.y),
+    };
+    const nextTransform = clamp(fitContentRect(area, contentBox, canvasSize));
+    onTransformChange(nextTransform);
+    recordView(
+      { x: area.x + area.width / 2, y: area.y + area.height / 2 },
+      nextTransform
+    );
   };
 
-  const handleMouseUp = (e: React.MouseEvent<HTMLDivElement>) => {
-    if (!isDragging || activeTool !== Tool.SPOTLIGHT) {
-      if (isDragging) setIsDragging(false);
+  // Touches are tracked before the tool overlays see them, so that a second
+  // finger can take over from whatever the first one started.
+  const handleTouchStart = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.pointerType !== 'touch' || isPlaying || !isMeasured) return;
+    const touches = touchesRef.current;
+    const point = getClickCoords(e);
+    touches.set(e.pointerId, { start: point, current: point });
+    if (touches.size !== 2) return;
+    e.stopPropagation();
+    const [a, b] = [...touches.values()].map((touch) => touch.current);
+    if (!a || !b) return;
+    setViewDrag(null);
+    setPinch({
+      distance: Math.max(1, Math.hypot(b.x - a.x, b.y - a.y)),
+      mid: getMidpoint(a, b),
+      startTransform: transform,
+    });
+  };
+
+  const handleTouchMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const touch = touchesRef.current.get(e.pointerId);
+    if (!touch) return;
+    touch.current = getClickCoords(e);
+    if (!pinch) return;
+    e.stopPropagation();
+    const [a, b] = [...touchesRef.current.values()].map(
+      (other) => other.current
+    );
+    if (!a || !b) return;
+    const mid = getMidpoint(a, b);
+    const { startTransform } = pinch;
+    const zoomed = zoomAtScreenPoint(
+      startTransform,
+      pinch.mid,
+      (startTransform.scale * Math.hypot(b.x - a.x, b.y - a.y)) /
+        pinch.distance,
+      contentBox,
+      canvasSize
+    );
+    onTransformChange(
+      clamp({
+        ...zoomed,
+        x: zoomed.x + (mid.x - pinch.mid.x) / contentBox.width,
+        y: zoomed.y + (mid.y - pinch.mid.y) / contentBox.height,
+      })
+    );
+  };
+
+  const handleTouchEnd = (e: React.PointerEvent<HTMLDivElement>) => {
+    const touch = touchesRef.current.get(e.pointerId);
+    if (!touch) return;
+    touchesRef.current.delete(e.pointerId);
+    if (pinch) {
+      e.stopPropagation();
+      setPinch(null);
+      // Keeps the finger left on the screen from ending in a tap.
+      wasDraggedRef.current = true;
+      recordView(
+        screenToContent(
+          pinch.mid,
+          pinch.startTransform,
+          contentBox,
+          canvasSize
+        ),
+        transform
+      );
       return;
     }
-    const endPos = getClickCoords(e);
-    const distance = Math.hypot(endPos.x - dragStart.x, endPos.y - dragStart.y);
-
-    let finalSpotlight: SpotlightState;
-    if (distance < DRAG_THRESHOLD) {
-      finalSpotlight = {
-        type: 'circle',
-        x: endPos.x,
-        y: endPos.y,
-        radius: CIRCLE_RADIUS,
-        width: 0,
-        height: 0,
-      };
+    const { start, current } = touch;
+    if (
+      e.type !== 'pointerup' ||
+      Math.hypot(current.x - start.x, current.y - start.y) >= DRAG_THRESHOLD
+    ) {
+      return;
+    }
+    // Touch browsers don't reliably report double clicks, so spot double
+    // taps here.
+    const now = performance.now();
+    const lastTap = lastTapRef.current;
+    if (
+      lastTap &&
+      now - lastTap.time < DOUBLE_TAP_MS &&
+      Math.hypot(current.x - lastTap.point.x, current.y - lastTap.point.y) <
+        DOUBLE_TAP_DISTANCE
+    ) {
+      lastTapRef.current = null;
+      if (canResetView) resetView();
     } else {
-      const x = Math.min(dragStart.x, endPos.x);
-      const y = Math.min(dragStart.y, endPos.y);
-      const width = Math.abs(dragStart.x - endPos.x);
-      const height = Math.abs(dragStart.y - endPos.y);
-      finalSpotlight = { type: 'rect', x, y, width, height, radius: 0 };
+      lastTapRef.current = { time: now, point: current };
     }
-    onSpotlightChange(finalSpotlight);
+  };
 
+  // Wheel and trackpad pinch zoom around the cursor; the zoom is recorded as
+  // one step once the wheel has been still for a moment.
+  wheelHandlerRef.current = (event: WheelEvent) => {
+    if (!isPanZooming || !canvasRef.current) return;
+    event.preventDefault();
+    const rect = canvasRef.current.getBoundingClientRect();
+    const screenPoint = {
+      x: event.clientX - rect.left,
+      y: event.clientY - rect.top,
+    };
+    const wheel = wheelRef.current;
+    const current = wheel?.transform ?? transform;
+    const nextTransform = clamp(
+      zoomAtScreenPoint(
+        current,
+        screenPoint,
+        current.scale * Math.exp(-event.deltaY * WHEEL_ZOOM_SPEED),
+        contentBox,
+        canvasSize
+      )
+    );
+    if (wheel) clearTimeout(wheel.timeout);
+    const point = screenToContent(
+      screenPoint,
+      nextTransform,
+      contentBox,
+      canvasSize
+    );
+    wheelRef.current = {
+      transform: nextTransform,
+      point,
+      timeout: setTimeout(() => {
+        wheelRef.current = null;
+        setIsWheeling(false);
+        recordView(point, nextTransform);
+      }, WHEEL_SETTLE_MS),
+    };
+    setIsWheeling(true);
+    onTransformChange(nextTransform);
+  };
+
+  useEffect(() => {
+    const target = canvasRef.current;
+    if (!target) return;
+    // React's wheel listeners are passive, which would let the page scroll.
+    const handleWheel = (event: WheelEvent) => wheelHandlerRef.current(event);
+    target.addEventListener('wheel', handleWheel, { passive: false });
+    return () => {
+      target.removeEventListener('wheel', handleWheel);
+      if (wheelRef.current) clearTimeout(wheelRef.current.timeout);
+    };
+  }, []);
+
+  // A finished spotlight edit becomes a step focused on the region edited.
+  const handleSpotlightCommit = (
+    nextSpotlight: SpotlightState | null,
+    anchor: Point
+  ) => {
+    onSpotlightChange(nextSpotlight);
     if (isCapturing) {
-      onRecordClick(endPos.x, endPos.y, transform, finalSpotlight);
+      onRecordClick(anchor.x, anchor.y, {
+        transform,
+        spotlight: nextSpotlight,
+        annotationIds: visibleAnnotationIds,
+        video: getVideoPlayback(),
+      });
     }
-    setIsDragging(false);
   };
 
   useEffect(() => {
@@ -199,7 +765,7 @@ export const Canvas: React.FC<CanvasProps> = ({
       for (const item of items) {
         if (item.type.includes('image')) {
           const file = item.getAsFile();
-          if (file) onFile(file);
+          if (file) onFiles([file]);
           break;
         }
       }
@@ -208,9 +774,8 @@ export const Canvas: React.FC<CanvasProps> = ({
     const handleDrop = (event: DragEvent) => {
       event.preventDefault();
       pasteTarget.classList.remove('bg-gray-700', 'border-cyan-400');
-      if (event.dataTransfer?.files?.[0]) {
-        onFile(event.dataTransfer.files[0]);
-      }
+      const files = Array.from(event.dataTransfer?.files ?? []);
+      if (files.length > 0) onFiles(files);
     };
 
     const handleDragOver = (event: DragEvent) => {
@@ -234,31 +799,34 @@ export const Canvas: React.FC<CanvasProps> = ({
       pasteTarget.removeEventListener('dragover', handleDragOver);
       pasteTarget.removeEventListener('dragleave', handleDragLeave);
     };
-  }, [onFile]);
+  }, [onFiles]);
 
   return (
     <div
       ref={canvasRef}
-      className="w-full h-full bg-gray-800 overflow-hidden relative select-none cursor-crosshair focus:outline-none transition-colors duration-300"
+      className={`w-full h-full bg-gray-800 overflow-hidden relative select-none touch-none focus:outline-none transition-colors duration-300 ${
+        viewDrag?.mode === 'pan' ? 'cursor-grabbing' : 'cursor-crosshair'
+      }`}
       role="button"
       tabIndex={0} // Makes the div focusable for paste events
       onClick={handleCanvasClick}
-      onKeyDown={(e) => {
-        if (e.key === 'Enter' || e.key === ' ') {
-          e.preventDefault();
-          handleKeyboardActivation();
-        }
-      }}
+      onKeyDown={handleKeyDown}
       onDoubleClick={handleDoubleClick}
-      onMouseDown={handleMouseDown}
-      onMouseMove={handleMouseMove}
-      onMouseUp={handleMouseUp}
+      onPointerDownCapture={handleTouchStart}
+      onPointerMoveCapture={handleTouchMove}
+      onPointerUpCapture={handleTouchEnd}
+      onPointerCancelCapture={handleTouchEnd}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={finishViewDrag}
+      onPointerCancel={finishViewDrag}
+      onPointerLeave={finishViewDrag}
     >
       {mediaUrl ? (
         <div
-          className="absolute top-0 left-0 w-full h-full flex items-center justify-center transition-transform duration-300 ease-out"
+          className="absolute top-0 left-0 w-full h-full flex items-center justify-center"
           style={{
-            transform: `translate(${transform.x}px, ${transform.y}px) scale(${transform.scale})`,
+            transform: `translate(${pixelTranslation.x}px, ${pixelTranslation.y}px) scale(${displayedTransform.scale})`,
           }}
         >
           {mediaType === 'image' && (
@@ -268,6 +836,15 @@ export const Canvas: React.FC<CanvasProps> = ({
               className="max-w-full max-h-full object-contain shadow-lg"
               alt="presentation content"
               draggable="false"
+              onLoad={(e) =>
+                setLoadedMedia({
+                  url: mediaUrl,
+                  size: {
+                    width: e.currentTarget.naturalWidth,
+                    height: e.currentTarget.naturalHeight,
+                  },
+                })
+              }
             />
           )}
           {mediaType === 'video' && (
@@ -276,6 +853,21 @@ export const Canvas: React.FC<CanvasProps> = ({
               src={mediaUrl}
               className="max-w-full max-h-full object-contain shadow-lg"
               controls
+              onLoadedMetadata={(e) => {
+                expectedVideoRef.current ??= readVideoPlayback(e.currentTarget);
+                setLoadedMedia({
+                  url: mediaUrl,
+                  size: {
+                    width: e.currentTarget.videoWidth,
+                    height: e.currentTarget.videoHeight,
+                  },
+                });
+              }}
+              onPlay={(e) => handleVideoPlayChange(e.currentTarget)}
+              onPause={(e) => handleVideoPlayChange(e.currentTarget)}
+              onSeeked={(e) => handleVideoSeeked(e.currentTarget)}
+              onVolumeChange={(e) => handleVideoVolumeChange(e.currentTarget)}
+              onRateChange={(e) => handleVideoRateChange(e.currentTarget)}
             >
               <track kind="captions" />
             </video>
@@ -290,64 +882,148 @@ export const Canvas: React.FC<CanvasProps> = ({
               className="inline-flex items-center gap-2 px-4 py-2 bg-cyan-600 hover:bg-cyan-700 text-white text-base font-medium rounded-lg transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:ring-offset-2 focus:ring-offset-gray-800"
             >
               <UploadIcon className="w-5 h-5" />
-              Choose File
+              Choose Files
             </button>
             <input
               ref={fileInputRef}
               type="file"
-              accept="image/*,video/*"
+              accept="image/*,video/*,application/pdf"
+              multiple
               onChange={handleFileChange}
               className="hidden"
-              aria-label="Upload media file"
+              aria-label="Upload media files"
             />
           </div>
         </div>
       )}
 
-      {spotlight && (
-        <svg className="absolute top-0 left-0 w-full h-full pointer-events-none z-10">
-          <defs>
-            <mask id="spotlight-mask">
-              <rect width="100%" height="100%" fill="white" />
-              {spotlight.type === 'circle' && (
-                <circle
-                  cx={spotlight.x}
-                  cy={spotlight.y}
-                  r={spotlight.radius}
-                  fill="black"
-                />
-              )}
-              {spotlight.type === 'rect' && (
-                <rect
-                  x={spotlight.x}
-                  y={spotlight.y}
-                  width={spotlight.width}
-                  height={spotlight.height}
-                  fill="black"
-                />
-              )}
-            </mask>
-          </defs>
-          <rect
-            width="100%"
-            height="100%"
-            fill="rgba(0,0,0,0.8)"
-            mask="url(#spotlight-mask)"
-          />
-        </svg>
+      {displayedSpotlight && (
+        <>
+          {displayedSpotlight.blur > 0 && (
+            <div
+              className="absolute top-0 left-0 w-full h-full pointer-events-none z-10"
+              style={{
+                backdropFilter: `blur(${displayedSpotlight.blur * displayedSpotlight.opacity}px)`,
+                mask: `url(#${maskId})`,
+                WebkitMask: `url(#${maskId})`,
+              }}
+            />
+          )}
+          <svg className="absolute top-0 left-0 w-full h-full pointer-events-none z-10">
+            <defs>
+              <filter
+                id={featherId}
+                x="-50%"
+                y="-50%"
+                width="200%"
+                height="200%"
+              >
+                <feGaussianBlur stdDeviation={displayedSpotlight.feather / 2} />
+              </filter>
+              <mask id={maskId}>
+                <rect width="100%" height="100%" fill="white" />
+                <g
+                  filter={
+                    displayedSpotlight.feather > 0
+                      ? `url(#${featherId})`
+                      : undefined
+                  }
+                >
+                  {displayedSpotlight.regions.map((region, index) => (
+                    <SpotlightHole key={index} region={region} />
+                  ))}
+                </g>
+              </mask>
+            </defs>
+            <rect
+              width="100%"
+              height="100%"
+              fill={`rgba(0,0,0,${displayedSpotlight.dimOpacity * displayedSpotlight.opacity})`}
+              mask={`url(#${maskId})`}
+            />
+          </svg>
+        </>
       )}
 
-      {replayCursorPos && (
+      {viewDrag?.mode === 'zoomRect' && (
         <div
-          className="absolute z-50 w-8 h-8 rounded-full bg-yellow-400 border-2 border-white shadow-lg pointer-events-none transition-transform duration-75"
+          className="absolute z-30 border-2 border-dashed border-cyan-400 bg-cyan-400 bg-opacity-10 pointer-events-none"
           style={{
-            left: 0,
-            top: 0,
-            transform: `translate(${replayCursorPos.x - 16}px, ${replayCursorPos.y - 16}px)`,
+            left: Math.min(viewDrag.start.x, viewDrag.current.x),
+            top: Math.min(viewDrag.start.y, viewDrag.current.y),
+            width: Math.abs(viewDrag.current.x - viewDrag.start.x),
+            height: Math.abs(viewDrag.current.y - viewDrag.start.y),
           }}
-        >
-          <div className="w-full h-full rounded-full bg-yellow-400 animate-ping"></div>
-        </div>
+        />
+      )}
+
+      {activeTool === Tool.SPOTLIGHT && !isPlaying && isMeasured && !pinch && (
+        <SpotlightEditor
+          spotlight={spotlight}
+          style={spotlightStyle}
+          transform={displayedTransform}
+          contentBox={contentBox}
+          viewport={canvasSize}
+          onChange={onSpotlightChange}
+          onCommit={handleSpotlightCommit}
+        />
+      )}
+
+      <AnnotationLayer
+        annotations={annotations}
+        visibleIds={visibleAnnotationIds}
+        transform={displayedTransform}
+        contentBox={contentBox}
+        viewport={canvasSize}
+        isEditing={
+          activeTool === Tool.ANNOTATE && !isPlaying && isMeasured && !pinch
+        }
+        style={annotationStyle}
+        animation={animation}
+        onChange={onAnnotationsChange}
+        onPlace={(anchor, annotationIds) => {
+          if (isCapturing) {
+            onRecordClick(anchor.x, anchor.y, {
+              transform,
+              spotlight,
+              annotationIds,
+              video: getVideoPlayback(),
+            });
+          }
+        }}
+      />
+
+      {activeTool === Tool.INK && !isPlaying && isMeasured && !pinch && (
+        <InkLayer
+          annotations={annotations}
+          visibleIds={visibleAnnotationIds}
+          transform={displayedTransform}
+          contentBox={contentBox}
+          viewport={canvasSize}
+          style={inkStyle}
+          onDraw={handleInkDraw}
+          onErase={handleInkErase}
+        />
+      )}
+
+      {activeTool === Tool.LASER && !isPlaying && isMeasured && !pinch && (
+        <LaserPointer
+          transform={displayedTransform}
+          contentBox={contentBox}
+          viewport={canvasSize}
+        />
+      )}
+
+      {replayCursor && (
+        <ReplayCursor
+          x={replayCursor.x}
+          y={replayCursor.y}
+          travelMs={replayCursor.travelMs}
+          easing={replayCursor.easing}
+          path={replayCursor.path}
+          clickId={replayCursor.clickId}
+          toScreen={cursorToScreen}
+        />
       )}
     </div>
   );
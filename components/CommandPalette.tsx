@@ -0,0 +1,176 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+
+import { fuzzyMatch } from '../utils/fuzzy';
+
+export interface PaletteItem {
+  id: string;
+  label: string;
+  group: string;
+  shortcut?: string | undefined;
+  isDisabled: boolean;
+  run: () => void;
+}
+
+interface CommandPaletteProps {
+  items: PaletteItem[];
+  onClose: () => void;
+}
+
+const MAX_RESULTS = 50;
+
+// The matched letters of a label in bold.
+const HighlightedLabel: React.FC<{ label: string; indices: number[] }> = ({
+  label,
+  indices,
+}) => (
+  <>
+    {label.split('').map((char, index) =>
+      indices.includes(index) ? (
+        <strong key={index} className="text-cyan-300">
+          {char}
+        </strong>
+      ) : (
+        char
+      )
+    )}
+  </>
+);
+
+export const CommandPalette: React.FC<CommandPaletteProps> = ({
+  items,
+  onClose,
+}) => {
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  // Best matches first; ties keep the items' own order.
+  const results = useMemo(
+    () =>
+      items
+        .flatMap((item) => {
+          const match = fuzzyMatch(query, item.label);
+          return match ? [{ item, match }] : [];
+        })
+        .sort((a, b) => b.match.score - a.match.score)
+        .slice(0, MAX_RESULTS),
+    [items, query]
+  );
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  useEffect(() => {
+    listRef.current
+      ?.querySelector('[aria-selected="true"]')
+      ?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const runItem = (item: PaletteItem) => {
+    if (item.isDisabled) return;
+    onClose();
+    item.run();
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault();
+        setActiveIndex((prev) => Math.min(prev + 1, results.length - 1));
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        setActiveIndex((prev) => Math.max(prev - 1, 0));
+        break;
+      case 'Enter': {
+        event.preventDefault();
+        const result = results[activeIndex];
+        if (result) runItem(result.item);
+        break;
+      }
+      case 'Escape':
+        event.preventDefault();
+        onClose();
+        break;
+    }
+  };
+
+  const activeId = results[activeIndex]?.item.id;
+
+  return (
+    <div
+      className="fixed inset-0 z-[60] flex items-start justify-center bg-black bg-opacity-60 p-4 pt-[15vh]"
+      onPointerDown={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Command palette"
+        className="w-full max-w-lg bg-gray-800 rounded-xl shadow-2xl border border-gray-700 text-white overflow-hidden"
+      >
+        <input
+          ref={inputRef}
+          type="text"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setActiveIndex(0);
+          }}
+          onKeyDown={handleKeyDown}
+          placeholder="Type a command, a slide or a step…"
+          role="combobox"
+          aria-expanded="true"
+          aria-controls="command-palette-results"
+          aria-activedescendant={
+            activeId ? `command-palette-${activeId}` : undefined
+          }
+          className="w-full px-4 py-3 bg-gray-900 border-b border-gray-700 text-white placeholder-gray-500 focus:outline-none"
+        />
+        <ul
+          ref={listRef}
+          id="command-palette-results"
+          role="listbox"
+          className="max-h-80 overflow-y-auto py-1"
+        >
+          {results.length === 0 && (
+            <li className="px-4 py-2 text-sm text-gray-400">
+              No matching commands.
+            </li>
+          )}
+          {results.map(({ item, match }, index) => (
+            <li
+              key={item.id}
+              id={`command-palette-${item.id}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              aria-disabled={item.isDisabled}
+              // Pressing here would otherwise take the focus off the input.
+              onMouseDown={(e) => {
+                e.preventDefault();
+                runItem(item);
+              }}
+              onPointerMove={() => setActiveIndex(index)}
+              className={`flex items-center gap-3 px-4 py-2 text-sm cursor-pointer ${
+                index === activeIndex ? 'bg-gray-700' : ''
+              } ${item.isDisabled ? 'opacity-50 cursor-not-allowed' : ''}`}
+            >
+              <span className="flex-grow min-w-0 truncate">
+                <HighlightedLabel label={item.label} indices={match.indices} />
+              </span>
+              <span className="text-xs text-gray-400">{item.group}</span>
+              {item.shortcut && (
+                <kbd className="px-1.5 py-0.5 bg-gray-900 border border-gray-600 rounded text-xs font-mono">
+                  {item.shortcut}
+                </kbd>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
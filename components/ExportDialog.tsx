@@ -0,0 +1,246 @@
+import React, { useRef, useState } from 'react';
+
+import {
+  DEFAULT_VIDEO_SETTINGS,
+  VIDEO_FRAME_RATES,
+  VIDEO_RESOLUTIONS,
+  VideoSettings,
+  getVideoEncoding,
+} from '../utils/videoExport';
+
+export type ExportFormat = 'player' | 'frames' | 'handout' | 'video';
+
+export interface ExportRequest {
+  format: ExportFormat;
+  includeNotes: boolean;
+  video: VideoSettings;
+  // Counts steps, or frames for a video.
+  onProgress: (done: number, total: number) => void;
+  signal: AbortSignal;
+}
+
+interface ExportDialogProps {
+  stepCount: number;
+  // Resolves once the file has been handed to the browser; errors are the
+  // caller's to report.
+  onExport: (request: ExportRequest) => Promise<void>;
+  onClose: () => void;
+}
+
+const FORMATS: {
+  format: ExportFormat;
+  label: string;
+  description: string;
+  needsSteps: boolean;
+}[] = [
+  {
+    format: 'player',
+    label: 'HTML player',
+    description: 'One offline page that replays the walkthrough.',
+    needsSteps: false,
+  },
+  {
+    format: 'video',
+    label: 'Video',
+    description: 'The replay as a WebM file, without sound.',
+    needsSteps: true,
+  },
+  {
+    format: 'frames',
+    label: 'PNG frames',
+    description: 'A zip with an image of every step.',
+    needsSteps: true,
+  },
+  {
+    format: 'handout',
+    label: 'PDF handout',
+    description: 'One page per step, for printing or sharing.',
+    needsSteps: true,
+  },
+];
+
+const describeProgress = (
+  format: ExportFormat,
+  done: number,
+  total: number,
+  stepCount: number
+) => {
+  switch (format) {
+    case 'player':
+      return 'Building the player…';
+    case 'video':
+      return total > 0
+        ? `Recording… ${Math.floor((done / total) * 100)}%`
+        : 'Recording…';
+    default:
+      return `Rendering step ${Math.min(done + 1, stepCount)} of ${stepCount}…`;
+  }
+};
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({
+  stepCount,
+  onExport,
+  onClose,
+}) => {
+  const [includeNotes, setIncludeNotes] = useState(true);
+  const [video, setVideo] = useState(DEFAULT_VIDEO_SETTINGS);
+  const [busy, setBusy] = useState<{
+    format: ExportFormat;
+    done: number;
+    total: number;
+  } | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const videoEncoding = getVideoEncoding();
+
+  const handleExport = async (format: ExportFormat) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setBusy({ format, done: 0, total: 0 });
+    try {
+      await onExport({
+        format,
+        includeNotes,
+        video,
+        onProgress: (done, total) => setBusy({ format, done, total }),
+        signal: controller.signal,
+      });
+    } finally {
+      abortRef.current = null;
+      setBusy(null);
+    }
+  };
+
+  const getDisabledReason = (format: ExportFormat, needsSteps: boolean) => {
+    if (needsSteps && stepCount === 0) return 'Capture some steps first';
+    if (format === 'video' && !videoEncoding) {
+      return 'This browser cannot record WebM video';
+    }
+    return null;
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black bg-opacity-60 p-4">
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="export-title"
+        className="w-full max-w-lg bg-gray-800 rounded-xl shadow-2xl border border-gray-700 p-4 sm:p-6 text-white"
+      >
+        <h2 id="export-title" className="text-xl font-semibold mb-4">
+          Export
+        </h2>
+        <ul className="space-y-2">
+          {FORMATS.map(({ format, label, description, needsSteps }) => {
+            const disabledReason = getDisabledReason(format, needsSteps);
+            return (
+              <li
+                key={format}
+                className="flex items-center gap-3 p-3 bg-gray-700 rounded-lg"
+              >
+                <div className="flex-grow min-w-0">
+                  <div className="font-medium">{label}</div>
+                  <div className="text-xs text-gray-400">{description}</div>
+                  {format === 'handout' && (
+                    <label className="mt-2 flex items-center gap-2 text-sm text-gray-300">
+                      <input
+                        type="checkbox"
+                        checked={includeNotes}
+                        onChange={(e) => setIncludeNotes(e.target.checked)}
+                        disabled={busy !== null}
+                      />
+                      Include speaker notes
+                    </label>
+                  )}
+                  {format === 'video' && (
+                    <div className="mt-2 flex items-center gap-2 text-sm">
+                      <select
+                        value={`${video.width}x${video.height}`}
+                        onChange={(e) => {
+                          const resolution = VIDEO_RESOLUTIONS.find(
+                            ({ width, height }) =>
+                              `${width}x${height}` === e.target.value
+                          );
+                          if (resolution) {
+                            setVideo((prev) => ({
+                              ...prev,
+                              width: resolution.width,
+                              height: resolution.height,
+                            }));
+                          }
+                        }}
+                        disabled={busy !== null}
+                        className="bg-gray-800 text-white rounded px-1 py-0.5"
+                        aria-label="Video resolution"
+                      >
+                        {VIDEO_RESOLUTIONS.map(({ width, height, label }) => (
+                          <option key={label} value={`${width}x${height}`}>
+                            {label}
+                          </option>
+                        ))}
+                      </select>
+                      <select
+                        value={video.fps}
+                        onChange={(e) =>
+                          setVideo((prev) => ({
+                            ...prev,
+                            fps: Number(e.target.value),
+                          }))
+                        }
+                        disabled={busy !== null}
+                        className="bg-gray-800 text-white rounded px-1 py-0.5"
+                        aria-label="Video frame rate"
+                      >
+                        {VIDEO_FRAME_RATES.map((fps) => (
+                          <option key={fps} value={fps}>
+                            {fps} fps
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+                  {format === 'video' && videoEncoding === 'approximate' && (
+                    <p className="mt-1 text-xs text-amber-300">
+                      This browser records in real time, so frame timing is
+                      approximate and exporting takes as long as the video.
+                    </p>
+                  )}
+                </div>
+                <button
+                  onClick={() => void handleExport(format)}
+                  disabled={busy !== null || disabledReason !== null}
+                  title={disabledReason ?? `Export ${label}`}
+                  className="px-3 py-1 bg-cyan-600 hover:bg-cyan-700 rounded-md text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-cyan-600"
+                >
+                  Export
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+        <div className="mt-4 flex items-center justify-end gap-3">
+          {busy && (
+            <p role="status" className="flex-grow text-sm text-gray-300">
+              {describeProgress(busy.format, busy.done, busy.total, stepCount)}
+            </p>
+          )}
+          {busy?.format === 'video' ? (
+            <button
+              onClick={() => abortRef.current?.abort()}
+              className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg font-medium transition-colors"
+            >
+              Cancel
+            </button>
+          ) : (
+            <button
+              onClick={onClose}
+              disabled={busy !== null}
+              className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg font-medium transition-colors disabled:opacity-50"
+            >
+              Close
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
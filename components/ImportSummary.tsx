@@ -0,0 +1,52 @@
+import React from 'react';
+
+import { SkippedFile } from '../utils/media';
+
+interface ImportSummaryProps {
+  isImporting: boolean;
+  importedCount: number;
+  skipped: SkippedFile[];
+  onDismiss: () => void;
+}
+
+/** Non-blocking report of a media import, listing files that were skipped. */
+export const ImportSummary: React.FC<ImportSummaryProps> = ({
+  isImporting,
+  importedCount,
+  skipped,
+  onDismiss,
+}) => (
+  <div
+    role="status"
+    className="fixed top-4 sm:top-[104px] left-1/2 -translate-x-1/2 z-50 w-[min(28rem,90vw)] bg-gray-800 bg-opacity-95 backdrop-blur-sm border border-gray-700 rounded-xl shadow-2xl p-3 text-sm text-white"
+  >
+    {isImporting ? (
+      <p>Importing files…</p>
+    ) : (
+      <>
+        <div className="flex items-start justify-between gap-3">
+          <p>
+            {importedCount === 0
+              ? 'Nothing was imported.'
+              : `Imported ${importedCount} ${importedCount === 1 ? 'slide' : 'slides'}.`}{' '}
+            Skipped {skipped.length} {skipped.length === 1 ? 'file' : 'files'}:
+          </p>
+          <button
+            onClick={onDismiss}
+            className="px-2 py-1 text-xs rounded-md bg-gray-700 hover:bg-gray-600 transition-colors"
+          >
+            Dismiss
+          </button>
+        </div>
+        <ul className="mt-2 max-h-40 overflow-y-auto space-y-1 text-gray-300">
+          {skipped.map((file, index) => (
+            <li key={`${file.name}-${index}`}>
+              <span className="font-medium text-white">{file.name}</span>:{' '}
+              {file.reason}
+            </li>
+          ))}
+        </ul>
+      </>
+    )}
+  </div>
+);
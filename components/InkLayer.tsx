@@ -0,0 +1,280 @@
+import React, { useRef, useState } from 'react';
+
+import { Annotation, CanvasTransform, InkAnnotation, InkPoint } from '../types';
+import { createAnnotationId } from '../utils/annotations';
+import {
+  ContentBox,
+  Point,
+  Size,
+  contentToScreen,
+  screenToContent,
+} from '../utils/coordinates';
+import {
+  HIGHLIGHTER_OPACITY,
+  InkStyle,
+  distanceToPolyline,
+  getInkWidth,
+  getPressureScale,
+  getStrokePath,
+  hasPressure,
+  isInk,
+} from '../utils/ink';
+
+interface InkPathProps {
+  stroke: InkAnnotation;
+  points: InkPoint[];
+  toScreen: (point: Point) => Point;
+  pixelsPerUnit: number;
+  color?: string;
+}
+
+/**
+ * One ink stroke (or the drawn part of it) as an SVG path. Stylus strokes
+ * vary in width with pressure, so they are drawn segment by segment.
+ */
+export const InkPath: React.FC<InkPathProps> = ({
+  stroke,
+  points,
+  toScreen,
+  pixelsPerUnit,
+  color = stroke.color,
+}) => {
+  const opacity = stroke.brush === 'highlighter' ? HIGHLIGHTER_OPACITY : 1;
+  const width = stroke.width * pixelsPerUnit;
+  if (!hasPressure(points)) {
+    return (
+      <path
+        d={getStrokePath(points.map(toScreen))}
+        stroke={color}
+        strokeWidth={Math.max(1, width)}
+        strokeOpacity={opacity}
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        fill="none"
+      />
+    );
+  }
+  const screenPoints = points.map(toScreen);
+  // Group opacity keeps overlapping segment ends from darkening highlighters.
+  return (
+    <g opacity={opacity}>
+      {points.map((point, index) => {
+        const previous = points[index - 1] ?? point;
+        const start = screenPoints[index - 1] ?? screenPoints[index];
+        const end = screenPoints[index];
+        if (!start || !end) return null;
+        const scale =
+          (getPressureScale(previous) + getPressureScale(point)) / 2;
+        return (
+          <line
+            key={index}
+            x1={start.x}
+            y1={start.y}
+            x2={end.x}
+            y2={end.y}
+            stroke={color}
+            strokeWidth={Math.max(1, width * scale)}
+            strokeLinecap="round"
+          />
+        );
+      })}
+    </g>
+  );
+};
+
+interface InkLayerProps {
+  annotations: Annotation[];
+  visibleIds: number[];
+  transform: CanvasTransform;
+  contentBox: ContentBox;
+  viewport: Size;
+  style: InkStyle;
+  onDraw: (stroke: InkAnnotation) => void;
+  // `point` is where the eraser was lifted, in content space.
+  onErase: (ids: number[], point: Point) => void;
+}
+
+const SAMPLE_DISTANCE = 2; // pixels between recorded points
+const ERASER_RADIUS = 12; // pixels
+const ERASED_COLOR = '#6b7280';
+
+/**
+ * Captures pen, highlighter and eraser gestures while the ink tool is
+ * active. Finished strokes are handed to `onDraw` and drawn from then on by
+ * the annotation layer; erased strokes are greyed out until the eraser lifts.
+ */
+export const InkLayer: React.FC<InkLayerProps> = ({
+  annotations,
+  visibleIds,
+  transform,
+  contentBox,
+  viewport,
+  style,
+  onDraw,
+  onErase,
+}) => {
+  const [draft, setDraft] = useState<InkAnnotation | null>(null);
+  const [erasing, setErasing] = useState<{
+    ids: number[];
+    point: Point;
+  } | null>(null);
+  const [pointer, setPointer] = useState<Point | null>(null);
+  const startTimeRef = useRef(0);
+  const layerRef = useRef<HTMLDivElement>(null);
+
+  const pixelsPerUnit = contentBox.width * transform.scale;
+  const strokes = annotations.filter(isInk);
+  const visible = new Set(visibleIds);
+
+  const toScreen = (point: Point) =>
+    contentToScreen(point, transform, contentBox, viewport);
+
+  const getScreenPoint = (e: React.PointerEvent): Point => {
+    const rect = layerRef.current?.getBoundingClientRect();
+    return {
+      x: e.clientX - (rect?.left ?? 0),
+      y: e.clientY - (rect?.top ?? 0),
+    };
+  };
+
+  const toContent = (point: Point) =>
+    screenToContent(point, transform, contentBox, viewport);
+
+  // Only styluses report a meaningful pressure; mice always claim 0.5.
+  const toInkPoint = (e: React.PointerEvent, t: number): InkPoint => ({
+    ...toContent(getScreenPoint(e)),
+    t,
+    ...(e.pointerType === 'pen' ? { pressure: e.pressure } : {}),
+  });
+
+  // Adds every visible stroke under the eraser at `point` to `ids`.
+  const eraseAt = (point: Point, ids: number[]) => [
+    ...ids,
+    ...strokes
+      .filter(
+        (stroke) =>
+          visible.has(stroke.id) &&
+          !ids.includes(stroke.id) &&
+          distanceToPolyline(stroke.points.map(toScreen), point) <=
+            ERASER_RADIUS + (stroke.width * pixelsPerUnit) / 2
+      )
+      .map((stroke) => stroke.id),
+  ];
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (e.button !== 0) return;
+    e.stopPropagation();
+    e.preventDefault();
+    const point = getScreenPoint(e);
+    if (style.mode === 'eraser') {
+      setErasing({ ids: eraseAt(point, []), point: toContent(point) });
+      return;
+    }
+    startTimeRef.current = performance.now();
+    setDraft({
+      id: createAnnotationId(),
+      kind: 'ink',
+      brush: style.mode,
+      color: style.color,
+      width: getInkWidth(style),
+      points: [toInkPoint(e, 0)],
+    });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const point = getScreenPoint(e);
+    setPointer(point);
+    if (erasing) {
+      e.stopPropagation();
+      setErasing({ ids: eraseAt(point, erasing.ids), point: toContent(point) });
+      return;
+    }
+    if (!draft) return;
+    e.stopPropagation();
+    const last = draft.points[draft.points.length - 1];
+    if (last) {
+      const lastOnScreen = toScreen(last);
+      const distance = Math.hypot(
+        point.x - lastOnScreen.x,
+        point.y - lastOnScreen.y
+      );
+      if (distance < SAMPLE_DISTANCE) return;
+    }
+    setDraft({
+      ...draft,
+      points: [
+        ...draft.points,
+        toInkPoint(e, Math.round(performance.now() - startTimeRef.current)),
+      ],
+    });
+  };
+
+  const finishGesture = () => {
+    if (draft) {
+      setDraft(null);
+      onDraw(draft);
+    }
+    if (erasing) {
+      setErasing(null);
+      if (erasing.ids.length > 0) onErase(erasing.ids, erasing.point);
+    }
+  };
+
+  return (
+    <div
+      ref={layerRef}
+      role="button"
+      aria-label="Ink"
+      tabIndex={-1}
+      className="absolute inset-0 z-30 cursor-crosshair"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={finishGesture}
+      onPointerCancel={finishGesture}
+      onPointerLeave={() => {
+        finishGesture();
+        setPointer(null);
+      }}
+      onKeyDown={(e) => {
+        if (e.key === 'Escape') {
+          setDraft(null);
+          setErasing(null);
+        }
+      }}
+    >
+      <svg className="absolute inset-0 w-full h-full overflow-visible pointer-events-none">
+        {erasing &&
+          strokes
+            .filter((stroke) => erasing.ids.includes(stroke.id))
+            .map((stroke) => (
+              <InkPath
+                key={stroke.id}
+                stroke={stroke}
+                points={stroke.points}
+                toScreen={toScreen}
+                pixelsPerUnit={pixelsPerUnit}
+                color={ERASED_COLOR}
+              />
+            ))}
+        {draft && (
+          <InkPath
+            stroke={draft}
+            points={draft.points}
+            toScreen={toScreen}
+            pixelsPerUnit={pixelsPerUnit}
+          />
+        )}
+        {style.mode === 'eraser' && pointer && (
+          <circle
+            cx={pointer.x}
+            cy={pointer.y}
+            r={ERASER_RADIUS}
+            fill="rgba(255,255,255,0.15)"
+            stroke="white"
+            strokeWidth={1.5}
+          />
+        )}
+      </svg>
+    </div>
+  );
+};
@@ -0,0 +1,73 @@
+import React from 'react';
+
+import { ANNOTATION_COLORS } from '../utils/annotations';
+import { INK_MODE_LABELS, INK_WIDTHS, InkMode, InkStyle } from '../utils/ink';
+
+interface InkPaletteProps {
+  style: InkStyle;
+  onChange: (style: InkStyle) => void;
+}
+
+/** Brush, color and width choices for the ink tool. */
+export const InkPalette: React.FC<InkPaletteProps> = ({ style, onChange }) => (
+  <div
+    role="toolbar"
+    aria-label="Ink style"
+    className="fixed top-4 sm:top-[104px] left-1/2 -translate-x-1/2 z-50 flex items-center gap-3 p-2 bg-gray-800 bg-opacity-90 backdrop-blur-sm rounded-xl shadow-2xl border border-gray-700 text-white text-sm"
+  >
+    <div className="flex gap-1">
+      {(Object.keys(INK_MODE_LABELS) as InkMode[]).map((mode) => (
+        <button
+          key={mode}
+          onClick={() => onChange({ ...style, mode })}
+          aria-pressed={style.mode === mode}
+          className={`px-3 py-1 rounded-md transition-colors ${
+            style.mode === mode
+              ? 'bg-cyan-500 text-white'
+              : 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+          }`}
+        >
+          {INK_MODE_LABELS[mode]}
+        </button>
+      ))}
+    </div>
+    {style.mode !== 'eraser' && (
+      <>
+        <div className="w-px h-6 bg-gray-600"></div>
+        <div className="flex gap-1">
+          {ANNOTATION_COLORS.map((color) => (
+            <button
+              key={color}
+              onClick={() => onChange({ ...style, color })}
+              aria-label={`Color ${color}`}
+              aria-pressed={style.color === color}
+              className={`w-6 h-6 rounded-full border-2 ${
+                style.color === color ? 'border-white' : 'border-transparent'
+              }`}
+              style={{ background: color }}
+            />
+          ))}
+        </div>
+        <div className="w-px h-6 bg-gray-600"></div>
+        <div className="flex gap-1">
+          {INK_WIDTHS.map((width, index) => (
+            <button
+              key={width}
+              onClick={() => onChange({ ...style, width })}
+              aria-label={`Width ${index + 1}`}
+              aria-pressed={style.width === width}
+              className={`w-7 h-7 flex items-center justify-center rounded-md ${
+                style.width === width ? 'bg-gray-600' : 'hover:bg-gray-700'
+              }`}
+            >
+              <span
+                className="rounded-full bg-white"
+                style={{ width: 4 + index * 4, height: 4 + index * 4 }}
+              />
+            </button>
+          ))}
+        </div>
+      </>
+    )}
+  </div>
+);
@@ -0,0 +1,115 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+import { CanvasTransform, TimedPoint } from '../types';
+import {
+  ContentBox,
+  Point,
+  Size,
+  contentToScreen,
+  screenToContent,
+} from '../utils/coordinates';
+
+interface LaserPointerProps {
+  transform: CanvasTransform;
+  contentBox: ContentBox;
+  viewport: Size;
+}
+
+const TRAIL_MS = 600;
+const DOT_RADIUS = 7; // pixels
+const LASER_COLOR = '#ef4444';
+
+/**
+ * A red laser dot that replaces the mouse cursor and leaves a short trail
+ * fading behind it. The trail is kept in content space so it stays on the
+ * media while the camera moves. Clicks pass through to the canvas.
+ */
+export const LaserPointer: React.FC<LaserPointerProps> = ({
+  transform,
+  contentBox,
+  viewport,
+}) => {
+  const [trail, setTrail] = useState<TimedPoint[]>([]);
+  const [pointer, setPointer] = useState<Point | null>(null);
+  const [now, setNow] = useState(0);
+  const layerRef = useRef<HTMLDivElement>(null);
+  const isFading = trail.length > 0;
+
+  useEffect(() => {
+    if (!isFading) return;
+    let frame = 0;
+    const tick = (time: number) => {
+      setNow(time);
+      setTrail((prev) => {
+        const fresh = prev.filter((point) => time - point.t < TRAIL_MS);
+        return fresh.length === prev.length ? prev : fresh;
+      });
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isFading]);
+
+  const toScreen = (point: Point) =>
+    contentToScreen(point, transform, contentBox, viewport);
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const rect = layerRef.current?.getBoundingClientRect();
+    const point = screenToContent(
+      { x: e.clientX - (rect?.left ?? 0), y: e.clientY - (rect?.top ?? 0) },
+      transform,
+      contentBox,
+      viewport
+    );
+    const time = performance.now();
+    setPointer(point);
+    setNow(time);
+    setTrail((prev) => [...prev, { ...point, t: time }]);
+  };
+
+  const screenTrail = trail.map((point) => ({
+    ...toScreen(point),
+    life: Math.max(0, 1 - (now - point.t) / TRAIL_MS),
+  }));
+  const dot = pointer && toScreen(pointer);
+
+  return (
+    <div
+      ref={layerRef}
+      className="absolute inset-0 z-30 cursor-none"
+      onPointerMove={handlePointerMove}
+      onPointerLeave={() => setPointer(null)}
+    >
+      <svg className="absolute inset-0 w-full h-full pointer-events-none">
+        {screenTrail.slice(1).map((point, index) => {
+          const previous = screenTrail[index] as (typeof screenTrail)[number];
+          return (
+            <line
+              key={index}
+              x1={previous.x}
+              y1={previous.y}
+              x2={point.x}
+              y2={point.y}
+              stroke={LASER_COLOR}
+              strokeOpacity={point.life * 0.8}
+              strokeWidth={DOT_RADIUS * 1.4 * point.life}
+              strokeLinecap="round"
+            />
+          );
+        })}
+        {dot && (
+          <circle
+            cx={dot.x}
+            cy={dot.y}
+            r={DOT_RADIUS}
+            fill={LASER_COLOR}
+            stroke="white"
+            strokeOpacity={0.6}
+            strokeWidth={1.5}
+            style={{ filter: `drop-shadow(0 0 6px ${LASER_COLOR})` }}
+          />
+        )}
+      </svg>
+    </div>
+  );
+};
@@ -0,0 +1,103 @@
+import React, { useMemo } from 'react';
+
+import { MarkdownInline, parseMarkdown } from '../utils/markdown';
+
+const renderInline = (nodes: MarkdownInline[]): React.ReactNode[] =>
+  nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return node.text;
+      case 'code':
+        return (
+          <code key={index} className="px-1 rounded bg-gray-700 text-cyan-200">
+            {node.text}
+          </code>
+        );
+      case 'strong':
+        return <strong key={index}>{renderInline(node.children)}</strong>;
+      case 'em':
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case 'link':
+        return (
+          <a
+            key={index}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-cyan-300 underline"
+          >
+            {renderInline(node.children)}
+          </a>
+        );
+    }
+  });
+
+const HEADING_CLASSES = {
+  1: 'text-xl font-bold',
+  2: 'text-lg font-semibold',
+  3: 'font-semibold',
+};
+
+export const MarkdownNotes: React.FC<{ source: string }> = ({ source }) => {
+  const blocks = useMemo(() => parseMarkdown(source), [source]);
+  return (
+    <div className="space-y-2">
+      {blocks.map((block, index) => {
+        switch (block.type) {
+          case 'heading':
+            return (
+              <p key={index} className={HEADING_CLASSES[block.level]}>
+                {renderInline(block.children)}
+              </p>
+            );
+          case 'paragraph':
+            return <p key={index}>{renderInline(block.children)}</p>;
+          case 'list': {
+            const List = block.ordered ? 'ol' : 'ul';
+            return (
+              <List
+                key={index}
+                className={`pl-5 space-y-1 ${block.ordered ? 'list-decimal' : 'list-disc'}`}
+              >
+                {block.items.map((item, itemIndex) => (
+                  <li key={itemIndex}>{renderInline(item)}</li>
+                ))}
+              </List>
+            );
+          }
+        }
+      })}
+    </div>
+  );
+};
+
+interface SpeakerNotesProps {
+  slideNotes: string;
+  stepNotes: string;
+  className?: string;
+}
+
+/** Read-only notes for the current moment of a replay: step first. */
+export const SpeakerNotes: React.FC<SpeakerNotesProps> = ({
+  slideNotes,
+  stepNotes,
+  className = '',
+}) => {
+  if (!slideNotes.trim() && !stepNotes.trim()) {
+    return (
+      <p className={`text-gray-500 ${className}`}>No notes for this step.</p>
+    );
+  }
+  return (
+    <div className={`space-y-4 ${className}`}>
+      {stepNotes.trim() && <MarkdownNotes source={stepNotes} />}
+      {slideNotes.trim() && (
+        <div
+          className={stepNotes.trim() ? 'pt-3 border-t border-gray-700' : ''}
+        >
+          <MarkdownNotes source={slideNotes} />
+        </div>
+      )}
+    </div>
+  );
+};
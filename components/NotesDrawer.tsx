@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+
+import { MarkdownNotes } from './Notes';
+
+interface NotesDrawerProps {
+  slideNumber: number;
+  slideNotes: string;
+  onSlideNotesChange: (notes: string) => void;
+  // The step selected in the sequence editor, if any.
+  step: { number: number; notes: string } | null;
+  onStepNotesChange: (notes: string) => void;
+  onClose: () => void;
+}
+
+const NotesField: React.FC<{
+  label: string;
+  value: string;
+  isPreview: boolean;
+  placeholder: string;
+  onChange: (value: string) => void;
+}> = ({ label, value, isPreview, placeholder, onChange }) => (
+  <section className="space-y-1">
+    <h3 className="text-sm font-medium text-gray-300">{label}</h3>
+    {isPreview ? (
+      <div className="min-h-[6rem] max-h-48 overflow-y-auto p-2 rounded bg-gray-900 text-sm">
+        {value.trim() ? (
+          <MarkdownNotes source={value} />
+        ) : (
+          <span className="text-gray-500">Nothing yet.</span>
+        )}
+      </div>
+    ) : (
+      <textarea
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={placeholder}
+        aria-label={label}
+        rows={5}
+        className="w-full p-2 rounded bg-gray-900 text-sm text-white font-mono resize-y focus:outline-none focus:ring-2 focus:ring-cyan-500"
+      />
+    )}
+  </section>
+);
+
+export const NotesDrawer: React.FC<NotesDrawerProps> = ({
+  slideNumber,
+  slideNotes,
+  onSlideNotesChange,
+  step,
+  onStepNotesChange,
+  onClose,
+}) => {
+  const [isPreview, setIsPreview] = useState(false);
+
+  return (
+    <aside
+      aria-label="Speaker notes"
+      className="fixed left-0 sm:left-4 bottom-[120px] sm:bottom-4 z-40 w-full sm:w-[28rem] max-h-[70vh] overflow-y-auto bg-gray-800 bg-opacity-95 backdrop-blur-sm border border-gray-700 sm:rounded-xl shadow-2xl text-white"
+    >
+      <div className="flex items-center justify-between p-3 border-b border-gray-700">
+        <h2 className="font-semibold">Speaker Notes</h2>
+        <div className="flex gap-2">
+          <button
+            onClick={() => setIsPreview((prev) => !prev)}
+            className="px-3 py-1 text-sm rounded-md bg-gray-700 hover:bg-gray-600 transition-colors"
+          >
+            {isPreview ? 'Edit' : 'Preview'}
+          </button>
+          <button
+            onClick={onClose}
+            className="px-3 py-1 text-sm rounded-md bg-gray-700 hover:bg-gray-600 transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+      <div className="p-3 space-y-4">
+        <NotesField
+          label={`Slide ${slideNumber}`}
+          value={slideNotes}
+          isPreview={isPreview}
+          placeholder="Talking points for this slide. Markdown: **bold**, *italic*, - lists, # headings"
+          onChange={onSlideNotesChange}
+        />
+        {step ? (
+          <NotesField
+            label={`Step ${step.number}`}
+            value={step.notes}
+            isPreview={isPreview}
+            placeholder="What to say when this step plays (optional)"
+            onChange={onStepNotesChange}
+          />
+        ) : (
+          <p className="text-xs text-gray-400">
+            Select a step in the sequence editor to add notes for it.
+          </p>
+        )}
+      </div>
+    </aside>
+  );
+};
@@ -0,0 +1,220 @@
+import React, { useCallback, useEffect, useState } from 'react';
+
+import { ClickRecord, ReplayCursorState, Slide, Tool } from '../types';
+import { useAutoReplay } from '../hooks/useAutoReplay';
+import { useStepReplay } from '../hooks/useStepReplay';
+import { TweenOptions } from '../hooks/useTween';
+import { DEFAULT_ANNOTATION_STYLE } from '../utils/annotations';
+import { DEFAULT_INK_STYLE } from '../utils/ink';
+import { DEFAULT_SPOTLIGHT_STYLE } from '../utils/spotlight';
+import {
+  getSlideStatesAtStep,
+  slideStateFromToolState,
+} from '../utils/sequence';
+
+import { Canvas } from './Canvas';
+import { PlaybackControls, ReplayControls } from './Replay';
+import { PlayIcon, StepIcon } from './icons';
+
+interface PlayerProps {
+  slides: Slide[];
+  sequence: ClickRecord[];
+}
+
+const noop = () => {};
+
+/**
+ * Read-only replay of a recorded walkthrough, as embedded in exported HTML
+ * files: auto replay and step-by-step replay, nothing else.
+ */
+export const Player: React.FC<PlayerProps> = ({
+  slides: initialSlides,
+  sequence,
+}) => {
+  const [slides, setSlides] = useState(() =>
+    getSlideStatesAtStep(initialSlides, sequence, 0)
+  );
+  const [currentSlideIndex, setCurrentSlideIndex] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [isStepping, setIsStepping] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const [playbackSpeed, setPlaybackSpeed] = useState(1);
+  const [currentStep, setCurrentStep] = useState(0);
+  const [replayCursor, setReplayCursor] = useState<ReplayCursorState | null>(
+    null
+  );
+  const [stepAnimation, setStepAnimation] = useState<TweenOptions | null>(null);
+
+  const reset = () => {
+    setSlides((prev) => getSlideStatesAtStep(prev, sequence, 0));
+    setCurrentSlideIndex(sequence[0]?.slideIndex ?? 0);
+    setCurrentStep(0);
+    setReplayCursor(null);
+  };
+
+  const handlePlay = () => {
+    reset();
+    setIsPaused(false);
+    setIsPlaying(true);
+  };
+
+  const handleStepThrough = () => {
+    reset();
+    setIsStepping(true);
+  };
+
+  const handleStop = () => {
+    setIsPlaying(false);
+    setIsStepping(false);
+    setIsPaused(false);
+    setReplayCursor(null);
+  };
+
+  const handleNextStep = useCallback(
+    () => setCurrentStep((prev) => Math.min(prev + 1, sequence.length - 1)),
+    [sequence.length]
+  );
+  const handlePrevStep = useCallback(
+    () => setCurrentStep((prev) => Math.max(prev - 1, 0)),
+    []
+  );
+
+  useEffect(() => {
+    if (!isStepping) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'ArrowRight' || event.key === ' ') {
+        event.preventDefault();
+        handleNextStep();
+      } else if (event.key === 'ArrowLeft') {
+        event.preventDefault();
+        handlePrevStep();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isStepping, handleNextStep, handlePrevStep]);
+
+  useStepReplay({
+    isStepping,
+    currentStep,
+    sequence,
+    onSlideChange: setCurrentSlideIndex,
+    onCursorChange: setReplayCursor,
+    onAnimationChange: setStepAnimation,
+    onSlidesChange: setSlides,
+  });
+
+  useAutoReplay({
+    isPlaying,
+    isPaused,
+    speed: playbackSpeed,
+    startStep: currentStep,
+    sequence,
+    currentSlideIndex,
+    onStepChange: setCurrentStep,
+    onSlideChange: setCurrentSlideIndex,
+    onCursorChange: setReplayCursor,
+    onApplyStep: (record, animation) => {
+      setStepAnimation(animation);
+      setSlides((prev) =>
+        prev.map((slide, index) =>
+          index === record.slideIndex
+            ? { ...slide, ...slideStateFromToolState(record.toolState) }
+            : slide
+        )
+      );
+    },
+    onFinish: () => setIsPlaying(false),
+  });
+
+  const isReplaying = isPlaying || isStepping;
+
+  return (
+    <div className="h-screen w-screen bg-gray-900 overflow-hidden relative">
+      <div
+        className="w-full h-full flex transition-transform duration-500 ease-in-out"
+        style={{ transform: `translateX(-${currentSlideIndex * 100}%)` }}
+      >
+        {slides.map((slide, index) => (
+          <div key={slide.id} className="w-full h-full flex-shrink-0">
+            <Canvas
+              mediaUrl={slide.mediaUrl}
+              mediaType={slide.mediaType}
+              transform={slide.transform}
+              spotlight={slide.spotlight}
+              annotations={slide.annotations}
+              visibleAnnotationIds={slide.visibleAnnotationIds}
+              video={slide.video}
+              annotationStyle={DEFAULT_ANNOTATION_STYLE}
+              inkStyle={DEFAULT_INK_STYLE}
+              spotlightStyle={DEFAULT_SPOTLIGHT_STYLE}
+              activeTool={Tool.NONE}
+              isCapturing={false}
+              isPlaying={true}
+              replayCursor={
+                replayCursor?.slideIndex === index ? replayCursor : null
+              }
+              animation={isReplaying ? stepAnimation : null}
+              onTransformChange={noop}
+              onSpotlightChange={noop}
+              onAnnotationsChange={noop}
+              onRecordClick={noop}
+              onVideoAction={noop}
+              onPointerMove={noop}
+              onFiles={noop}
+            />
+          </div>
+        ))}
+      </div>
+      {isPlaying && (
+        <PlaybackControls
+          isPaused={isPaused}
+          speed={playbackSpeed}
+          currentStep={currentStep}
+          totalSteps={sequence.length}
+          onPauseToggle={() => setIsPaused((prev) => !prev)}
+          onStop={handleStop}
+          onSpeedChange={setPlaybackSpeed}
+        />
+      )}
+      {isStepping && (
+        <ReplayControls
+          onNext={handleNextStep}
+          onPrev={handlePrevStep}
+          onExit={handleStop}
+          currentStep={currentStep}
+          totalSteps={sequence.length}
+        />
+      )}
+      {!isReplaying && (
+        <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 bg-gray-800 bg-opacity-80 backdrop-blur-sm p-3 rounded-xl shadow-2xl border border-gray-700 flex items-center gap-3 text-white">
+          {sequence.length > 0 ? (
+            <>
+              <button
+                onClick={handlePlay}
+                className="flex items-center gap-2 px-4 py-2 bg-cyan-600 hover:bg-cyan-700 rounded-lg transition-colors"
+              >
+                <PlayIcon className="w-5 h-5" />
+                Play
+              </button>
+              <button
+                onClick={handleStepThrough}
+                className="flex items-center gap-2 px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors"
+              >
+                <StepIcon className="w-5 h-5" />
+                Step Through
+              </button>
+              <span className="text-sm text-gray-300">
+                {sequence.length} {sequence.length === 1 ? 'step' : 'steps'}
+              </span>
+            </>
+          ) : (
+            <span className="text-sm text-gray-300">
+              This presentation has no recorded steps.
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
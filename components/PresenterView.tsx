@@ -0,0 +1,159 @@
+import React, { useEffect, useState } from 'react';
+
+import { ClickRecord, Slide, Tool } from '../types';
+import { ElementSize } from '../hooks/useElementSize';
+import { AudienceFrame } from '../utils/presenterChannel';
+import { describeStep } from '../utils/sequence';
+import { DEFAULT_ANNOTATION_STYLE } from '../utils/annotations';
+import { DEFAULT_INK_STYLE } from '../utils/ink';
+import { DEFAULT_SPOTLIGHT_STYLE } from '../utils/spotlight';
+
+import { Canvas } from './Canvas';
+import { SpeakerNotes } from './Notes';
+import { ReplayControls } from './Replay';
+import { StepPreview } from './StepPreview';
+
+interface PresenterViewProps {
+  frame: AudienceFrame;
+  slides: Slide[];
+  sequence: ClickRecord[];
+  currentStep: number;
+  viewportSize: ElementSize;
+  onNext: () => void;
+  onPrev: () => void;
+  onExit: () => void;
+}
+
+const NEXT_PREVIEW_WIDTH = 320;
+const noop = () => undefined;
+
+const formatElapsed = (ms: number) => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}`
+    : `${minutes}:${seconds}`;
+};
+
+/**
+ * The presenter's side of a presentation: what the audience currently sees,
+ * the upcoming step, speaker notes and a running clock. The audience window only mirrors
+ * `frame`; every control lives here.
+ */
+export const PresenterView: React.FC<PresenterViewProps> = ({
+  frame,
+  slides,
+  sequence,
+  currentStep,
+  viewportSize,
+  onNext,
+  onPrev,
+  onExit,
+}) => {
+  const [startedAt] = useState(() => Date.now());
+  const [now, setNow] = useState(startedAt);
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  const current = sequence[currentStep];
+  const next = sequence[currentStep + 1];
+
+  return (
+    <div
+      role="dialog"
+      aria-label="Presenter view"
+      className="fixed inset-0 z-40 bg-gray-900 text-white flex flex-col"
+    >
+      <header className="flex items-center gap-6 px-6 py-3 border-b border-gray-700">
+        <h2 className="font-semibold">Presenter view</h2>
+        <span className="text-gray-300">
+          Step {currentStep + 1} / {sequence.length}
+        </span>
+        <span
+          className="ml-auto font-mono text-2xl tabular-nums"
+          title="Elapsed time"
+        >
+          {formatElapsed(now - startedAt)}
+        </span>
+      </header>
+      <div className="flex-grow flex flex-col lg:flex-row gap-6 p-6 pb-28 min-h-0">
+        <section className="flex-grow flex flex-col min-h-0 min-w-0">
+          <h3 className="text-sm uppercase tracking-wide text-gray-400 mb-2">
+            Now{current ? ` — ${describeStep(current)}` : ''}
+          </h3>
+          <div className="flex-grow min-h-0 rounded-lg overflow-hidden border border-gray-700">
+            <Canvas
+              mediaUrl={frame.mediaUrl}
+              mediaType={frame.mediaType}
+              transform={frame.transform}
+              spotlight={frame.spotlight}
+              annotations={frame.annotations}
+              visibleAnnotationIds={frame.visibleAnnotationIds}
+              video={frame.video && { ...frame.video, isMuted: true }}
+              annotationStyle={DEFAULT_ANNOTATION_STYLE}
+              inkStyle={DEFAULT_INK_STYLE}
+              spotlightStyle={DEFAULT_SPOTLIGHT_STYLE}
+              activeTool={Tool.NONE}
+              isCapturing={false}
+              isPlaying={true}
+              replayCursor={frame.replayCursor}
+              animation={frame.animation}
+              onTransformChange={noop}
+              onSpotlightChange={noop}
+              onAnnotationsChange={noop}
+              onRecordClick={noop}
+              onVideoAction={noop}
+              onPointerMove={noop}
+              onFiles={noop}
+            />
+          </div>
+        </section>
+        <aside
+          className="flex-shrink-0 flex flex-col gap-2 min-h-0"
+          style={{ width: NEXT_PREVIEW_WIDTH }}
+        >
+          <h3 className="text-sm uppercase tracking-wide text-gray-400">
+            Next
+          </h3>
+          {next ? (
+            <>
+              <StepPreview
+                record={next}
+                slide={slides[next.slideIndex]}
+                viewportSize={viewportSize}
+                width={NEXT_PREVIEW_WIDTH}
+              />
+              <p className="text-sm text-gray-300">
+                Slide {next.slideIndex + 1} · {describeStep(next)}
+              </p>
+            </>
+          ) : (
+            <p className="text-sm text-gray-400">End of the sequence.</p>
+          )}
+          <h3 className="mt-4 text-sm uppercase tracking-wide text-gray-400">
+            Notes
+          </h3>
+          <SpeakerNotes
+            slideNotes={
+              current ? (slides[current.slideIndex]?.notes ?? '') : ''
+            }
+            stepNotes={current?.notes ?? ''}
+            className="flex-grow min-h-0 overflow-y-auto text-lg leading-relaxed"
+          />
+        </aside>
+      </div>
+      <ReplayControls
+        onNext={onNext}
+        onPrev={onPrev}
+        onExit={onExit}
+        currentStep={currentStep}
+        totalSteps={sequence.length}
+      />
+    </div>
+  );
+};
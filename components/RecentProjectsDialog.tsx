@@ -0,0 +1,109 @@
+import React from 'react';
+
+import { StoredProjectSummary } from '../utils/projectStore';
+
+interface RecentProjectsDialogProps {
+  projects: StoredProjectSummary[];
+  isRestorePrompt: boolean;
+  onOpen: (id: string) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  });
+
+export const RecentProjectsDialog: React.FC<RecentProjectsDialogProps> = ({
+  projects,
+  isRestorePrompt,
+  onOpen,
+  onDelete,
+  onClose,
+}) => {
+  const [latest] = projects;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black bg-opacity-60 p-4">
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="recent-projects-title"
+        className="w-full max-w-lg bg-gray-800 rounded-xl shadow-2xl border border-gray-700 p-4 sm:p-6 text-white"
+      >
+        <h2 id="recent-projects-title" className="text-xl font-semibold mb-4">
+          {isRestorePrompt ? 'Restore previous session?' : 'Recent projects'}
+        </h2>
+        {isRestorePrompt && latest && (
+          <div className="mb-6 flex flex-col sm:flex-row sm:items-center gap-3">
+            <p className="flex-grow text-gray-300">
+              <span className="font-semibold text-white">{latest.name}</span>{' '}
+              was last saved {formatDate(latest.updatedAt)}.
+            </p>
+            <div className="flex gap-2">
+              <button
+                onClick={() => onOpen(latest.id)}
+                className="px-4 py-2 bg-cyan-600 hover:bg-cyan-700 rounded-lg font-medium transition-colors"
+              >
+                Restore
+              </button>
+              <button
+                onClick={onClose}
+                className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg font-medium transition-colors"
+              >
+                Start fresh
+              </button>
+            </div>
+          </div>
+        )}
+        {projects.length === 0 ? (
+          <p className="text-gray-400">No saved projects yet.</p>
+        ) : (
+          <ul className="space-y-2 max-h-80 overflow-y-auto">
+            {projects.map((project) => (
+              <li
+                key={project.id}
+                className="flex items-center gap-3 p-2 bg-gray-700 rounded-lg"
+              >
+                <div className="flex-grow min-w-0">
+                  <div className="font-medium truncate">{project.name}</div>
+                  <div className="text-xs text-gray-400">
+                    {formatDate(project.updatedAt)} · {project.slideCount}{' '}
+                    {project.slideCount === 1 ? 'slide' : 'slides'} ·{' '}
+                    {project.stepCount}{' '}
+                    {project.stepCount === 1 ? 'step' : 'steps'}
+                  </div>
+                </div>
+                <button
+                  onClick={() => onOpen(project.id)}
+                  className="px-3 py-1 bg-cyan-600 hover:bg-cyan-700 rounded-md text-sm font-medium transition-colors"
+                >
+                  Open
+                </button>
+                <button
+                  onClick={() => onDelete(project.id)}
+                  className="px-3 py-1 bg-gray-600 hover:bg-red-600 rounded-md text-sm font-medium transition-colors"
+                  title={`Delete ${project.name}`}
+                >
+                  Delete
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        {!isRestorePrompt && (
+          <div className="mt-4 flex justify-end">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg font-medium transition-colors"
+            >
+              Close
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,14 @@
 import React from 'react';
 
-import { ChevronLeftIcon, ChevronRightIcon } from './icons';
+import { PLAYBACK_SPEEDS } from '../utils/timing';
+
+import {
+  ChevronLeftIcon,
+  ChevronRightIcon,
+  PauseIcon,
+  PlayIcon,
+  StopIcon,
+} from './icons';
 
 interface ReplayControlsProps {
   onNext: () => void;
@@ -47,4 +55,64 @@ export const ReplayControls: React.FC<ReplayControlsProps> = ({
       </button>
     </div>
   );
-};
\ No newline at end of file
+};
+
+interface PlaybackControlsProps {
+  isPaused: boolean;
+  speed: number;
+  currentStep: number;
+  totalSteps: number;
+  onPauseToggle: () => void;
+  onStop: () => void;
+  onSpeedChange: (speed: number) => void;
+}
+
+export const PlaybackControls: React.FC<PlaybackControlsProps> = ({
+  isPaused,
+  speed,
+  currentStep,
+  totalSteps,
+  onPauseToggle,
+  onStop,
+  onSpeedChange,
+}) => {
+  return (
+    <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 bg-gray-800 bg-opacity-80 backdrop-blur-sm p-3 rounded-xl shadow-2xl border border-gray-700 flex items-center gap-4">
+      <button
+        onClick={onPauseToggle}
+        className="p-2 bg-gray-700 rounded-full hover:bg-gray-600 transition-all"
+        title={isPaused ? 'Resume Replay' : 'Pause Replay'}
+      >
+        {isPaused ? (
+          <PlayIcon className="w-6 h-6 text-white" />
+        ) : (
+          <PauseIcon className="w-6 h-6 text-white" />
+        )}
+      </button>
+      <button
+        onClick={onStop}
+        className="p-2 bg-gray-700 rounded-full hover:bg-red-600 transition-all"
+        title="Stop Replay"
+      >
+        <StopIcon className="w-6 h-6 text-white" />
+      </button>
+      <div className="text-white font-semibold">
+        Step: {currentStep + 1} / {totalSteps}
+      </div>
+      <label className="flex items-center gap-2 text-sm text-gray-300">
+        Speed
+        <select
+          value={speed}
+          onChange={(e) => onSpeedChange(Number(e.target.value))}
+          className="bg-gray-700 text-white rounded-md px-2 py-1"
+        >
+          {PLAYBACK_SPEEDS.map((option) => (
+            <option key={option} value={option}>
+              {option}×
+            </option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+};
@@ -0,0 +1,82 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+
+import { EasingName, TimedPoint } from '../types';
+import { useTween } from '../hooks/useTween';
+import { CURSOR_RIPPLE_MS, interpolateCursor } from '../utils/animation';
+import { Point } from '../utils/coordinates';
+import { getPathDuration, getPointAt } from '../utils/path';
+
+interface ReplayCursorProps {
+  x: number;
+  y: number;
+  travelMs: number;
+  easing: EasingName;
+  path: TimedPoint[];
+  clickId: number | null;
+  // Maps the content-space position to canvas pixels.
+  toScreen: (point: Point) => Point;
+}
+
+/**
+ * The yellow replay pointer. It glides along an eased arc to each new
+ * position, or retraces a recorded path when there is one, and plays a
+ * ripple whenever `clickId` changes. Movement happens in content space so
+ * the pointer stays on its target while the camera moves.
+ */
+export const ReplayCursor: React.FC<ReplayCursorProps> = ({
+  x,
+  y,
+  travelMs,
+  easing,
+  path,
+  clickId,
+  toScreen,
+}) => {
+  const target = useMemo(() => ({ x, y }), [x, y]);
+  const isFollowingPath = getPathDuration(path) > 0;
+  const interpolate = useMemo(
+    () =>
+      isFollowingPath
+        ? (_from: Point, _to: Point, t: number) =>
+            getPointAt(path, t * getPathDuration(path))
+        : interpolateCursor,
+    [isFollowingPath, path]
+  );
+  const position = useTween(target, interpolate, {
+    durationMs: travelMs,
+    // A recorded path already carries the presenter's own pace.
+    easing: isFollowingPath ? 'linear' : easing,
+  });
+  const screenPosition = toScreen(position);
+  const rippleRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const ripple = rippleRef.current;
+    if (clickId === null || typeof ripple?.animate !== 'function') return;
+    const animation = ripple.animate(
+      [
+        { transform: 'scale(0.5)', opacity: 0.9 },
+        { transform: 'scale(3)', opacity: 0 },
+      ],
+      { duration: CURSOR_RIPPLE_MS, easing: 'ease-out' }
+    );
+    return () => animation.cancel();
+  }, [clickId]);
+
+  return (
+    <div
+      className="absolute z-50 w-8 h-8 pointer-events-none"
+      style={{
+        left: 0,
+        top: 0,
+        transform: `translate(${screenPosition.x - 16}px, ${screenPosition.y - 16}px)`,
+      }}
+    >
+      <div
+        ref={rippleRef}
+        className="absolute inset-0 rounded-full border-4 border-yellow-300 opacity-0"
+      />
+      <div className="w-full h-full rounded-full bg-yellow-400 border-2 border-white shadow-lg" />
+    </div>
+  );
+};
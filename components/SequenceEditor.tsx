@@ -0,0 +1,374 @@
+import React, { useState } from 'react';
+
+import {
+  ClickRecord,
+  ClickSequence,
+  EasingName,
+  Slide,
+  StepTiming,
+} from '../types';
+import { ElementSize } from '../hooks/useElementSize';
+import { CaptureTarget, describeStep, isNoOpMove } from '../utils/sequence';
+import { EASING_LABELS } from '../utils/animation';
+import { DEFAULT_SEQUENCE_NAME } from '../utils/sequences';
+
+import { StepPreview } from './StepPreview';
+
+interface SequenceEditorProps {
+  sequences: ClickSequence[];
+  activeSequenceId: string;
+  onPickSequence: (id: string) => void;
+  onCreateSequence: () => void;
+  onRenameSequence: (name: string) => void;
+  onDuplicateSequence: () => void;
+  onDeleteSequence: () => void;
+  /** Steps of the active sequence. */
+  sequence: ClickRecord[];
+  slides: Slide[];
+  viewportSize: ElementSize;
+  selectedIndex: number | null;
+  captureTarget: CaptureTarget;
+  isCapturing: boolean;
+  onSelect: (index: number) => void;
+  onDelete: (index: number) => void;
+  onDuplicate: (index: number) => void;
+  /** Moves a step in front of the one at `beforeIndex`. */
+  onMove: (fromIndex: number, beforeIndex: number) => void;
+  onRecapture: (index: number) => void;
+  onInsert: (index: number) => void;
+  onTimingChange: (stepId: number, timing: Partial<StepTiming>) => void;
+  onPlayFrom: (index: number) => void;
+  onCancelCapture: () => void;
+  onClose: () => void;
+}
+
+const THUMBNAIL_WIDTH = 96;
+
+const DurationField: React.FC<{
+  label: string;
+  title: string;
+  value: number;
+  onChange: (value: number) => void;
+}> = ({ label, title, value, onChange }) => (
+  <label className="flex items-center gap-1" title={title}>
+    {label}
+    <input
+      type="number"
+      min={0}
+      step={100}
+      value={value}
+      onChange={(e) => onChange(Math.max(0, Number(e.target.value)))}
+      className="w-16 bg-gray-800 text-white rounded px-1 py-0.5"
+    />
+    ms
+  </label>
+);
+
+const describeCaptureTarget = (target: CaptureTarget) => {
+  switch (target.mode) {
+    case 'append':
+      return null;
+    case 'insert':
+      return `New steps will be inserted at position ${target.index + 1}.`;
+    case 'replace':
+      return `The next click replaces step ${target.index + 1}.`;
+  }
+};
+
+export const SequenceEditor: React.FC<SequenceEditorProps> = ({
+  sequences,
+  activeSequenceId,
+  onPickSequence,
+  onCreateSequence,
+  onRenameSequence,
+  onDuplicateSequence,
+  onDeleteSequence,
+  sequence,
+  slides,
+  viewportSize,
+  selectedIndex,
+  captureTarget,
+  isCapturing,
+  onSelect,
+  onDelete,
+  onDuplicate,
+  onMove,
+  onRecapture,
+  onInsert,
+  onTimingChange,
+  onPlayFrom,
+  onCancelCapture,
+  onClose,
+}) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const captureMessage = isCapturing
+    ? describeCaptureTarget(captureTarget)
+    : null;
+
+  // A drop lands in front of the row it is over, as its top border shows.
+  const handleDrop = (beforeIndex: number) => {
+    if (dragIndex !== null && !isNoOpMove(dragIndex, beforeIndex)) {
+      onMove(dragIndex, beforeIndex);
+    }
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+  const dropTargetProps = (beforeIndex: number) => ({
+    onDragOver: (e: React.DragEvent) => {
+      e.preventDefault();
+      setDropIndex(beforeIndex);
+    },
+    onDragLeave: () => setDropIndex(null),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      handleDrop(beforeIndex);
+    },
+  });
+  const isDropTarget = (beforeIndex: number) =>
+    dragIndex !== null &&
+    dropIndex === beforeIndex &&
+    !isNoOpMove(dragIndex, beforeIndex);
+
+  const actionClasses =
+    'px-2 py-1 text-xs font-medium rounded-md bg-gray-600 hover:bg-gray-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+  const activeName =
+    sequences.find((item) => item.id === activeSequenceId)?.name ?? '';
+
+  return (
+    <aside
+      aria-label="Click sequence"
+      className="fixed right-0 top-0 sm:top-[88px] bottom-[120px] sm:bottom-4 z-40 w-full sm:w-96 bg-gray-800 bg-opacity-95 backdrop-blur-sm border-l border-gray-700 sm:rounded-l-xl shadow-2xl flex flex-col text-white"
+    >
+      <div className="flex items-center justify-between p-3 border-b border-gray-700">
+        <h2 className="font-semibold">
+          Click Sequence ({sequence.length}{' '}
+          {sequence.length === 1 ? 'step' : 'steps'})
+        </h2>
+        <button
+          onClick={onClose}
+          className="px-3 py-1 text-sm rounded-md bg-gray-700 hover:bg-gray-600 transition-colors"
+        >
+          Close
+        </button>
+      </div>
+      <div className="flex flex-col gap-2 p-3 border-b border-gray-700 text-sm">
+        <div className="flex items-center gap-2">
+          <select
+            value={activeSequenceId}
+            onChange={(e) => onPickSequence(e.target.value)}
+            aria-label="Active sequence"
+            className="flex-grow min-w-0 bg-gray-700 text-white rounded px-2 py-1"
+          >
+            {sequences.map((item) => (
+              <option key={item.id} value={item.id}>
+                {item.name} ({item.steps.length})
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={onCreateSequence}
+            className={actionClasses}
+            title="Add an empty sequence and make it active"
+          >
+            New
+          </button>
+          <button
+            onClick={onDuplicateSequence}
+            className={actionClasses}
+            title="Copy this sequence and its steps"
+          >
+            Duplicate
+          </button>
+          <button
+            onClick={onDeleteSequence}
+            disabled={sequences.length <= 1}
+            className={actionClasses}
+            title={
+              sequences.length <= 1
+                ? 'A presentation keeps at least one sequence'
+                : 'Delete this sequence and its steps'
+            }
+          >
+            Delete
+          </button>
+        </div>
+        <label className="flex items-center gap-2">
+          Name
+          <input
+            type="text"
+            value={activeName}
+            onChange={(e) => onRenameSequence(e.target.value)}
+            // A sequence is never left without a name.
+            onBlur={(e) => {
+              if (!e.target.value.trim()) {
+                onRenameSequence(DEFAULT_SEQUENCE_NAME);
+              }
+            }}
+            className="flex-grow min-w-0 bg-gray-700 text-white rounded px-2 py-1"
+          />
+        </label>
+      </div>
+      {captureMessage && (
+        <div className="flex items-center gap-2 p-3 bg-red-900 bg-opacity-60 text-sm">
+          <span className="flex-grow">{captureMessage}</span>
+          <button onClick={onCancelCapture} className={actionClasses}>
+            Cancel
+          </button>
+        </div>
+      )}
+      <div className="p-3 border-b border-gray-700">
+        <button
+          onClick={() => onInsert(0)}
+          className={actionClasses}
+          title="Capture new steps before the first step"
+        >
+          + Insert at start
+        </button>
+      </div>
+      {sequence.length === 0 ? (
+        <p className="p-4 text-gray-400 text-sm">
+          No steps yet. Start capturing and click on a slide to record steps.
+        </p>
+      ) : (
+        <ol className="flex-grow overflow-y-auto p-3 space-y-2">
+          {sequence.map((record, index) => (
+            <li
+              key={record.id}
+              draggable
+              onDragStart={(e) => {
+                e.dataTransfer.effectAllowed = 'move';
+                setDragIndex(index);
+              }}
+              {...dropTargetProps(index)}
+              onDragEnd={() => {
+                setDragIndex(null);
+                setDropIndex(null);
+              }}
+              className={`rounded-lg border transition-colors cursor-grab ${
+                selectedIndex === index
+                  ? 'border-cyan-400 bg-gray-700'
+                  : 'border-transparent bg-gray-700 bg-opacity-60'
+              } ${isDropTarget(index) ? 'border-t-cyan-400 border-t-4' : ''} ${
+                dragIndex === index ? 'opacity-50' : ''
+              }`}
+            >
+              <button
+                onClick={() => onSelect(index)}
+                className="w-full flex items-center gap-3 p-2 text-left"
+                title="Preview this step"
+              >
+                <span className="w-6 text-center text-sm font-semibold text-gray-300">
+                  {index + 1}
+                </span>
+                <StepPreview
+                  record={record}
+                  slide={slides[record.slideIndex]}
+                  viewportSize={viewportSize}
+                  width={THUMBNAIL_WIDTH}
+                />
+                <span className="min-w-0">
+                  <span className="block text-sm font-medium">
+                    Slide {record.slideIndex + 1}
+                  </span>
+                  <span className="block text-xs text-gray-400 truncate">
+                    {describeStep(record)}
+                  </span>
+                </span>
+              </button>
+              <div className="flex flex-wrap items-center gap-2 px-2 pb-2 text-xs text-gray-300">
+                <DurationField
+                  label="Move"
+                  title="Cursor travel before the click"
+                  value={record.timing.transitionMs}
+                  onChange={(transitionMs) =>
+                    onTimingChange(record.id, { transitionMs })
+                  }
+                />
+                <DurationField
+                  label="Zoom"
+                  title="Camera and spotlight animation after the click"
+                  value={record.timing.animationMs}
+                  onChange={(animationMs) =>
+                    onTimingChange(record.id, { animationMs })
+                  }
+                />
+                <DurationField
+                  label="Hold"
+                  title="Pause before the next step"
+                  value={record.timing.dwellMs}
+                  onChange={(dwellMs) => onTimingChange(record.id, { dwellMs })}
+                />
+                <select
+                  value={record.timing.easing}
+                  onChange={(e) =>
+                    onTimingChange(record.id, {
+                      easing: e.target.value as EasingName,
+                    })
+                  }
+                  className="bg-gray-800 text-white rounded px-1 py-0.5"
+                  aria-label="Easing"
+                >
+                  {(Object.keys(EASING_LABELS) as EasingName[]).map(
+                    (easing) => (
+                      <option key={easing} value={easing}>
+                        {EASING_LABELS[easing]}
+                      </option>
+                    )
+                  )}
+                </select>
+              </div>
+              <div className="flex flex-wrap gap-1 px-2 pb-2">
+                <button
+                  onClick={() => onPlayFrom(index)}
+                  className={actionClasses}
+                  title="Auto replay starting at this step"
+                >
+                  ▶ Play from here
+                </button>
+                <button
+                  onClick={() => onDuplicate(index)}
+                  className={actionClasses}
+                >
+                  Duplicate
+                </button>
+                <button
+                  onClick={() => onRecapture(index)}
+                  className={actionClasses}
+                  title="Replace this step with the next captured click"
+                >
+                  Re-capture
+                </button>
+                <button
+                  onClick={() => onInsert(index + 1)}
+                  className={actionClasses}
+                  title="Capture new steps after this one"
+                >
+                  + Insert after
+                </button>
+                <button
+                  onClick={() => onDelete(index)}
+                  className={`${actionClasses} hover:bg-red-600`}
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+          {dragIndex !== null && (
+            // Drop zone for moving a step to the end.
+            <li
+              {...dropTargetProps(sequence.length)}
+              aria-hidden="true"
+              className={`h-8 rounded-lg ${
+                isDropTarget(sequence.length)
+                  ? 'border-t-4 border-t-cyan-400'
+                  : ''
+              }`}
+            />
+          )}
+        </ol>
+      )}
+    </aside>
+  );
+};
@@ -0,0 +1,209 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+import {
+  CHORD_TIMEOUT_MS,
+  CommandId,
+  DEFAULT_SHORTCUT_SETTINGS,
+  KEY_PROFILES,
+  KeyBindings,
+  SHORTCUT_COMMANDS,
+  ShortcutSettings,
+  formatBinding,
+  getKeyCombo,
+} from '../utils/shortcuts';
+
+interface ShortcutsDialogProps {
+  settings: ShortcutSettings;
+  bindings: KeyBindings;
+  onChange: (settings: ShortcutSettings) => void;
+  onClose: () => void;
+}
+
+const GROUPS = [...new Set(SHORTCUT_COMMANDS.map(({ group }) => group))];
+
+export const ShortcutsDialog: React.FC<ShortcutsDialogProps> = ({
+  settings,
+  bindings,
+  onChange,
+  onClose,
+}) => {
+  // The command being rebound and the combos pressed for it so far.
+  const [recording, setRecording] = useState<{
+    id: CommandId;
+    combos: string[];
+  } | null>(null);
+
+  const setOverride = (id: CommandId, override: string[] | null) => {
+    const overrides = Object.fromEntries(
+      Object.entries(settings.overrides).filter(([other]) => other !== id)
+    );
+    onChange({
+      ...settings,
+      overrides: override ? { ...overrides, [id]: override } : overrides,
+    });
+  };
+  const setOverrideRef = useRef(setOverride);
+  setOverrideRef.current = setOverride;
+
+  // Keys go to the recording, or close the dialog on Escape; the app's own
+  // shortcuts are off while it is open.
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!recording) {
+        if (event.key === 'Escape') onClose();
+        return;
+      }
+      event.preventDefault();
+      event.stopPropagation();
+      if (event.key === 'Escape' && recording.combos.length === 0) {
+        setRecording(null);
+        return;
+      }
+      const combo = getKeyCombo(event);
+      if (combo) {
+        setRecording({ ...recording, combos: [...recording.combos, combo] });
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [recording, onClose]);
+
+  // A chord is two combos; one on its own is kept once no second one follows.
+  useEffect(() => {
+    if (!recording || recording.combos.length === 0) return;
+    const finish = () => {
+      setOverrideRef.current(recording.id, [recording.combos.join(' ')]);
+      setRecording(null);
+    };
+    if (recording.combos.length >= 2) {
+      finish();
+      return;
+    }
+    const timer = setTimeout(finish, CHORD_TIMEOUT_MS);
+    return () => clearTimeout(timer);
+  }, [recording]);
+
+  const profile = KEY_PROFILES.find(({ id }) => id === settings.profile);
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black bg-opacity-60 p-4">
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="shortcuts-title"
+        className="w-full max-w-2xl bg-gray-800 rounded-xl shadow-2xl border border-gray-700 p-4 sm:p-6 text-white"
+      >
+        <h2 id="shortcuts-title" className="text-xl font-semibold mb-4">
+          Keyboard shortcuts
+        </h2>
+        <label className="flex flex-wrap items-center gap-2 text-sm text-gray-300">
+          Keys for
+          <select
+            value={settings.profile}
+            onChange={(e) =>
+              onChange({
+                ...settings,
+                profile: e.target.value as ShortcutSettings['profile'],
+              })
+            }
+            className="bg-gray-700 text-white rounded px-2 py-1"
+          >
+            {KEY_PROFILES.map(({ id, label }) => (
+              <option key={id} value={id}>
+                {label}
+              </option>
+            ))}
+          </select>
+          {profile && (
+            <span className="text-xs text-gray-400">{profile.description}</span>
+          )}
+        </label>
+        <div className="mt-4 max-h-[60vh] overflow-y-auto space-y-4">
+          {GROUPS.map((group) => (
+            <section key={group}>
+              <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-400 mb-1">
+                {group}
+              </h3>
+              <ul className="space-y-1">
+                {SHORTCUT_COMMANDS.filter(
+                  (command) => command.group === group
+                ).map(({ id, label }) => {
+                  const isRecording = recording?.id === id;
+                  return (
+                    <li
+                      key={id}
+                      className="flex flex-wrap items-center gap-2 p-2 bg-gray-700 rounded-lg text-sm"
+                    >
+                      <span className="flex-grow min-w-0">{label}</span>
+                      <span className="flex flex-wrap gap-1">
+                        {isRecording ? (
+                          <span className="text-cyan-300" role="status">
+                            {recording.combos.length > 0
+                              ? `${formatBinding(recording.combos.join(' '))} then…`
+                              : 'Press keys (Esc cancels)'}
+                          </span>
+                        ) : bindings[id].length > 0 ? (
+                          bindings[id].map((binding) => (
+                            <kbd
+                              key={binding}
+                              className="px-1.5 py-0.5 bg-gray-900 border border-gray-600 rounded text-xs font-mono"
+                            >
+                              {formatBinding(binding)}
+                            </kbd>
+                          ))
+                        ) : (
+                          <span className="text-gray-500">None</span>
+                        )}
+                      </span>
+                      <button
+                        onClick={() => setRecording({ id, combos: [] })}
+                        disabled={recording !== null}
+                        className="px-2 py-0.5 bg-gray-600 hover:bg-gray-500 rounded text-xs transition-colors disabled:opacity-50"
+                        title="Press the new keys, or two combos in a row for a chord"
+                      >
+                        Change
+                      </button>
+                      <button
+                        onClick={() => setOverride(id, [])}
+                        disabled={
+                          recording !== null || bindings[id].length === 0
+                        }
+                        className="px-2 py-0.5 bg-gray-600 hover:bg-gray-500 rounded text-xs transition-colors disabled:opacity-50"
+                      >
+                        Clear
+                      </button>
+                      {settings.overrides[id] && (
+                        <button
+                          onClick={() => setOverride(id, null)}
+                          disabled={recording !== null}
+                          className="px-2 py-0.5 bg-gray-600 hover:bg-gray-500 rounded text-xs transition-colors disabled:opacity-50"
+                        >
+                          Reset
+                        </button>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            </section>
+          ))}
+        </div>
+        <div className="mt-4 flex justify-end gap-3">
+          <button
+            onClick={() => onChange(DEFAULT_SHORTCUT_SETTINGS)}
+            disabled={recording !== null}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-lg font-medium transition-colors disabled:opacity-50"
+          >
+            Reset all
+          </button>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-cyan-600 hover:bg-cyan-700 rounded-lg font-medium transition-colors"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
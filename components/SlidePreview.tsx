@@ -0,0 +1,97 @@
+import React from 'react';
+
+import { Slide, Tool, ToolState } from '../types';
+import { ElementSize } from '../hooks/useElementSize';
+import { DEFAULT_ANNOTATION_STYLE } from '../utils/annotations';
+import { Point } from '../utils/coordinates';
+import { DEFAULT_INK_STYLE } from '../utils/ink';
+import { DEFAULT_SPOTLIGHT_STYLE } from '../utils/spotlight';
+
+import { Canvas } from './Canvas';
+
+interface SlidePreviewProps {
+  slide: Slide | undefined;
+  viewportSize: ElementSize;
+  width: number;
+  // What to show; the slide's current view when left out.
+  toolState?: ToolState | undefined;
+  cursor?: Point | undefined;
+}
+
+const noop = () => undefined;
+
+/**
+ * Read-only miniature of a slide: the slide canvas rendered at the real
+ * viewport size, then scaled down.
+ */
+export const SlidePreview: React.FC<SlidePreviewProps> = ({
+  slide,
+  viewportSize,
+  width,
+  toolState,
+  cursor,
+}) => {
+  if (!slide || viewportSize.width === 0) {
+    return (
+      <div
+        className="bg-gray-900 rounded flex-shrink-0"
+        style={{ width, height: width * 0.6 }}
+      />
+    );
+  }
+  const scale = width / viewportSize.width;
+  // Previews show the frame a step was on, without playing it.
+  const playback = toolState ? toolState.video : slide.video;
+  return (
+    <div
+      className="relative overflow-hidden rounded bg-gray-900 flex-shrink-0 pointer-events-none"
+      style={{ width, height: viewportSize.height * scale }}
+      inert
+    >
+      <div
+        className="absolute top-0 left-0 origin-top-left"
+        style={{
+          width: viewportSize.width,
+          height: viewportSize.height,
+          transform: `scale(${scale})`,
+        }}
+      >
+        <Canvas
+          mediaUrl={slide.mediaUrl}
+          mediaType={slide.mediaType}
+          transform={toolState?.transform ?? slide.transform}
+          spotlight={toolState ? toolState.spotlight : slide.spotlight}
+          annotations={slide.annotations}
+          visibleAnnotationIds={
+            toolState?.annotationIds ?? slide.visibleAnnotationIds
+          }
+          video={playback && { ...playback, isPlaying: false, isMuted: true }}
+          annotationStyle={DEFAULT_ANNOTATION_STYLE}
+          inkStyle={DEFAULT_INK_STYLE}
+          spotlightStyle={DEFAULT_SPOTLIGHT_STYLE}
+          activeTool={Tool.NONE}
+          isCapturing={false}
+          isPlaying={true}
+          replayCursor={
+            cursor
+              ? {
+                  ...cursor,
+                  travelMs: 0,
+                  easing: 'linear',
+                  path: [],
+                  clickId: null,
+                }
+              : null
+          }
+          onTransformChange={noop}
+          onSpotlightChange={noop}
+          onAnnotationsChange={noop}
+          onRecordClick={noop}
+          onVideoAction={noop}
+          onPointerMove={noop}
+          onFiles={noop}
+        />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,163 @@
+import React, { useState } from 'react';
+
+import { ClickSequence, Slide } from '../types';
+import { ElementSize } from '../hooks/useElementSize';
+import { countStepsOnSlide } from '../utils/slides';
+import { isNoOpMove } from '../utils/sequence';
+
+import { SlidePreview } from './SlidePreview';
+
+interface SlideSorterProps {
+  slides: Slide[];
+  sequences: ClickSequence[];
+  currentIndex: number;
+  viewportSize: ElementSize;
+  onSelect: (index: number) => void;
+  /** Moves a slide in front of the one at `beforeIndex`. */
+  onMove: (fromIndex: number, beforeIndex: number) => void;
+  onDuplicate: (index: number) => void;
+  onDelete: (index: number) => void;
+  onClose: () => void;
+}
+
+const THUMBNAIL_WIDTH = 144;
+
+/** Filmstrip of slide thumbnails for navigating and rearranging slides. */
+export const SlideSorter: React.FC<SlideSorterProps> = ({
+  slides,
+  sequences,
+  currentIndex,
+  viewportSize,
+  onSelect,
+  onMove,
+  onDuplicate,
+  onDelete,
+  onClose,
+}) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  // A drop lands in front of the slide it is over, as its left border shows.
+  const handleDrop = (beforeIndex: number) => {
+    if (dragIndex !== null && !isNoOpMove(dragIndex, beforeIndex)) {
+      onMove(dragIndex, beforeIndex);
+    }
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+  const dropTargetProps = (beforeIndex: number) => ({
+    onDragOver: (e: React.DragEvent) => {
+      e.preventDefault();
+      setDropIndex(beforeIndex);
+    },
+    onDragLeave: () => setDropIndex(null),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      handleDrop(beforeIndex);
+    },
+  });
+  const isDropTarget = (beforeIndex: number) =>
+    dragIndex !== null &&
+    dropIndex === beforeIndex &&
+    !isNoOpMove(dragIndex, beforeIndex);
+
+  const actionClasses =
+    'px-2 py-1 text-xs font-medium rounded-md bg-gray-600 hover:bg-gray-500 transition-colors disabled:opacity-40 disabled:cursor-not-allowed';
+
+  return (
+    <aside
+      aria-label="Slides"
+      className="fixed left-2 right-2 sm:left-4 sm:right-4 bottom-[120px] sm:bottom-4 z-40 bg-gray-800 bg-opacity-95 backdrop-blur-sm border border-gray-700 rounded-xl shadow-2xl text-white"
+    >
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-700">
+        <h2 className="font-semibold">
+          Slides ({slides.length})
+          <span className="ml-2 text-xs font-normal text-gray-400">
+            Drag to reorder
+          </span>
+        </h2>
+        <button
+          onClick={onClose}
+          className="px-3 py-1 text-sm rounded-md bg-gray-700 hover:bg-gray-600 transition-colors"
+        >
+          Close
+        </button>
+      </div>
+      <ol className="flex gap-3 overflow-x-auto p-3">
+        {slides.map((slide, index) => {
+          const stepCount = countStepsOnSlide(sequences, index);
+          return (
+            <li
+              key={slide.id}
+              draggable
+              onDragStart={(e) => {
+                e.dataTransfer.effectAllowed = 'move';
+                setDragIndex(index);
+              }}
+              {...dropTargetProps(index)}
+              onDragEnd={() => {
+                setDragIndex(null);
+                setDropIndex(null);
+              }}
+              className={`flex-shrink-0 rounded-lg border-2 p-2 bg-gray-700 cursor-grab transition-colors ${
+                index === currentIndex
+                  ? 'border-cyan-400'
+                  : 'border-transparent'
+              } ${isDropTarget(index) ? 'border-l-cyan-400 border-l-4' : ''} ${
+                dragIndex === index ? 'opacity-50' : ''
+              }`}
+            >
+              <button
+                onClick={() => onSelect(index)}
+                className="block text-left"
+                title={`Go to slide ${index + 1}`}
+              >
+                <SlidePreview
+                  slide={slide}
+                  viewportSize={viewportSize}
+                  width={THUMBNAIL_WIDTH}
+                />
+                <span className="flex justify-between mt-1 text-xs text-gray-300">
+                  <span className="font-semibold">{index + 1}</span>
+                  <span>
+                    {stepCount} {stepCount === 1 ? 'step' : 'steps'}
+                  </span>
+                </span>
+              </button>
+              <div className="flex gap-1 mt-1">
+                <button
+                  onClick={() => onDuplicate(index)}
+                  className={actionClasses}
+                >
+                  Duplicate
+                </button>
+                <button
+                  onClick={() => onDelete(index)}
+                  disabled={slides.length === 1}
+                  className={`${actionClasses} hover:bg-red-600`}
+                  title={
+                    stepCount > 0
+                      ? `Also deletes the ${stepCount} ${stepCount === 1 ? 'step' : 'steps'} on this slide`
+                      : undefined
+                  }
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          );
+        })}
+        {dragIndex !== null && (
+          // Drop zone for moving a slide to the end.
+          <li
+            {...dropTargetProps(slides.length)}
+            aria-hidden="true"
+            className={`flex-shrink-0 w-12 rounded-lg ${
+              isDropTarget(slides.length) ? 'border-l-4 border-l-cyan-400' : ''
+            }`}
+          />
+        )}
+      </ol>
+    </aside>
+  );
+};
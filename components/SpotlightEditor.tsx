@@ -0,0 +1,402 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+import { CanvasTransform, SpotlightRegion, SpotlightState } from '../types';
+import {
+  ContentBox,
+  Point,
+  Size,
+  regionToScreen,
+  screenRegionToContent,
+  screenToContent,
+} from '../utils/coordinates';
+import {
+  REGION_HANDLES,
+  RegionHandle,
+  SpotlightStyle,
+  createCircleRegion,
+  createDraggedRegion,
+  createPolygonRegion,
+  createSpotlight,
+  getHandlePoint,
+  getRegionCenter,
+  isInsideRegion,
+  moveRegion,
+  resizeRegion,
+} from '../utils/spotlight';
+
+interface SpotlightEditorProps {
+  spotlight: SpotlightState | null;
+  style: SpotlightStyle;
+  transform: CanvasTransform;
+  contentBox: ContentBox;
+  viewport: Size;
+  // Follows the pointer while a region is drawn, moved or resized.
+  onChange: (spotlight: SpotlightState | null) => void;
+  // Called once a gesture is finished, with the point it draws attention to.
+  onCommit: (spotlight: SpotlightState | null, anchor: Point) => void;
+}
+
+// Everything here is in screen pixels; regions are converted on the way out.
+type Drag =
+  | {
+      mode: 'create';
+      base: SpotlightRegion[];
+      start: Point;
+      points: Point[];
+    }
+  | { mode: 'move'; region: SpotlightRegion; start: Point; current: Point }
+  | {
+      mode: 'resize';
+      region: SpotlightRegion;
+      handle: RegionHandle;
+      current: Point;
+    };
+
+const CIRCLE_RADIUS = 60; // screen pixels when drawn
+const DRAG_THRESHOLD = 10; // pixels
+const LASSO_SAMPLE_DISTANCE = 4; // pixels between lasso points
+const HANDLE_SIZE = 10; // pixels
+const LONG_PRESS_MS = 500;
+
+const RegionOutline: React.FC<{ region: SpotlightRegion }> = ({ region }) => {
+  const paint = {
+    fill: 'none',
+    stroke: '#22d3ee',
+    strokeWidth: 1.5,
+    strokeDasharray: '6 4',
+  };
+  switch (region.type) {
+    case 'circle':
+      return (
+        <circle cx={region.x} cy={region.y} r={region.radius} {...paint} />
+      );
+    case 'ellipse':
+      return (
+        <ellipse
+          cx={region.x + region.width / 2}
+          cy={region.y + region.height / 2}
+          rx={region.width / 2}
+          ry={region.height / 2}
+          {...paint}
+        />
+      );
+    case 'polygon':
+      return (
+        <polygon
+          points={region.points
+            .map((point) => `${point.x},${point.y}`)
+            .join(' ')}
+          {...paint}
+        />
+      );
+    default:
+      return (
+        <rect
+          x={region.x}
+          y={region.y}
+          width={region.width}
+          height={region.height}
+          rx={region.radius}
+          {...paint}
+        />
+      );
+  }
+};
+
+/**
+ * Draws, selects, moves and resizes spotlight regions. A click drops a
+ * circle, a drag draws the chosen shape, and holding Shift (or the palette's
+ * "multiple" option) adds the region instead of replacing the spotlight.
+ */
+export const SpotlightEditor: React.FC<SpotlightEditorProps> = ({
+  spotlight,
+  style,
+  transform,
+  contentBox,
+  viewport,
+  onChange,
+  onCommit,
+}) => {
+  const [drag, setDrag] = useState<Drag | null>(null);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const layerRef = useRef<HTMLDivElement>(null);
+  const longPressRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const toScreen = (region: SpotlightRegion) =>
+    regionToScreen(region, transform, contentBox, viewport);
+  const toContent = (region: SpotlightRegion) =>
+    screenRegionToContent(region, transform, contentBox, viewport);
+  const regions = spotlight?.regions ?? [];
+  const selected = regions.find((region) => region.id === selectedId);
+
+  const getPointer = (e: React.PointerEvent): Point => {
+    const rect = layerRef.current?.getBoundingClientRect();
+    return {
+      x: e.clientX - (rect?.left ?? 0),
+      y: e.clientY - (rect?.top ?? 0),
+    };
+  };
+
+  // Swaps one region (drawn in screen pixels) into the current spotlight.
+  const withRegion = (region: SpotlightRegion): SpotlightState => {
+    const converted = toContent(region);
+    return spotlight
+      ? {
+          ...spotlight,
+          regions: regions.map((other) =>
+            other.id === region.id ? converted : other
+          ),
+        }
+      : createSpotlight([converted], style);
+  };
+
+  const getDraft = (active: Drag, end: Point): SpotlightState | null => {
+    switch (active.mode) {
+      case 'create': {
+        const distance = Math.hypot(
+          end.x - active.start.x,
+          end.y - active.start.y
+        );
+        if (distance < DRAG_THRESHOLD) {
+          return active.base.length > 0
+            ? createSpotlight(active.base, style)
+            : null;
+        }
+        const region =
+          style.shape === 'polygon'
+            ? createPolygonRegion([...active.points, end])
+            : createDraggedRegion(style.shape, active.start, end);
+        return createSpotlight([...active.base, toContent(region)], style);
+      }
+      case 'move':
+        return withRegion(
+          moveRegion(
+            active.region,
+            end.x - active.start.x,
+            end.y - active.start.y
+          )
+        );
+      case 'resize':
+        return withRegion(resizeRegion(active.region, active.handle, end));
+    }
+  };
+
+  useEffect(() => {
+    if (selectedId === null || drag) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const tag = (event.target as HTMLElement).tagName.toLowerCase();
+      if (tag === 'input' || tag === 'textarea') return;
+      if (event.key === 'Delete' || event.key === 'Backspace') {
+        event.preventDefault();
+        setSelectedId(null);
+        if (!spotlight) return;
+        const removed = spotlight.regions.find(
+          (region) => region.id === selectedId
+        );
+        const remaining = spotlight.regions.filter(
+          (region) => region.id !== selectedId
+        );
+        if (!removed) return;
+        onCommit(
+          remaining.length > 0 ? { ...spotlight, regions: remaining } : null,
+          getRegionCenter(removed)
+        );
+      } else if (event.key === 'Escape') {
+        setSelectedId(null);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [selectedId, drag, spotlight, onCommit]);
+
+  const cancelLongPress = () => {
+    if (longPressRef.current) clearTimeout(longPressRef.current);
+    longPressRef.current = null;
+  };
+
+  useEffect(
+    () => () => {
+      if (longPressRef.current) clearTimeout(longPressRef.current);
+    },
+    []
+  );
+
+  // Holding still adds a circle where the pointer is, even over another
+  // region: the touch counterpart of Shift-clicking.
+  const startLongPress = (point: Point) => {
+    cancelLongPress();
+    longPressRef.current = setTimeout(() => {
+      longPressRef.current = null;
+      const region = toContent(createCircleRegion(point, CIRCLE_RADIUS));
+      setDrag(null);
+      setSelectedId(region.id);
+      onCommit(
+        spotlight
+          ? { ...spotlight, regions: [...spotlight.regions, region] }
+          : createSpotlight([region], style),
+        screenToContent(point, transform, contentBox, viewport)
+      );
+    }, LONG_PRESS_MS);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (e.button !== 0) return;
+    e.stopPropagation();
+    e.preventDefault();
+    const point = getPointer(e);
+    startLongPress(point);
+    const hit = [...regions]
+      .reverse()
+      .map(toScreen)
+      .find((region) => isInsideRegion(region, point));
+    if (hit) {
+      setSelectedId(hit.id);
+      setDrag({ mode: 'move', region: hit, start: point, current: point });
+      return;
+    }
+    setSelectedId(null);
+    const isAdditive = style.isAdditive || e.shiftKey;
+    setDrag({
+      mode: 'create',
+      base: isAdditive ? regions : [],
+      start: point,
+      points: [point],
+    });
+  };
+
+  const startResize = (
+    e: React.PointerEvent,
+    region: SpotlightRegion,
+    handle: RegionHandle
+  ) => {
+    e.stopPropagation();
+    e.preventDefault();
+    const screenRegion = toScreen(region);
+    setDrag({
+      mode: 'resize',
+      region: screenRegion,
+      handle,
+      current: getHandlePoint(screenRegion, handle),
+    });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag) return;
+    const point = getPointer(e);
+    if (
+      drag.mode !== 'resize' &&
+      Math.hypot(point.x - drag.start.x, point.y - drag.start.y) >=
+        DRAG_THRESHOLD
+    ) {
+      cancelLongPress();
+    }
+    if (drag.mode === 'create') {
+      const last = drag.points[drag.points.length - 1] ?? drag.start;
+      if (
+        Math.hypot(point.x - last.x, point.y - last.y) >= LASSO_SAMPLE_DISTANCE
+      ) {
+        setDrag({ ...drag, points: [...drag.points, point] });
+      }
+    } else {
+      setDrag({ ...drag, current: point });
+    }
+    onChange(getDraft(drag, point));
+  };
+
+  const finishDrag = (e: React.PointerEvent) => {
+    cancelLongPress();
+    if (!drag) return;
+    setDrag(null);
+    const end = getPointer(e);
+    const toAnchor = (point: Point) =>
+      screenToContent(point, transform, contentBox, viewport);
+
+    if (drag.mode === 'create') {
+      const isClick =
+        Math.hypot(end.x - drag.start.x, end.y - drag.start.y) <
+          DRAG_THRESHOLD &&
+        (style.shape !== 'polygon' || drag.points.length < 3);
+      const region = isClick
+        ? createCircleRegion(end, CIRCLE_RADIUS)
+        : style.shape === 'polygon'
+          ? createPolygonRegion([...drag.points, end])
+          : createDraggedRegion(style.shape, drag.start, end);
+      setSelectedId(region.id);
+      onCommit(
+        createSpotlight([...drag.base, toContent(region)], style),
+        toAnchor(end)
+      );
+      return;
+    }
+    const start = drag.mode === 'move' ? drag.start : null;
+    if (start && start.x === end.x && start.y === end.y) return;
+    const next = getDraft(drag, end);
+    const moved = next?.regions.find((region) => region.id === drag.region.id);
+    if (!next || !moved) return;
+    onCommit(next, getRegionCenter(moved));
+  };
+
+  const selectedOnScreen = selected && toScreen(selected);
+
+  return (
+    <div
+      ref={layerRef}
+      role="button"
+      aria-label="Spotlight"
+      tabIndex={-1}
+      className="absolute inset-0 z-20 cursor-crosshair"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={finishDrag}
+      onPointerCancel={finishDrag}
+      onPointerLeave={finishDrag}
+      onContextMenu={(e) => e.preventDefault()}
+      onKeyDown={(e) => {
+        if (e.key === 'Escape') setSelectedId(null);
+      }}
+    >
+      <svg className="absolute inset-0 w-full h-full overflow-visible pointer-events-none">
+        {drag?.mode === 'create' && style.shape === 'polygon' && (
+          <polyline
+            points={drag.points
+              .map((point) => `${point.x},${point.y}`)
+              .join(' ')}
+            fill="none"
+            stroke="#22d3ee"
+            strokeWidth={1.5}
+          />
+        )}
+        {selectedOnScreen && (
+          <>
+            <RegionOutline region={selectedOnScreen} />
+            {!drag &&
+              REGION_HANDLES.map((handle) => {
+                const point = getHandlePoint(selectedOnScreen, handle);
+                return (
+                  <rect
+                    key={handle}
+                    role="button"
+                    tabIndex={-1}
+                    aria-label={`Resize from ${handle} corner`}
+                    x={point.x - HANDLE_SIZE / 2}
+                    y={point.y - HANDLE_SIZE / 2}
+                    width={HANDLE_SIZE}
+                    height={HANDLE_SIZE}
+                    fill="white"
+                    stroke="#06b6d4"
+                    strokeWidth={2}
+                    className={`pointer-events-auto ${
+                      handle === 'nw' || handle === 'se'
+                        ? 'cursor-nwse-resize'
+                        : 'cursor-nesw-resize'
+                    }`}
+                    onPointerDown={(e) => startResize(e, selected, handle)}
+                  />
+                );
+              })}
+          </>
+        )}
+      </svg>
+    </div>
+  );
+};
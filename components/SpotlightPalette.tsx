@@ -0,0 +1,93 @@
+import React from 'react';
+
+import { SpotlightShapeType } from '../types';
+import {
+  MAX_SPOTLIGHT_BLUR,
+  MAX_SPOTLIGHT_FEATHER,
+  SPOTLIGHT_SHAPE_LABELS,
+  SpotlightStyle,
+} from '../utils/spotlight';
+
+interface SpotlightPaletteProps {
+  style: SpotlightStyle;
+  onChange: (style: SpotlightStyle) => void;
+  onClear: () => void;
+}
+
+const SLIDERS: {
+  key: 'dimOpacity' | 'blur' | 'feather';
+  label: string;
+  max: number;
+}[] = [
+  { key: 'dimOpacity', label: 'Dim', max: 1 },
+  { key: 'blur', label: 'Blur', max: MAX_SPOTLIGHT_BLUR },
+  { key: 'feather', label: 'Feather', max: MAX_SPOTLIGHT_FEATHER },
+];
+
+/** Shape and look of the spotlight tool. */
+export const SpotlightPalette: React.FC<SpotlightPaletteProps> = ({
+  style,
+  onChange,
+  onClear,
+}) => (
+  <div
+    role="toolbar"
+    aria-label="Spotlight style"
+    className="fixed top-4 sm:top-[104px] left-1/2 -translate-x-1/2 z-50 flex flex-wrap items-center justify-center gap-3 p-2 bg-gray-800 bg-opacity-90 backdrop-blur-sm rounded-xl shadow-2xl border border-gray-700 text-white text-sm"
+  >
+    <div className="flex gap-1">
+      {(Object.keys(SPOTLIGHT_SHAPE_LABELS) as SpotlightShapeType[]).map(
+        (shape) => (
+          <button
+            key={shape}
+            onClick={() => onChange({ ...style, shape })}
+            aria-pressed={style.shape === shape}
+            className={`px-3 py-1 rounded-md transition-colors ${
+              style.shape === shape
+                ? 'bg-cyan-500 text-white'
+                : 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+            }`}
+          >
+            {SPOTLIGHT_SHAPE_LABELS[shape]}
+          </button>
+        )
+      )}
+    </div>
+    <button
+      onClick={() => onChange({ ...style, isAdditive: !style.isAdditive })}
+      aria-pressed={style.isAdditive}
+      title="Add regions instead of replacing them (or hold Shift)"
+      className={`px-3 py-1 rounded-md transition-colors ${
+        style.isAdditive
+          ? 'bg-cyan-500 text-white'
+          : 'bg-gray-700 hover:bg-gray-600 text-gray-300'
+      }`}
+    >
+      Multiple
+    </button>
+    <div className="w-px h-6 bg-gray-600"></div>
+    {SLIDERS.map(({ key, label, max }) => (
+      <label key={key} className="flex items-center gap-2 text-gray-300">
+        {label}
+        <input
+          type="range"
+          min={0}
+          max={max}
+          step={max / 100}
+          value={style[key]}
+          onChange={(e) =>
+            onChange({ ...style, [key]: Number(e.target.value) })
+          }
+          className="w-20 accent-cyan-500"
+        />
+      </label>
+    ))}
+    <div className="w-px h-6 bg-gray-600"></div>
+    <button
+      onClick={onClear}
+      className="px-3 py-1 rounded-md bg-gray-700 hover:bg-gray-600 text-gray-300 transition-colors"
+    >
+      Clear
+    </button>
+  </div>
+);
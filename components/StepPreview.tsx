@@ -0,0 +1,29 @@
+import React from 'react';
+
+import { ClickRecord, Slide } from '../types';
+import { ElementSize } from '../hooks/useElementSize';
+
+import { SlidePreview } from './SlidePreview';
+
+interface StepPreviewProps {
+  record: ClickRecord;
+  slide: Slide | undefined;
+  viewportSize: ElementSize;
+  width: number;
+}
+
+/** Read-only miniature of a slide with a step's tool state and click. */
+export const StepPreview: React.FC<StepPreviewProps> = ({
+  record,
+  slide,
+  viewportSize,
+  width,
+}) => (
+  <SlidePreview
+    slide={slide}
+    viewportSize={viewportSize}
+    width={width}
+    toolState={record.toolState}
+    cursor={{ x: record.x, y: record.y }}
+  />
+);
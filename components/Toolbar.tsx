@@ -1,6 +1,12 @@
 import React from 'react';
 
-import { Tool } from '../types';
+import {
+  CommandId,
+  CommandStates,
+  KeyBindings,
+  getCommand,
+  getShortcutHint,
+} from '../utils/shortcuts';
 
 import {
   ZoomIcon,
@@ -10,28 +16,37 @@ import {
   StepIcon,
   ResetIcon,
   PlusIcon,
+  SaveIcon,
+  ExportIcon,
+  FolderOpenIcon,
+  ClockIcon,
+  UndoIcon,
+  RedoIcon,
+  ListIcon,
+  PresentIcon,
+  NotesIcon,
+  AnnotateIcon,
+  InkIcon,
+  LaserIcon,
+  PathIcon,
+  CommandIcon,
 } from './icons';
 
 interface ToolbarProps {
-  activeTool: Tool;
-  setActiveTool: React.Dispatch<React.SetStateAction<Tool>>;
-  onReplay: () => void;
-  onStepReplay: () => void;
-  onReset: () => void;
-  hasSequence: boolean;
-  isCapturing: boolean;
-  toggleCapture: () => void;
-  onAddSlide: () => void;
+  commands: CommandStates;
+  keyBindings: KeyBindings;
   currentSlideIndex: number;
   totalSlides: number;
 }
 
 const ToolButton: React.FC<{
   label: string;
-  shortcut?: string;
+  shortcut?: string | undefined;
   icon: React.ReactNode;
   isActive?: boolean;
   isToggle?: boolean;
+  // Left to the command palette on small screens.
+  isSecondary?: boolean;
   onClick: () => void;
   disabled?: boolean;
   title: string;
@@ -41,23 +56,24 @@ const ToolButton: React.FC<{
   icon,
   isActive = false,
   isToggle = false,
+  isSecondary = false,
   onClick,
   disabled = false,
   title,
 }) => {
   const baseClasses =
-    'flex flex-col items-center justify-center p-2 rounded-lg transition-all duration-200 ease-in-out transform hover:scale-105 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 disabled:opacity-50 disabled:cursor-not-allowed disabled:scale-100 sm:w-auto';
+    'flex-col items-center justify-center p-2 rounded-lg transition-all duration-200 ease-in-out transform hover:scale-105 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 disabled:opacity-50 disabled:cursor-not-allowed disabled:scale-100 sm:w-auto';
   const activeClasses = isToggle
     ? 'bg-red-600 text-white shadow-lg'
     : 'bg-cyan-500 text-white shadow-lg';
   const inactiveClasses = 'bg-gray-700 hover:bg-gray-600 text-gray-300';
-  const finalTitle = shortcut ? `${title} (${shortcut.toUpperCase()})` : title;
+  const finalTitle = shortcut ? `${title} (${shortcut})` : title;
 
   return (
     <button
       onClick={onClick}
       disabled={disabled}
-      className={`${baseClasses} ${isActive ? activeClasses : inactiveClasses}`}
+      className={`${isSecondary ? 'hidden sm:flex' : 'flex'} ${baseClasses} ${isActive ? activeClasses : inactiveClasses}`}
       title={finalTitle}
     >
       {icon}
@@ -69,18 +85,21 @@ const ToolButton: React.FC<{
 };
 
 export const Toolbar: React.FC<ToolbarProps> = ({
-  activeTool,
-  setActiveTool,
-  onReplay,
-  onStepReplay,
-  onReset,
-  hasSequence,
-  isCapturing,
-  toggleCapture,
-  onAddSlide,
+  commands,
+  keyBindings,
   currentSlideIndex,
   totalSlides,
 }) => {
+  // A button's action, state, tooltip and shortcut all come from its command.
+  const commandProps = (id: CommandId) => ({
+    onClick: commands[id].run,
+    isActive: commands[id].isActive ?? false,
+    disabled: commands[id].isDisabled ?? false,
+    title: getCommand(id).label,
+    shortcut: getShortcutHint(keyBindings, id),
+  });
+  const isCapturing = commands['capture.toggle'].isActive ?? false;
+
   return (
     <div
       role="toolbar"
@@ -89,71 +108,135 @@ export const Toolbar: React.FC<ToolbarProps> = ({
       <div className="flex flex-wrap justify-center items-center gap-2 sm:gap-4">
         <ToolButton
           label="Pan/Zoom"
-          shortcut="A"
-          title="Pan & Zoom"
           icon={<ZoomIcon className="w-6 h-6" />}
-          isActive={activeTool === Tool.PAN_ZOOM}
-          onClick={() =>
-            setActiveTool((prev) =>
-              prev === Tool.PAN_ZOOM ? Tool.NONE : Tool.PAN_ZOOM
-            )
-          }
+          {...commandProps('tool.panZoom')}
+          title="Pan & Zoom: drag to pan, Shift-drag to zoom to an area, Alt-click to zoom out"
         />
         <ToolButton
           label="Spotlight"
-          shortcut="S"
-          title="Spotlight"
           icon={<SpotlightIcon className="w-6 h-6" />}
-          isActive={activeTool === Tool.SPOTLIGHT}
-          onClick={() =>
-            setActiveTool((prev) =>
-              prev === Tool.SPOTLIGHT ? Tool.NONE : Tool.SPOTLIGHT
-            )
-          }
+          {...commandProps('tool.spotlight')}
+        />
+        <ToolButton
+          label="Annotate"
+          icon={<AnnotateIcon className="w-6 h-6" />}
+          {...commandProps('tool.annotate')}
+        />
+        <ToolButton
+          label="Ink"
+          icon={<InkIcon className="w-6 h-6" />}
+          {...commandProps('tool.ink')}
+        />
+        <ToolButton
+          label="Laser"
+          icon={<LaserIcon className="w-6 h-6" />}
+          {...commandProps('tool.laser')}
         />
         <ToolButton
           label={isCapturing ? 'Stop' : 'Capture'}
-          shortcut="C"
-          title={isCapturing ? 'Stop Capturing' : 'Start Capturing'}
           icon={<CaptureIcon className="w-6 h-6" />}
-          isActive={isCapturing}
           isToggle={true}
-          onClick={toggleCapture}
+          {...commandProps('capture.toggle')}
+          title={isCapturing ? 'Stop Capturing' : 'Start Capturing'}
+        />
+        <ToolButton
+          label="Path"
+          icon={<PathIcon className="w-6 h-6" />}
+          isSecondary={true}
+          {...commandProps('capture.path')}
+        />
+        <div className="w-px h-10 bg-gray-600 hidden sm:block"></div>
+        <ToolButton
+          label="Undo"
+          icon={<UndoIcon className="w-6 h-6" />}
+          {...commandProps('edit.undo')}
+        />
+        <ToolButton
+          label="Redo"
+          icon={<RedoIcon className="w-6 h-6" />}
+          {...commandProps('edit.redo')}
         />
         <div className="w-px h-10 bg-gray-600 hidden sm:block"></div>
         <ToolButton
           label="New Slide"
-          title="Add New Slide"
           icon={<PlusIcon className="w-6 h-6" />}
-          onClick={onAddSlide}
+          {...commandProps('slide.add')}
         />
-        <div className="flex items-center justify-center text-sm font-semibold text-gray-300 px-3 py-2 bg-gray-700 rounded-md">
+        <button
+          onClick={commands['panel.slides'].run}
+          aria-pressed={commands['panel.slides'].isActive ?? false}
+          title={getCommand('panel.slides').label}
+          className={`flex items-center justify-center text-sm font-semibold px-3 py-2 rounded-md transition-colors ${
+            commands['panel.slides'].isActive
+              ? 'bg-cyan-500 text-white'
+              : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+          }`}
+        >
           <span>
             {currentSlideIndex + 1} / {totalSlides}
           </span>
-        </div>
+        </button>
         <div className="w-px h-10 bg-gray-600 hidden sm:block"></div>
         <ToolButton
           label="Replay"
-          title="Replay Click Sequence"
           icon={<PlayIcon className="w-6 h-6" />}
-          onClick={onReplay}
-          disabled={!hasSequence}
-          isActive={false}
+          {...commandProps('replay.play')}
         />
         <ToolButton
           label="Step"
-          title="Step-by-step Replay"
           icon={<StepIcon className="w-6 h-6" />}
-          onClick={onStepReplay}
-          disabled={!hasSequence}
-          isActive={false}
+          {...commandProps('replay.step')}
+        />
+        <ToolButton
+          label="Present"
+          icon={<PresentIcon className="w-6 h-6" />}
+          {...commandProps('replay.present')}
+        />
+        <ToolButton
+          label="Steps"
+          icon={<ListIcon className="w-6 h-6" />}
+          {...commandProps('panel.steps')}
+        />
+        <ToolButton
+          label="Notes"
+          icon={<NotesIcon className="w-6 h-6" />}
+          {...commandProps('panel.notes')}
+        />
+        <div className="w-px h-10 bg-gray-600 hidden sm:block"></div>
+        <ToolButton
+          label="Save"
+          icon={<SaveIcon className="w-6 h-6" />}
+          isSecondary={true}
+          {...commandProps('project.save')}
+        />
+        <ToolButton
+          label="Export"
+          icon={<ExportIcon className="w-6 h-6" />}
+          isSecondary={true}
+          {...commandProps('project.export')}
+        />
+        <ToolButton
+          label="Open"
+          icon={<FolderOpenIcon className="w-6 h-6" />}
+          isSecondary={true}
+          {...commandProps('project.open')}
+        />
+        <ToolButton
+          label="Recent"
+          icon={<ClockIcon className="w-6 h-6" />}
+          isSecondary={true}
+          {...commandProps('project.recent')}
         />
         <ToolButton
           label="Reset All"
-          title="Reset Presentation"
           icon={<ResetIcon className="w-6 h-6" />}
-          onClick={onReset}
+          isSecondary={true}
+          {...commandProps('project.reset')}
+        />
+        <ToolButton
+          label="Commands"
+          icon={<CommandIcon className="w-6 h-6" />}
+          {...commandProps('palette.open')}
         />
       </div>
     </div>
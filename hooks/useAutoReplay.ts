@@ -0,0 +1,98 @@
+import { useEffect, useRef } from 'react';
+
+import { ClickRecord, ReplayCursorState } from '../types';
+import {
+  REPLAY_START_DELAY_MS,
+  getStepSchedule,
+  waitPlayback,
+} from '../utils/timing';
+
+import { TweenOptions } from './useTween';
+
+interface AutoReplayOptions {
+  isPlaying: boolean;
+  isPaused: boolean;
+  speed: number;
+  startStep: number;
+  sequence: ClickRecord[];
+  currentSlideIndex: number;
+  onStepChange: (step: number) => void;
+  onSlideChange: (slideIndex: number) => void;
+  onCursorChange: (cursor: ReplayCursorState | null) => void;
+  // `animation` is the step's camera move, already scaled to playback speed.
+  onApplyStep: (record: ClickRecord, animation: TweenOptions) => void;
+  onFinish: () => void;
+}
+
+/**
+ * Plays the click sequence from `startStep` while `isPlaying` is set, using
+ * each step's own timing. Speed and pause are read live, so changing them
+ * does not restart the replay; slide state is expected to already reflect
+ * the steps before `startStep`.
+ */
+export const useAutoReplay = (options: AutoReplayOptions) => {
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const { isPlaying } = options;
+
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    let isCancelled = false;
+    const getClock = () => ({
+      speed: optionsRef.current.speed,
+      isPaused: optionsRef.current.isPaused,
+      isCancelled,
+    });
+    const wait = (ms: number) => waitPlayback(ms, getClock);
+
+    const run = async () => {
+      const { sequence, startStep } = optionsRef.current;
+      let slideIndex = optionsRef.current.currentSlideIndex;
+      // Give the reset slide state a moment to render.
+      if (!(await wait(REPLAY_START_DELAY_MS))) return;
+
+      for (let step = startStep; step < sequence.length; step++) {
+        const record = sequence[step];
+        if (!record) break;
+        optionsRef.current.onStepChange(step);
+
+        const schedule = getStepSchedule(record, slideIndex);
+        if (schedule.slideChangeMs > 0) {
+          slideIndex = record.slideIndex;
+          optionsRef.current.onSlideChange(slideIndex);
+          if (!(await wait(schedule.slideChangeMs))) return;
+        }
+
+        const { transitionMs, animationMs, easing } = record.timing;
+        // Animations run in real time, so scale them to the playback speed.
+        const { speed } = optionsRef.current;
+        const cursor: ReplayCursorState = {
+          x: record.x,
+          y: record.y,
+          slideIndex: record.slideIndex,
+          travelMs: transitionMs / speed,
+          easing,
+          path: record.path,
+          clickId: null,
+        };
+        optionsRef.current.onCursorChange(cursor);
+        if (!(await wait(schedule.travelMs))) return;
+
+        optionsRef.current.onCursorChange({ ...cursor, clickId: record.id });
+        optionsRef.current.onApplyStep(record, {
+          durationMs: animationMs / speed,
+          easing,
+        });
+        if (!(await wait(schedule.afterClickMs))) return;
+      }
+      optionsRef.current.onFinish();
+    };
+    run();
+
+    return () => {
+      isCancelled = true;
+      optionsRef.current.onCursorChange(null);
+    };
+  }, [isPlaying]);
+};
@@ -0,0 +1,49 @@
+import { useEffect } from 'react';
+
+import { ClickSequence, Slide } from '../types';
+import {
+  isProjectStoreAvailable,
+  saveStoredProject,
+} from '../utils/projectStore';
+
+const AUTOSAVE_DELAY = 1000; // ms
+
+const isBlankProject = (slides: Slide[], sequences: ClickSequence[]) =>
+  sequences.every((sequence) => sequence.steps.length === 0) &&
+  slides.every((slide) => !slide.mediaUrl);
+
+/**
+ * Debounced background save of the current session to IndexedDB. Blank
+ * projects are skipped so that simply opening the app doesn't fill the list
+ * of recent projects.
+ */
+export const useAutosave = (
+  projectId: string,
+  projectName: string,
+  slides: Slide[],
+  sequences: ClickSequence[],
+  activeSequenceId: string,
+  enabled: boolean
+) => {
+  useEffect(() => {
+    if (
+      !enabled ||
+      !isProjectStoreAvailable() ||
+      isBlankProject(slides, sequences)
+    ) {
+      return;
+    }
+
+    const timeout = setTimeout(() => {
+      saveStoredProject(
+        projectId,
+        projectName,
+        slides,
+        sequences,
+        activeSequenceId
+      ).catch((error) => console.error('Autosave failed', error));
+    }, AUTOSAVE_DELAY);
+
+    return () => clearTimeout(timeout);
+  }, [projectId, projectName, slides, sequences, activeSequenceId, enabled]);
+};
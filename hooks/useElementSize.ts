@@ -0,0 +1,41 @@
+import { RefObject, useEffect, useState } from 'react';
+
+export interface ElementSize {
+  width: number;
+  height: number;
+}
+
+/**
+ * Tracks the layout size of an element (zero until it is measured). CSS
+ * transforms on ancestors don't affect it, so scaled-down previews report
+ * the size they are laid out at.
+ */
+export const useElementSize = (ref: RefObject<HTMLElement | null>) => {
+  const [size, setSize] = useState<ElementSize>({ width: 0, height: 0 });
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+
+    const measure = () => {
+      const width = element.offsetWidth;
+      const height = element.offsetHeight;
+      setSize((prev) =>
+        prev.width === width && prev.height === height
+          ? prev
+          : { width, height }
+      );
+    };
+    measure();
+
+    if (typeof ResizeObserver === 'undefined') {
+      window.addEventListener('resize', measure);
+      return () => window.removeEventListener('resize', measure);
+    }
+    const observer = new ResizeObserver(measure);
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [ref]);
+
+  return size;
+};
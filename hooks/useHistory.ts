@@ -0,0 +1,87 @@
+import { useCallback, useRef, useState } from 'react';
+
+const MAX_HISTORY = 100;
+const COALESCE_WINDOW = 300; // ms
+
+/**
+ * Snapshot-based undo/redo. Call `record()` *before* applying an undoable
+ * change; `restore` is invoked with the snapshot to go back (or forward) to.
+ *
+ * Calls that share a `coalesceKey` and arrive within a short window of each
+ * other (e.g. every mousemove of a spotlight drag) collapse into the first
+ * entry, so a single gesture is undone in one step.
+ */
+export const useHistory = <T>(current: T, restore: (snapshot: T) => void) => {
+  const currentRef = useRef(current);
+  currentRef.current = current;
+  const past = useRef<T[]>([]);
+  const future = useRef<T[]>([]);
+  const lastRecord = useRef<{ key: string; time: number } | null>(null);
+  const [, setVersion] = useState(0);
+  const refresh = () => setVersion((v) => v + 1);
+
+  const record = useCallback((coalesceKey?: string) => {
+    const now = Date.now();
+    const last = lastRecord.current;
+    lastRecord.current = coalesceKey ? { key: coalesceKey, time: now } : null;
+    if (
+      coalesceKey &&
+      last?.key === coalesceKey &&
+      now - last.time < COALESCE_WINDOW
+    ) {
+      return;
+    }
+    past.current = [...past.current, currentRef.current].slice(-MAX_HISTORY);
+    future.current = [];
+    refresh();
+  }, []);
+
+  /** Ends the current gesture: the next `record()` starts a new entry. */
+  const seal = useCallback(() => {
+    lastRecord.current = null;
+  }, []);
+
+  const undo = useCallback(() => {
+    const previous = past.current[past.current.length - 1];
+    if (previous === undefined) return;
+    past.current = past.current.slice(0, -1);
+    future.current = [currentRef.current, ...future.current];
+    lastRecord.current = null;
+    restore(previous);
+    refresh();
+  }, [restore]);
+
+  const redo = useCallback(() => {
+    const [next, ...rest] = future.current;
+    if (next === undefined) return;
+    future.current = rest;
+    past.current = [...past.current, currentRef.current];
+    lastRecord.current = null;
+    restore(next);
+    refresh();
+  }, [restore]);
+
+  const clear = useCallback(() => {
+    past.current = [];
+    future.current = [];
+    lastRecord.current = null;
+    refresh();
+  }, []);
+
+  /** Every snapshot still reachable through undo or redo. */
+  const getSnapshots = useCallback(
+    () => [...past.current, ...future.current],
+    []
+  );
+
+  return {
+    record,
+    seal,
+    undo,
+    redo,
+    clear,
+    getSnapshots,
+    canUndo: past.current.length > 0,
+    canRedo: future.current.length > 0,
+  };
+};
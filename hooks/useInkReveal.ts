@@ -0,0 +1,69 @@
+import { useLayoutEffect, useRef, useState } from 'react';
+
+import { Annotation } from '../types';
+import { getStrokeDuration, isInk } from '../utils/ink';
+
+import { TweenOptions } from './useTween';
+
+const NOT_REVEALING: ReadonlyMap<number, number> = new Map();
+
+/**
+ * Redraws ink strokes progressively as they become visible during a replay:
+ * each new stroke is paced by its recorded point timing, stretched to fill
+ * `animation`. Returns how far into each stroke (in recorded ms) drawing has
+ * got; strokes missing from the map are drawn in full. Without an animation
+ * new strokes simply appear.
+ */
+export const useInkReveal = (
+  annotations: Annotation[],
+  visibleIds: number[],
+  animation: TweenOptions | null
+): ReadonlyMap<number, number> => {
+  const [revealing, setRevealing] = useState(NOT_REVEALING);
+  const shownRef = useRef(new Set(visibleIds));
+  const settingsRef = useRef({ annotations, animation });
+  settingsRef.current = { annotations, animation };
+  // Compared by content: a re-sent frame with the same strokes isn't news.
+  const visibleKey = visibleIds.join(',');
+
+  useLayoutEffect(() => {
+    const previous = shownRef.current;
+    const shown = new Set(visibleKey ? visibleKey.split(',').map(Number) : []);
+    shownRef.current = shown;
+    const { annotations, animation } = settingsRef.current;
+    const strokes = annotations
+      .filter(isInk)
+      .filter((stroke) => shown.has(stroke.id) && !previous.has(stroke.id));
+
+    if (
+      !animation ||
+      animation.durationMs <= 0 ||
+      strokes.length === 0 ||
+      typeof requestAnimationFrame === 'undefined'
+    ) {
+      setRevealing(NOT_REVEALING);
+      return;
+    }
+
+    const progressAt = (progress: number) =>
+      new Map(
+        strokes.map((stroke) => [
+          stroke.id,
+          progress * getStrokeDuration(stroke),
+        ])
+      );
+    // New strokes start out as just their first point, not fully drawn.
+    setRevealing(progressAt(0));
+    const start = performance.now();
+    let frame = 0;
+    const step = (now: number) => {
+      const progress = Math.min(1, (now - start) / animation.durationMs);
+      setRevealing(progress >= 1 ? NOT_REVEALING : progressAt(progress));
+      if (progress < 1) frame = requestAnimationFrame(step);
+    };
+    frame = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(frame);
+  }, [visibleKey]);
+
+  return revealing;
+};
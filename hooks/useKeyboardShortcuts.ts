@@ -1,50 +1,71 @@
-import { useEffect } from 'react';
+import { useEffect, useRef } from 'react';
 
-import { Tool } from '../types';
+import {
+  CHORD_TIMEOUT_MS,
+  CommandId,
+  CommandStates,
+  KeyBindings,
+  getKeyCombo,
+  matchShortcut,
+} from '../utils/shortcuts';
 
+/**
+ * Runs the command bound to each key press. Only commands that are given
+ * and not disabled answer, so keys shared between commands go to whichever
+ * applies at the moment.
+ */
 export const useKeyboardShortcuts = (
-  setActiveTool: (tool: Tool) => void,
-  toggleCapture: () => void,
-  goToNextSlide: () => void,
-  goToPrevSlide: () => void
+  bindings: KeyBindings,
+  commands: Partial<CommandStates>,
+  isEnabled = true
 ) => {
+  const commandsRef = useRef(commands);
+  commandsRef.current = commands;
+
   useEffect(() => {
+    if (!isEnabled) return;
+    let prefix: string | null = null;
+    let chordTimer: ReturnType<typeof setTimeout> | undefined;
+
     const handleKeyDown = (event: KeyboardEvent) => {
+      // A focused element (the canvas taking Space as a click, say) has
+      // already handled the key.
+      if (event.defaultPrevented) return;
+      const target = event.target as HTMLElement;
       if (
-        ['input', 'textarea'].includes(
-          (event.target as HTMLElement).tagName.toLowerCase()
-        )
+        ['input', 'textarea', 'select'].includes(
+          target.tagName.toLowerCase()
+        ) ||
+        target.isContentEditable
       ) {
         return;
       }
+      const combo = getKeyCombo(event);
+      if (!combo) return;
 
-      switch (event.key.toLowerCase()) {
-        case 'a':
-          event.preventDefault();
-          setActiveTool(Tool.PAN_ZOOM);
-          break;
-        case 's':
-          event.preventDefault();
-          setActiveTool(Tool.SPOTLIGHT);
-          break;
-        case 'c':
-          event.preventDefault();
-          toggleCapture();
-          break;
-        case 'arrowright':
-          event.preventDefault();
-          goToNextSlide();
-          break;
-        case 'arrowleft':
-          event.preventDefault();
-          goToPrevSlide();
-          break;
+      const activeIds = (
+        Object.keys(commandsRef.current) as CommandId[]
+      ).filter((id) => !commandsRef.current[id]?.isDisabled);
+      const match = matchShortcut(bindings, activeIds, prefix, combo);
+      clearTimeout(chordTimer);
+      prefix = null;
+      if (!match) return;
+      // Unbound keys, modified ones especially, are left to the browser.
+      event.preventDefault();
+      if (match.type === 'chord') {
+        prefix = match.prefix;
+        chordTimer = setTimeout(() => {
+          prefix = null;
+        }, CHORD_TIMEOUT_MS);
+      } else {
+        commandsRef.current[match.id]?.run();
       }
     };
 
     window.addEventListener('keydown', handleKeyDown);
     return () => {
+      clearTimeout(chordTimer);
       window.removeEventListener('keydown', handleKeyDown);
     };
-  }, [setActiveTool, toggleCapture, goToNextSlide, goToPrevSlide]);
+  }, [bindings, isEnabled]);
 };
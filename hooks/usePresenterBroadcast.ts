@@ -0,0 +1,42 @@
+import { useEffect, useRef } from 'react';
+
+import {
+  AudienceFrame,
+  PresenterChannel,
+  isPresenterChannelAvailable,
+  openPresenterChannel,
+} from '../utils/presenterChannel';
+
+/**
+ * Mirrors `frame` to the audience window while `enabled`. A newly opened (or
+ * reloaded) audience window asks for the latest frame; ending the broadcast
+ * tells it the presentation is over.
+ */
+export const usePresenterBroadcast = (
+  enabled: boolean,
+  frame: AudienceFrame
+) => {
+  const channelRef = useRef<PresenterChannel | null>(null);
+  const frameRef = useRef(frame);
+  frameRef.current = frame;
+
+  useEffect(() => {
+    if (!enabled || !isPresenterChannelAvailable()) return;
+    const channel = openPresenterChannel((message) => {
+      if (message.type === 'request-frame') {
+        channel.post({ type: 'frame', frame: frameRef.current });
+      }
+    });
+    channelRef.current = channel;
+    channel.post({ type: 'frame', frame: frameRef.current });
+    return () => {
+      channel.post({ type: 'end' });
+      channel.close();
+      channelRef.current = null;
+    };
+  }, [enabled]);
+
+  useEffect(() => {
+    channelRef.current?.post({ type: 'frame', frame });
+  }, [frame]);
+};
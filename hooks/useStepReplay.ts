@@ -0,0 +1,57 @@
+import { useEffect, useRef } from 'react';
+
+import { ClickRecord, ReplayCursorState, Slide } from '../types';
+import { getSlideStatesAtStep } from '../utils/sequence';
+
+import { TweenOptions } from './useTween';
+
+interface StepReplayOptions {
+  isStepping: boolean;
+  currentStep: number;
+  sequence: ClickRecord[];
+  onSlideChange: (slideIndex: number) => void;
+  onCursorChange: (cursor: ReplayCursorState) => void;
+  onAnimationChange: (animation: TweenOptions) => void;
+  onSlidesChange: (update: (slides: Slide[]) => Slide[]) => void;
+}
+
+/**
+ * Shows `currentStep` while stepping through the sequence by hand: its slide,
+ * its click and the slide states every step up to it leaves behind.
+ */
+export const useStepReplay = (options: StepReplayOptions) => {
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const { isStepping, currentStep, sequence } = options;
+
+  useEffect(() => {
+    if (!isStepping || sequence.length === 0) return;
+
+    const record = sequence[currentStep];
+    if (!record) return;
+
+    const { onSlideChange, onCursorChange, onAnimationChange, onSlidesChange } =
+      optionsRef.current;
+    onSlideChange(record.slideIndex);
+
+    onCursorChange({
+      x: record.x,
+      y: record.y,
+      slideIndex: record.slideIndex,
+      travelMs: record.timing.transitionMs,
+      easing: record.timing.easing,
+      path: record.path,
+      clickId: record.id,
+    });
+
+    onAnimationChange({
+      durationMs: record.timing.animationMs,
+      easing: record.timing.easing,
+    });
+    // Fold every step up to this one, so stepping back also takes back what
+    // later steps showed (annotations in particular).
+    onSlidesChange((prev) =>
+      getSlideStatesAtStep(prev, sequence, currentStep + 1)
+    );
+  }, [isStepping, currentStep, sequence]);
+};
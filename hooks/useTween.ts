@@ -0,0 +1,53 @@
+import { useLayoutEffect, useRef, useState } from 'react';
+
+import { EasingName } from '../types';
+import { EASINGS } from '../utils/animation';
+
+export interface TweenOptions {
+  durationMs: number;
+  easing: EasingName;
+}
+
+/**
+ * Animates towards `target` with requestAnimationFrame whenever it changes
+ * (compared by reference), starting from whatever value is currently shown,
+ * so a new target mid-animation continues smoothly. A zero duration jumps.
+ */
+export const useTween = <T>(
+  target: T,
+  interpolate: (from: T, to: T, t: number) => T,
+  { durationMs, easing }: TweenOptions
+): T => {
+  const [value, setValue] = useState(target);
+  const valueRef = useRef(target);
+  const settingsRef = useRef({ interpolate, durationMs, easing });
+  settingsRef.current = { interpolate, durationMs, easing };
+
+  useLayoutEffect(() => {
+    const from = valueRef.current;
+    if (from === target) return;
+    const { interpolate, durationMs, easing } = settingsRef.current;
+
+    if (durationMs <= 0 || typeof requestAnimationFrame === 'undefined') {
+      valueRef.current = target;
+      setValue(target);
+      return;
+    }
+
+    const ease = EASINGS[easing];
+    const start = performance.now();
+    let frame = 0;
+    const step = (now: number) => {
+      const progress = Math.min(1, (now - start) / durationMs);
+      const next =
+        progress >= 1 ? target : interpolate(from, target, ease(progress));
+      valueRef.current = next;
+      setValue(next);
+      if (progress < 1) frame = requestAnimationFrame(step);
+    };
+    frame = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(frame);
+  }, [target]);
+
+  return value;
+};
@@ -2,6 +2,8 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 
 import App from './App';
+import { AudienceView } from './components/AudienceView';
+import { isAudienceView } from './utils/presenterChannel';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -11,6 +13,6 @@ if (!rootElement) {
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    {isAudienceView() ? <AudienceView /> : <App />}
   </React.StrictMode>
 );
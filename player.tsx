@@ -0,0 +1,29 @@
+import React from 'react';
+import ReactDOM from 'react-dom/client';
+
+import { Player } from './components/Player';
+import { PLAYER_DATA_ID, deserializeProject } from './utils/exportUtils';
+import { parseProject } from './utils/projectSchema';
+import { getActiveSequence } from './utils/sequences';
+
+// Entry point of the standalone player that `exportPlayerFile` embeds in
+// exported HTML files, next to the project it plays.
+const rootElement = document.getElementById('root');
+const dataElement = document.getElementById(PLAYER_DATA_ID);
+if (!rootElement || !dataElement) {
+  throw new Error('Could not find the player root or its project data');
+}
+
+const { slides, sequences, activeSequenceId } = deserializeProject(
+  parseProject(JSON.parse(dataElement.textContent ?? ''))
+);
+
+const root = ReactDOM.createRoot(rootElement);
+root.render(
+  <React.StrictMode>
+    <Player
+      slides={slides}
+      sequence={getActiveSequence(sequences, activeSequenceId)?.steps ?? []}
+    />
+  </React.StrictMode>
+);
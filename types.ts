@@ -2,6 +2,9 @@ export enum Tool {
   NONE = 'none',
   PAN_ZOOM = 'pan_zoom',
   SPOTLIGHT = 'spotlight',
+  ANNOTATE = 'annotate',
+  INK = 'ink',
+  LASER = 'laser',
 }
 
 export interface CanvasTransform {
@@ -10,13 +13,106 @@ export interface CanvasTransform {
   y: number;
 }
 
-export interface SpotlightState {
-  type: 'circle' | 'rect';
+export type SpotlightShapeType =
+  | 'circle'
+  | 'ellipse'
+  | 'rect'
+  | 'roundedRect'
+  | 'polygon';
+
+// Circles are a centre (x, y) and a radius; every other shape is a box from
+// its top-left corner. `radius` rounds the corners of 'roundedRect' and
+// `points` outlines a 'polygon' (whose box is kept as its bounds).
+export interface SpotlightRegion {
+  id: number;
+  type: SpotlightShapeType;
   x: number;
   y: number;
   width: number;
   height: number;
   radius: number;
+  points: { x: number; y: number }[];
+}
+
+export interface SpotlightState {
+  regions: SpotlightRegion[];
+  dimOpacity: number; // how dark the area outside the regions gets, 0-1
+  blur: number; // blur of the area outside, in content-box widths
+  feather: number; // softness of the region edges, in content-box widths
+}
+
+// A sample of pointer movement in content space, `t` ms after the first one.
+export interface TimedPoint {
+  x: number;
+  y: number;
+  t: number;
+}
+
+// Ink points also carry the stylus pressure (0-1) when drawn with a pen.
+export interface InkPoint extends TimedPoint {
+  pressure?: number;
+}
+
+// Annotation geometry is in content space (see utils/coordinates.ts). Arrows
+// point from (x, y) to (x + width, y + height), so their size may be negative.
+export type ShapeAnnotationKind = 'arrow' | 'rect' | 'ellipse';
+export type AnnotationKind = ShapeAnnotationKind | 'text';
+
+interface AnnotationBase {
+  id: number;
+  color: string;
+}
+
+export interface ShapeAnnotation extends AnnotationBase {
+  kind: ShapeAnnotationKind;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface TextAnnotation extends AnnotationBase {
+  kind: 'text';
+  x: number; // top-left corner of the callout
+  y: number;
+  text: string;
+}
+
+export type InkBrush = 'pen' | 'highlighter';
+
+// Freehand strokes are drawn with the ink tool rather than placed as shapes,
+// so they are not an `AnnotationKind`. Width is in content-box widths.
+export interface InkAnnotation extends AnnotationBase {
+  kind: 'ink';
+  brush: InkBrush;
+  width: number;
+  points: InkPoint[]; // timed so replay can redraw the stroke at pace
+}
+
+export type Annotation = ShapeAnnotation | TextAnnotation | InkAnnotation;
+
+/** Where a slide's video was, and how it was playing. */
+export interface VideoPlayback {
+  time: number; // seconds from the start
+  isPlaying: boolean;
+  isMuted: boolean;
+  rate: number; // 1 is normal speed
+}
+
+export type VideoAction =
+  | 'play'
+  | 'pause'
+  | 'seek'
+  | 'mute'
+  | 'unmute'
+  | 'rate';
+
+/** The part of a slide's view that steps capture and replay. */
+export interface ToolState {
+  transform: CanvasTransform;
+  spotlight: SpotlightState | null;
+  annotationIds: number[]; // annotations shown, in drawing order
+  video: VideoPlayback | null; // null unless the slide shows a video
 }
 
 export interface Slide {
@@ -25,6 +121,37 @@ export interface Slide {
   mediaType: 'image' | 'video' | null;
   transform: CanvasTransform;
   spotlight: SpotlightState | null;
+  notes: string; // markdown speaker notes, empty when there are none
+  annotations: Annotation[]; // everything placed on the slide
+  visibleAnnotationIds: number[];
+  // Playback last set by replay or a step preview; the video is left alone
+  // while null. Not saved with the project.
+  video: VideoPlayback | null;
+}
+
+export type EasingName =
+  | 'linear'
+  | 'easeInOutCubic'
+  | 'easeOutCubic'
+  | 'easeInOutSine';
+
+export interface StepTiming {
+  transitionMs: number; // cursor travel before the step is applied
+  animationMs: number; // camera/spotlight move once the step is applied
+  dwellMs: number; // hold after the move has finished
+  easing: EasingName;
+}
+
+export interface ReplayCursorState {
+  x: number;
+  y: number;
+  slideIndex: number;
+  travelMs: number;
+  easing: EasingName;
+  // When not empty, the cursor follows this recorded path (ending at x, y)
+  // over `travelMs` instead of gliding straight there.
+  path: TimedPoint[];
+  clickId: number | null; // set when the click lands, to play the ripple
 }
 
 export interface ClickRecord {
@@ -32,8 +159,49 @@ export interface ClickRecord {
   slideIndex: number;
   x: number;
   y: number;
-  toolState: {
-    transform: CanvasTransform;
-    spotlight: SpotlightState | null;
-  };
+  toolState: ToolState;
+  timing: StepTiming;
+  notes: string; // markdown talking point for this step, may be empty
+  path: TimedPoint[]; // pointer movement leading up to the click, if recorded
+  videoAction: VideoAction | null; // set when captured from the video controls
+}
+
+/**
+ * A named run through the slides. A project can hold several, say a short
+ * and a long version of the same talk, all over the same slides.
+ */
+export interface ClickSequence {
+  id: string;
+  name: string;
+  steps: ClickRecord[];
+}
+
+export interface ProjectFileMedia {
+  mimeType: string;
+  data: string; // base64-encoded media bytes
+}
+
+export interface ProjectFileSlide {
+  id: number;
+  mediaType: 'image' | 'video' | null;
+  media: ProjectFileMedia | null;
+  transform: CanvasTransform;
+  spotlight: SpotlightState | null;
+  notes: string;
+  annotations: Annotation[];
+  visibleAnnotationIds: number[];
+}
+
+// Where stored geometry lives: 'content' is relative to the media (see
+// utils/coordinates.ts); 'pixels' marks projects saved before that, which
+// recorded raw canvas pixels and are converted on load.
+export type CoordinateSpace = 'content' | 'pixels';
+
+export interface ProjectFile {
+  version: number;
+  savedAt: string;
+  coordinateSpace: CoordinateSpace;
+  slides: ProjectFileSlide[];
+  sequences: ClickSequence[]; // at least one
+  activeSequenceId: string; // the one last captured into or replayed
 }
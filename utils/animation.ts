@@ -0,0 +1,262 @@
+import {
+  CanvasTransform,
+  EasingName,
+  SpotlightRegion,
+  SpotlightState,
+} from '../types';
+
+import { ContentBox, Point, Size, layoutToScreen } from './coordinates';
+
+export const EASINGS: Record<EasingName, (t: number) => number> = {
+  linear: (t) => t,
+  easeInOutCubic: (t) =>
+    t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2,
+  easeOutCubic: (t) => 1 - Math.pow(1 - t, 3),
+  easeInOutSine: (t) => -(Math.cos(Math.PI * t) - 1) / 2,
+};
+
+export const EASING_LABELS: Record<EasingName, string> = {
+  linear: 'Linear',
+  easeInOutCubic: 'Ease in-out',
+  easeOutCubic: 'Ease out',
+  easeInOutSine: 'Gentle',
+};
+
+/**
+ * A CSS `cubic-bezier()` timing function, for reproducing transitions the
+ * browser runs (the slide strip, the click ripple) outside the DOM.
+ */
+export const cubicBezier = (x1: number, y1: number, x2: number, y2: number) => {
+  const sample = (a: number, b: number, t: number) =>
+    3 * a * t * (1 - t) ** 2 + 3 * b * t * t * (1 - t) + t ** 3;
+  return (x: number) => {
+    if (x <= 0) return 0;
+    if (x >= 1) return 1;
+    // x grows with the curve parameter, so bisect for the one that gives x.
+    let low = 0;
+    let high = 1;
+    let t = x;
+    for (let i = 0; i < 30; i++) {
+      t = (low + high) / 2;
+      if (sample(x1, x2, t) < x) low = t;
+      else high = t;
+    }
+    return sample(y1, y2, t);
+  };
+};
+
+export const CSS_EASE_IN_OUT = cubicBezier(0.42, 0, 0.58, 1);
+export const CSS_EASE_OUT = cubicBezier(0, 0, 0.58, 1);
+
+// How long the replay cursor's click ripple plays.
+export const CURSOR_RIPPLE_MS = 600;
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+/**
+ * Interpolates between two transforms by zooming around their shared fixed
+ * point instead of lerping x/y independently, so content under that point
+ * stays put and scale changes geometrically (zooming 1→4 passes 2 halfway).
+ */
+export const interpolateTransform = (
+  from: CanvasTransform,
+  to: CanvasTransform,
+  t: number
+): CanvasTransform => {
+  const scale = from.scale * Math.pow(to.scale / from.scale, t);
+  const scaleDelta = from.scale - to.scale;
+  if (Math.abs(scaleDelta) < 1e-6) {
+    return { scale, x: lerp(from.x, to.x, t), y: lerp(from.y, to.y, t) };
+  }
+  // Offset (from the transform origin) of the point both transforms map to
+  // the same place: from.t + from.s * q === to.t + to.s * q.
+  const qx = (to.x - from.x) / scaleDelta;
+  const qy = (to.y - from.y) / scaleDelta;
+  return {
+    scale,
+    x: from.x + (from.scale - scale) * qx,
+    y: from.y + (from.scale - scale) * qy,
+  };
+};
+
+/**
+ * One spotlight region normalised to a rounded rectangle, which circles,
+ * ellipses and rects can all be morphed through. Polygons keep their
+ * outline in `points`. `opacity` fades regions in and out.
+ */
+export interface SpotlightRegionShape {
+  id: number;
+  cx: number;
+  cy: number;
+  width: number;
+  height: number;
+  rx: number;
+  ry: number;
+  points: { x: number; y: number }[] | null;
+  opacity: number;
+}
+
+export interface SpotlightShape {
+  regions: SpotlightRegionShape[];
+  dimOpacity: number;
+  blur: number;
+  feather: number;
+  opacity: number; // fades the whole spotlight in and out
+}
+
+const regionToShape = (region: SpotlightRegion): SpotlightRegionShape => {
+  if (region.type === 'circle') {
+    return {
+      id: region.id,
+      cx: region.x,
+      cy: region.y,
+      width: region.radius * 2,
+      height: region.radius * 2,
+      rx: region.radius,
+      ry: region.radius,
+      points: null,
+      opacity: 1,
+    };
+  }
+  const corner =
+    region.type === 'roundedRect'
+      ? { rx: region.radius, ry: region.radius }
+      : region.type === 'ellipse'
+        ? { rx: region.width / 2, ry: region.height / 2 }
+        : { rx: 0, ry: 0 };
+  return {
+    id: region.id,
+    cx: region.x + region.width / 2,
+    cy: region.y + region.height / 2,
+    width: region.width,
+    height: region.height,
+    ...corner,
+    points: region.type === 'polygon' ? region.points : null,
+    opacity: 1,
+  };
+};
+
+export const spotlightToShape = (
+  spotlight: SpotlightState
+): SpotlightShape => ({
+  regions: spotlight.regions.map(regionToShape),
+  dimOpacity: spotlight.dimOpacity,
+  blur: spotlight.blur,
+  feather: spotlight.feather,
+  opacity: 1,
+});
+
+/**
+ * Moves a shape laid out in the untransformed canvas to where the transform
+ * shows it.
+ */
+export const transformSpotlightShape = (
+  shape: SpotlightShape,
+  transform: CanvasTransform,
+  box: ContentBox,
+  viewport: Size
+): SpotlightShape => {
+  const toScreen = (point: Point) =>
+    layoutToScreen(point, transform, box, viewport);
+  return {
+    ...shape,
+    regions: shape.regions.map((region) => {
+      const center = toScreen({ x: region.cx, y: region.cy });
+      return {
+        ...region,
+        cx: center.x,
+        cy: center.y,
+        width: region.width * transform.scale,
+        height: region.height * transform.scale,
+        rx: region.rx * transform.scale,
+        ry: region.ry * transform.scale,
+        points: region.points && region.points.map(toScreen),
+      };
+    }),
+    blur: shape.blur * transform.scale,
+    feather: shape.feather * transform.scale,
+  };
+};
+
+// Outlines can only morph point by point; anything else cross-fades.
+const canMorph = (from: SpotlightRegionShape, to: SpotlightRegionShape) =>
+  from.points === null
+    ? to.points === null
+    : to.points !== null && to.points.length === from.points.length;
+
+const interpolateRegion = (
+  from: SpotlightRegionShape,
+  to: SpotlightRegionShape,
+  t: number
+): SpotlightRegionShape => ({
+  id: to.id,
+  cx: lerp(from.cx, to.cx, t),
+  cy: lerp(from.cy, to.cy, t),
+  width: lerp(from.width, to.width, t),
+  height: lerp(from.height, to.height, t),
+  rx: lerp(from.rx, to.rx, t),
+  ry: lerp(from.ry, to.ry, t),
+  points:
+    from.points && to.points
+      ? to.points.map((point, index) => {
+          const start = from.points?.[index] ?? point;
+          return { x: lerp(start.x, point.x, t), y: lerp(start.y, point.y, t) };
+        })
+      : null,
+  opacity: lerp(from.opacity, to.opacity, t),
+});
+
+export const interpolateSpotlight = (
+  from: SpotlightShape | null,
+  to: SpotlightShape | null,
+  t: number
+): SpotlightShape | null => {
+  if (!from && !to) return null;
+  if (t >= 1) return to;
+  // Appearing or disappearing spotlights fade rather than grow from nothing.
+  const start = from ?? { ...(to as SpotlightShape), opacity: 0 };
+  const end = to ?? { ...(from as SpotlightShape), opacity: 0 };
+  // Regions are matched by id; the rest fade out or in where they are.
+  const regions: SpotlightRegionShape[] = [];
+  start.regions.forEach((region) => {
+    const target = end.regions.find((other) => other.id === region.id);
+    if (!target || !canMorph(region, target)) {
+      regions.push({ ...region, opacity: lerp(region.opacity, 0, t) });
+    }
+  });
+  end.regions.forEach((region) => {
+    const source = start.regions.find((other) => other.id === region.id);
+    regions.push(
+      source && canMorph(source, region)
+        ? interpolateRegion(source, region, t)
+        : { ...region, opacity: lerp(0, region.opacity, t) }
+    );
+  });
+  return {
+    regions,
+    dimOpacity: lerp(start.dimOpacity, end.dimOpacity, t),
+    blur: lerp(start.blur, end.blur, t),
+    feather: lerp(start.feather, end.feather, t),
+    opacity: lerp(start.opacity, end.opacity, t),
+  };
+};
+
+/**
+ * Point along a gentle arc from `from` to `to`, like a hand moving a mouse.
+ * The control point sits off the straight line by a fraction of the distance.
+ */
+export const interpolateCursor = (
+  from: { x: number; y: number },
+  to: { x: number; y: number },
+  t: number
+) => {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const controlX = from.x + dx / 2 - dy * 0.15;
+  const controlY = from.y + dy / 2 + dx * 0.15;
+  const u = 1 - t;
+  return {
+    x: u * u * from.x + 2 * u * t * controlX + t * t * to.x,
+    y: u * u * from.y + 2 * u * t * controlY + t * t * to.y,
+  };
+};
@@ -0,0 +1,120 @@
+import {
+  AnnotationKind,
+  ShapeAnnotation,
+  ShapeAnnotationKind,
+  TextAnnotation,
+} from '../types';
+
+import { Point } from './coordinates';
+
+export interface AnnotationStyle {
+  kind: AnnotationKind;
+  color: string;
+}
+
+export const ANNOTATION_COLORS = [
+  '#f43f5e',
+  '#facc15',
+  '#22d3ee',
+  '#4ade80',
+  '#ffffff',
+];
+
+export const DEFAULT_ANNOTATION_STYLE: AnnotationStyle = {
+  kind: 'arrow',
+  color: ANNOTATION_COLORS[0] as string,
+};
+
+export const ANNOTATION_KIND_LABELS: Record<AnnotationKind, string> = {
+  arrow: 'Arrow',
+  rect: 'Box',
+  ellipse: 'Ellipse',
+  text: 'Text',
+};
+
+// Sizes in content-box widths, so annotations scale with the media.
+export const ANNOTATION_STROKE_WIDTH = 0.004;
+export const ANNOTATION_TEXT_SIZE = 0.025;
+
+/** Stroke width in pixels, never so thin that it disappears. */
+export const getAnnotationStrokeWidth = (pixelsPerUnit: number) =>
+  Math.max(1.5, ANNOTATION_STROKE_WIDTH * pixelsPerUnit);
+
+/** Callout font size in pixels, never too small to read. */
+export const getAnnotationFontSize = (pixelsPerUnit: number) =>
+  Math.max(10, ANNOTATION_TEXT_SIZE * pixelsPerUnit);
+
+/** The two back corners of an arrowhead pointing at `end`, in pixels. */
+export const getArrowheadCorners = (
+  start: Point,
+  end: Point,
+  strokeWidth: number
+): [Point, Point] => {
+  const angle = Math.atan2(end.y - start.y, end.x - start.x);
+  const length = strokeWidth * 4 + 6;
+  const corner = (a: number) => ({
+    x: end.x - length * Math.cos(a),
+    y: end.y - length * Math.sin(a),
+  });
+  return [corner(angle - Math.PI / 7), corner(angle + Math.PI / 7)];
+};
+
+let lastAnnotationId = 0;
+
+export const createAnnotationId = () => {
+  lastAnnotationId = Math.max(Date.now(), lastAnnotationId + 1);
+  return lastAnnotationId;
+};
+
+/**
+ * A shape dragged out from `start` to `end`. Boxes and ellipses are stored
+ * with a positive size; arrows keep their direction.
+ */
+export const createShapeAnnotation = (
+  kind: ShapeAnnotationKind,
+  color: string,
+  start: Point,
+  end: Point
+): ShapeAnnotation =>
+  kind === 'arrow'
+    ? {
+        id: createAnnotationId(),
+        kind,
+        color,
+        x: start.x,
+        y: start.y,
+        width: end.x - start.x,
+        height: end.y - start.y,
+      }
+    : {
+        id: createAnnotationId(),
+        kind,
+        color,
+        x: Math.min(start.x, end.x),
+        y: Math.min(start.y, end.y),
+        width: Math.abs(end.x - start.x),
+        height: Math.abs(end.y - start.y),
+      };
+
+export const moveAnnotation = <T extends ShapeAnnotation | TextAnnotation>(
+  annotation: T,
+  dx: number,
+  dy: number
+): T => ({ ...annotation, x: annotation.x + dx, y: annotation.y + dy });
+
+/** Moves one end of a shape (its origin or opposite corner) to `point`. */
+export const moveShapeHandle = (
+  shape: ShapeAnnotation,
+  handle: 'start' | 'end',
+  point: Point
+): ShapeAnnotation => {
+  const start = handle === 'start' ? point : { x: shape.x, y: shape.y };
+  const end =
+    handle === 'end'
+      ? point
+      : { x: shape.x + shape.width, y: shape.y + shape.height };
+  return {
+    ...createShapeAnnotation(shape.kind, shape.color, start, end),
+    id: shape.id,
+  };
+};
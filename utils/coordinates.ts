@@ -0,0 +1,416 @@
+import {
+  CanvasTransform,
+  ClickRecord,
+  ClickSequence,
+  CoordinateSpace,
+  Slide,
+  SpotlightRegion,
+  SpotlightState,
+} from '../types';
+
+import { getMediaSize } from './media';
+import { INITIAL_TRANSFORM } from './sequence';
+
+/**
+ * Coordinate spaces:
+ *
+ * - Screen space: CSS pixels relative to the canvas' top-left corner.
+ * - Content space: positions normalised to the media's displayed content box
+ *   (0..1 across its width and height), before the slide transform applies.
+ *   This is what gets stored, so a sequence recorded on a laptop replays in
+ *   the same places on a projector.
+ *
+ * `CanvasTransform.x/y` are translations in content-box widths/heights and
+ * scale is applied around the canvas centre (the CSS default origin).
+ * Spotlight radii, blur and feathering are measured in content-box widths.
+ */
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/** The untransformed rectangle the media occupies inside the canvas. */
+export interface ContentBox {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Mirrors how the media is laid out: centred, scaled down to fit
+ * (`max-w-full max-h-full object-contain`) but never scaled up. Without known
+ * media dimensions the whole canvas is the content box.
+ */
+export const getContentBox = (
+  viewport: Size,
+  media: Size | null
+): ContentBox => {
+  if (!media || media.width <= 0 || media.height <= 0) {
+    return { left: 0, top: 0, width: viewport.width, height: viewport.height };
+  }
+  const fit = Math.min(
+    1,
+    viewport.width / media.width,
+    viewport.height / media.height
+  );
+  const width = media.width * fit;
+  const height = media.height * fit;
+  return {
+    left: (viewport.width - width) / 2,
+    top: (viewport.height - height) / 2,
+    width,
+    height,
+  };
+};
+
+/** The transform's translation in screen pixels, for CSS. */
+export const getPixelTranslation = (
+  transform: CanvasTransform,
+  box: ContentBox
+): Point => ({ x: transform.x * box.width, y: transform.y * box.height });
+
+/** Where a content point sits in the canvas before the transform applies. */
+export const contentToLayout = (point: Point, box: ContentBox): Point => ({
+  x: box.left + point.x * box.width,
+  y: box.top + point.y * box.height,
+});
+
+/** Applies the slide transform to an untransformed canvas position. */
+export const layoutToScreen = (
+  point: Point,
+  transform: CanvasTransform,
+  box: ContentBox,
+  viewport: Size
+): Point => {
+  const translation = getPixelTranslation(transform, box);
+  const centerX = viewport.width / 2;
+  const centerY = viewport.height / 2;
+  return {
+    x: centerX + translation.x + transform.scale * (point.x - centerX),
+    y: centerY + translation.y + transform.scale * (point.y - centerY),
+  };
+};
+
+export const contentToScreen = (
+  point: Point,
+  transform: CanvasTransform,
+  box: ContentBox,
+  viewport: Size
+): Point =>
+  layoutToScreen(contentToLayout(point, box), transform, box, viewport);
+
+export const screenToContent = (
+  point: Point,
+  transform: CanvasTransform,
+  box: ContentBox,
+  viewport: Size
+): Point => {
+  const translation = getPixelTranslation(transform, box);
+  const centerX = viewport.width / 2;
+  const centerY = viewport.height / 2;
+  const untransformedX =
+    centerX + (point.x - centerX - translation.x) / transform.scale;
+  const untransformedY =
+    centerY + (point.y - centerY - translation.y) / transform.scale;
+  return {
+    x: (untransformedX - box.left) / box.width,
+    y: (untransformedY - box.top) / box.height,
+  };
+};
+
+/** Screen pixels per content-box width at the given transform. */
+export const contentUnitToPixels = (
+  transform: CanvasTransform,
+  box: ContentBox
+) => transform.scale * box.width;
+
+/** Transform that scales by `scale` and centres the given content point. */
+export const centerOnContentPoint = (
+  point: Point,
+  scale: number,
+  box: ContentBox,
+  viewport: Size
+): CanvasTransform => ({
+  scale,
+  x:
+    (-scale * (box.left + point.x * box.width - viewport.width / 2)) /
+    box.width,
+  y:
+    (-scale * (box.top + point.y * box.height - viewport.height / 2)) /
+    box.height,
+});
+
+export const MIN_SCALE = 0.5;
+export const MAX_SCALE = 20;
+
+/**
+ * Transform at `scale` that keeps whatever is under `screenPoint` where it
+ * is, for zooming around the cursor.
+ */
+export const zoomAtScreenPoint = (
+  transform: CanvasTransform,
+  screenPoint: Point,
+  scale: number,
+  box: ContentBox,
+  viewport: Size
+): CanvasTransform => {
+  const layout = contentToLayout(
+    screenToContent(screenPoint, transform, box, viewport),
+    box
+  );
+  const centerX = viewport.width / 2;
+  const centerY = viewport.height / 2;
+  return {
+    scale,
+    x: (screenPoint.x - centerX - scale * (layout.x - centerX)) / box.width,
+    y: (screenPoint.y - centerY - scale * (layout.y - centerY)) / box.height,
+  };
+};
+
+/** Transform that fits a content-space rectangle to the canvas. */
+export const fitContentRect = (
+  rect: Point & Size,
+  box: ContentBox,
+  viewport: Size
+): CanvasTransform =>
+  centerOnContentPoint(
+    { x: rect.x + rect.width / 2, y: rect.y + rect.height / 2 },
+    Math.min(
+      viewport.width / (Math.abs(rect.width) * box.width),
+      viewport.height / (Math.abs(rect.height) * box.height)
+    ),
+    box,
+    viewport
+  );
+
+/**
+ * Keeps the scale within bounds and the media under the middle of the
+ * canvas, so it can't be zoomed or panned out of sight.
+ */
+export const clampTransform = (
+  transform: CanvasTransform,
+  box: ContentBox,
+  viewport: Size
+): CanvasTransform => {
+  const scale = Math.min(MAX_SCALE, Math.max(MIN_SCALE, transform.scale));
+  const clamped =
+    scale === transform.scale
+      ? transform
+      : zoomAtScreenPoint(
+          transform,
+          { x: viewport.width / 2, y: viewport.height / 2 },
+          scale,
+          box,
+          viewport
+        );
+  // Centring content point p instead of the media's middle shifts the
+  // offsets by (0.5 - p) * scale, so staying within half the scale of the
+  // centred offsets keeps the media under the middle of the canvas.
+  const centered = centerOnContentPoint(
+    { x: 0.5, y: 0.5 },
+    scale,
+    box,
+    viewport
+  );
+  const clampAxis = (value: number, center: number) =>
+    Math.min(center + scale / 2, Math.max(center - scale / 2, value));
+  return {
+    scale,
+    x: clampAxis(clamped.x, centered.x),
+    y: clampAxis(clamped.y, centered.y),
+  };
+};
+
+/** A content-space spotlight region in untransformed canvas pixels. */
+export const regionToLayout = (
+  region: SpotlightRegion,
+  box: ContentBox
+): SpotlightRegion => {
+  const origin = contentToLayout(region, box);
+  return {
+    ...region,
+    x: origin.x,
+    y: origin.y,
+    width: region.width * box.width,
+    height: region.height * box.height,
+    radius: region.radius * box.width,
+    points: region.points.map((point) => contentToLayout(point, box)),
+  };
+};
+
+/** A content-space spotlight region in canvas pixels, as it is shown. */
+export const regionToScreen = (
+  region: SpotlightRegion,
+  transform: CanvasTransform,
+  box: ContentBox,
+  viewport: Size
+): SpotlightRegion => {
+  const origin = contentToScreen(region, transform, box, viewport);
+  return {
+    ...region,
+    x: origin.x,
+    y: origin.y,
+    width: region.width * box.width * transform.scale,
+    height: region.height * box.height * transform.scale,
+    radius: region.radius * contentUnitToPixels(transform, box),
+    points: region.points.map((point) =>
+      contentToScreen(point, transform, box, viewport)
+    ),
+  };
+};
+
+/**
+ * Converts a spotlight region drawn in screen pixels (a circle centre +
+ * pixel radius, or a box) into content space.
+ */
+export const screenRegionToContent = (
+  region: SpotlightRegion,
+  transform: CanvasTransform,
+  box: ContentBox,
+  viewport: Size
+): SpotlightRegion => {
+  const origin = screenToContent(region, transform, box, viewport);
+  const corner = screenToContent(
+    { x: region.x + region.width, y: region.y + region.height },
+    transform,
+    box,
+    viewport
+  );
+  return {
+    ...region,
+    x: origin.x,
+    y: origin.y,
+    width: corner.x - origin.x,
+    height: corner.y - origin.y,
+    radius: region.radius / contentUnitToPixels(transform, box),
+    points: region.points.map((point) =>
+      screenToContent(point, transform, box, viewport)
+    ),
+  };
+};
+
+/** A content-space spotlight in untransformed canvas pixels. */
+export const spotlightToLayout = (
+  spotlight: SpotlightState,
+  box: ContentBox
+): SpotlightState => ({
+  ...spotlight,
+  regions: spotlight.regions.map((region) => regionToLayout(region, box)),
+  blur: spotlight.blur * box.width,
+  feather: spotlight.feather * box.width,
+});
+
+/** Converts a spotlight measured in screen pixels into content space. */
+export const screenSpotlightToContent = (
+  spotlight: SpotlightState,
+  transform: CanvasTransform,
+  box: ContentBox,
+  viewport: Size
+): SpotlightState => ({
+  ...spotlight,
+  regions: spotlight.regions.map((region) =>
+    screenRegionToContent(region, transform, box, viewport)
+  ),
+  blur: spotlight.blur / contentUnitToPixels(transform, box),
+  feather: spotlight.feather / contentUnitToPixels(transform, box),
+});
+
+/**
+ * Upgrades state from projects that stored raw screen pixels. Those values
+ * only make sense for the window they were recorded in, which is unknown, so
+ * the current viewport is assumed.
+ */
+export const convertPixelCoordinates = (
+  slides: Slide[],
+  clickSequence: ClickRecord[],
+  viewport: Size,
+  mediaSizes: (Size | null)[]
+): { slides: Slide[]; clickSequence: ClickRecord[] } => {
+  const boxFor = (slideIndex: number) =>
+    getContentBox(viewport, mediaSizes[slideIndex] ?? null);
+
+  const convertState = (
+    transform: CanvasTransform,
+    spotlight: SpotlightState | null,
+    box: ContentBox
+  ) => {
+    // Old translations were already pixels around the canvas centre.
+    const contentTransform = {
+      scale: transform.scale,
+      x: transform.x / box.width,
+      y: transform.y / box.height,
+    };
+    return {
+      transform: contentTransform,
+      spotlight: spotlight
+        ? screenSpotlightToContent(spotlight, contentTransform, box, viewport)
+        : null,
+    };
+  };
+
+  const viewBefore = new Map<number, CanvasTransform>();
+
+  return {
+    slides: slides.map((slide, index) => ({
+      ...slide,
+      ...convertState(slide.transform, slide.spotlight, boxFor(index)),
+    })),
+    clickSequence: clickSequence.map((record) => {
+      const box = boxFor(record.slideIndex);
+      const toolState = {
+        ...record.toolState,
+        ...convertState(
+          record.toolState.transform,
+          record.toolState.spotlight,
+          box
+        ),
+      };
+      // The click landed on the view left by the slide's previous step; its
+      // own transform only applies once it has been made.
+      const clickTransform =
+        viewBefore.get(record.slideIndex) ?? INITIAL_TRANSFORM;
+      viewBefore.set(record.slideIndex, toolState.transform);
+      const point = screenToContent(record, clickTransform, box, viewport);
+      return { ...record, x: point.x, y: point.y, toolState };
+    }),
+  };
+};
+
+/**
+ * Brings loaded project state into content space, measuring each slide's
+ * media. Projects that are already there are returned unchanged.
+ */
+export const convertLegacyProject = async (
+  project: {
+    slides: Slide[];
+    sequences: ClickSequence[];
+    activeSequenceId: string;
+    coordinateSpace: CoordinateSpace;
+  },
+  viewport: Size
+) => {
+  if (project.coordinateSpace === 'content') return project;
+  const mediaSizes = await Promise.all(
+    project.slides.map((slide) =>
+      slide.mediaUrl ? getMediaSize(slide.mediaUrl, slide.mediaType) : null
+    )
+  );
+  return {
+    ...project,
+    slides: convertPixelCoordinates(project.slides, [], viewport, mediaSizes)
+      .slides,
+    sequences: project.sequences.map((sequence) => ({
+      ...sequence,
+      steps: convertPixelCoordinates([], sequence.steps, viewport, mediaSizes)
+        .clickSequence,
+    })),
+    coordinateSpace: 'content' as const,
+  };
+};
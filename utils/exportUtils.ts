@@ -0,0 +1,158 @@
+import {
+  ClickSequence,
+  CoordinateSpace,
+  ProjectFile,
+  ProjectFileMedia,
+  ProjectFileSlide,
+  Slide,
+} from '../types';
+
+import { createMediaUrl, getMediaBlob } from './media';
+import {
+  CURRENT_PROJECT_VERSION,
+  ProjectValidationError,
+  parseProject,
+} from './projectSchema';
+
+export const PROJECT_FILE_EXTENSION = '.presentation.json';
+// Exported HTML players read their project from the script with this id.
+export const PLAYER_DATA_ID = 'presentation-data';
+
+const blobToBase64 = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const dataUrl = reader.result as string;
+      resolve(dataUrl.slice(dataUrl.indexOf(',') + 1));
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const base64ToBlob = (data: string, mimeType: string): Blob => {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+};
+
+const embedMedia = async (url: string): Promise<ProjectFileMedia> => {
+  const blob = await getMediaBlob(url);
+  return { mimeType: blob.type, data: await blobToBase64(blob) };
+};
+
+const decodeEmbeddedMedia = (slide: ProjectFileSlide) =>
+  slide.media
+    ? createMediaUrl(base64ToBlob(slide.media.data, slide.media.mimeType))
+    : null;
+
+/**
+ * Converts app state into the persisted project shape. Media is embedded as
+ * base64 by default; pass `encodeMedia` to store it some other way (or not at
+ * all, by returning null).
+ */
+export const serializeProject = async (
+  slides: Slide[],
+  sequences: ClickSequence[],
+  activeSequenceId: string,
+  encodeMedia: (url: string) => Promise<ProjectFileMedia | null> = embedMedia
+): Promise<ProjectFile> => {
+  const fileSlides = await Promise.all(
+    slides.map(
+      async (slide): Promise<ProjectFileSlide> => ({
+        id: slide.id,
+        mediaType: slide.mediaType,
+        media: slide.mediaUrl ? await encodeMedia(slide.mediaUrl) : null,
+        transform: slide.transform,
+        spotlight: slide.spotlight,
+        notes: slide.notes,
+        annotations: slide.annotations,
+        visibleAnnotationIds: slide.visibleAnnotationIds,
+      })
+    )
+  );
+
+  return {
+    version: CURRENT_PROJECT_VERSION,
+    savedAt: new Date().toISOString(),
+    coordinateSpace: 'content',
+    slides: fileSlides,
+    sequences,
+    activeSequenceId,
+  };
+};
+
+/**
+ * Rebuilds app state from a project file. Every media item gets a fresh
+ * object URL, so callers own (and must eventually revoke) them. Projects
+ * still in `'pixels'` space need `convertLegacyProject` before use.
+ */
+export const deserializeProject = (
+  project: ProjectFile,
+  resolveMediaUrl: (
+    slide: ProjectFileSlide
+  ) => string | null = decodeEmbeddedMedia
+): {
+  slides: Slide[];
+  sequences: ClickSequence[];
+  activeSequenceId: string;
+  coordinateSpace: CoordinateSpace;
+} => ({
+  slides: project.slides.map((slide) => {
+    const mediaUrl = resolveMediaUrl(slide);
+    return {
+      id: slide.id,
+      mediaUrl,
+      mediaType: mediaUrl ? slide.mediaType : null,
+      transform: slide.transform,
+      spotlight: slide.spotlight,
+      notes: slide.notes,
+      annotations: slide.annotations,
+      visibleAnnotationIds: slide.visibleAnnotationIds,
+      video: null,
+    };
+  }),
+  sequences: project.sequences,
+  activeSequenceId: project.activeSequenceId,
+  coordinateSpace: project.coordinateSpace,
+});
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+export const saveProjectFile = async (
+  slides: Slide[],
+  sequences: ClickSequence[],
+  activeSequenceId: string,
+  fileName = `presentation${PROJECT_FILE_EXTENSION}`
+) => {
+  const project = await serializeProject(slides, sequences, activeSequenceId);
+  const blob = new Blob([JSON.stringify(project)], {
+    type: 'application/json',
+  });
+  downloadBlob(blob, fileName);
+};
+
+/**
+ * Reads, migrates and validates a project file. Throws
+ * `ProjectValidationError` describing the first problem found.
+ */
+export const readProjectFile = async (file: File) => {
+  let data: unknown;
+  try {
+    data = JSON.parse(await file.text());
+  } catch {
+    throw new ProjectValidationError('', 'the file is not valid JSON');
+  }
+  return deserializeProject(parseProject(data));
+};
@@ -0,0 +1,143 @@
+import { ClickRecord, Slide } from '../types';
+
+import { downloadBlob } from './exportUtils';
+import { renderStepFrames } from './frameRender';
+import { markdownToPlainText } from './markdown';
+import { canvasToBlob } from './pdf';
+import { describeStep } from './sequence';
+
+export interface FrameExportOptions {
+  onProgress?: (renderedSteps: number, totalSteps: number) => void;
+}
+
+export interface HandoutOptions extends FrameExportOptions {
+  includeNotes: boolean;
+}
+
+// Handout page layout, in millimetres on A4.
+const PAGE_MARGIN = 12;
+const CAPTION_FONT_SIZE = 10; // points
+const NOTES_FONT_SIZE = 11; // points
+const LINE_HEIGHT_FACTOR = 1.4;
+const POINTS_TO_MM = 25.4 / 72;
+// With notes, the frame takes at most this share of the page height.
+const FRAME_SHARE_WITH_NOTES = 0.45;
+const JPEG_QUALITY = 0.92;
+
+/** `step-07.png`, padded so the files sort in step order. */
+export const getFrameFileName = (index: number, totalSteps: number) =>
+  `step-${String(index + 1).padStart(String(totalSteps).length, '0')}.png`;
+
+/** Step notes first, then the slide's, as the presenter view shows them. */
+export const getHandoutNotes = (record: ClickRecord, slide: Slide) =>
+  [record.notes, slide.notes]
+    .filter((notes) => notes.trim())
+    .map(markdownToPlainText)
+    .join('\n\n');
+
+const getStepCaption = (record: ClickRecord, index: number, total: number) =>
+  `Step ${index + 1} of ${total} · Slide ${record.slideIndex + 1} · ${describeStep(record)}`;
+
+/** Every step as a PNG, zipped up in step order. */
+export const exportFrameZip = async (
+  slides: Slide[],
+  clickSequence: ClickRecord[],
+  { onProgress }: FrameExportOptions = {},
+  fileName = 'presentation-frames.zip'
+) => {
+  const { zipSync } = await import('fflate');
+  const files: Record<string, Uint8Array> = {};
+  await renderStepFrames(slides, clickSequence, async ({ canvas, index }) => {
+    const png = await canvasToBlob(canvas);
+    files[getFrameFileName(index, clickSequence.length)] = new Uint8Array(
+      await png.arrayBuffer()
+    );
+    onProgress?.(index + 1, clickSequence.length);
+  });
+  // PNGs are already compressed; storing them keeps the zip quick to build.
+  const zip = zipSync(files, { level: 0 });
+  downloadBlob(new Blob([zip], { type: 'application/zip' }), fileName);
+};
+
+/**
+ * A PDF with one step per page: the frame, a caption saying what the step
+ * does and, optionally, its speaker notes underneath.
+ */
+export const exportHandoutPdf = async (
+  slides: Slide[],
+  clickSequence: ClickRecord[],
+  title: string,
+  { includeNotes, onProgress }: HandoutOptions,
+  fileName = 'presentation-handout.pdf'
+) => {
+  // jsPDF is large, so it is only fetched when a handout is exported.
+  const { jsPDF } = await import('jspdf');
+  // Notes need the height of a portrait page; frames alone fill a landscape one.
+  const pdf = new jsPDF({
+    orientation: includeNotes ? 'portrait' : 'landscape',
+    unit: 'mm',
+    format: 'a4',
+  });
+  pdf.setProperties({ title });
+  pdf.setLineHeightFactor(LINE_HEIGHT_FACTOR);
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - PAGE_MARGIN * 2;
+  const lineHeight = (size: number) => size * LINE_HEIGHT_FACTOR * POINTS_TO_MM;
+
+  await renderStepFrames(
+    slides,
+    clickSequence,
+    ({ canvas, record, slide, index }) => {
+      if (index > 0) pdf.addPage();
+      let y = PAGE_MARGIN;
+
+      pdf.setFontSize(CAPTION_FONT_SIZE);
+      pdf.setTextColor(90);
+      pdf.text(
+        getStepCaption(record, index, clickSequence.length),
+        PAGE_MARGIN,
+        y,
+        { baseline: 'top' }
+      );
+      y += lineHeight(CAPTION_FONT_SIZE) + 2;
+
+      const aspect = canvas.width / canvas.height;
+      const maxFrameHeight = includeNotes
+        ? pageHeight * FRAME_SHARE_WITH_NOTES
+        : pageHeight - PAGE_MARGIN - y;
+      const frameWidth = Math.min(contentWidth, maxFrameHeight * aspect);
+      const frameHeight = frameWidth / aspect;
+      pdf.addImage(
+        canvas.toDataURL('image/jpeg', JPEG_QUALITY),
+        'JPEG',
+        (pageWidth - frameWidth) / 2,
+        y,
+        frameWidth,
+        frameHeight,
+        `step-${index}`
+      );
+      y += frameHeight + 6;
+
+      const notes = includeNotes ? getHandoutNotes(record, slide) : '';
+      if (notes) {
+        pdf.setFontSize(NOTES_FONT_SIZE);
+        pdf.setTextColor(20);
+        const notesLineHeight = lineHeight(NOTES_FONT_SIZE);
+        // Long notes carry on over as many pages as they need.
+        (pdf.splitTextToSize(notes, contentWidth) as string[]).forEach(
+          (line) => {
+            if (y + notesLineHeight > pageHeight - PAGE_MARGIN) {
+              pdf.addPage();
+              y = PAGE_MARGIN;
+            }
+            pdf.text(line, PAGE_MARGIN, y, { baseline: 'top' });
+            y += notesLineHeight;
+          }
+        );
+      }
+      onProgress?.(index + 1, clickSequence.length);
+    }
+  );
+  downloadBlob(pdf.output('blob'), fileName);
+};
@@ -0,0 +1,629 @@
+import {
+  Annotation,
+  CanvasTransform,
+  ClickRecord,
+  InkAnnotation,
+  InkPoint,
+  ShapeAnnotation,
+  Slide,
+  TextAnnotation,
+} from '../types';
+
+import {
+  SpotlightRegionShape,
+  SpotlightShape,
+  interpolateSpotlight,
+  interpolateTransform,
+  spotlightToShape,
+  transformSpotlightShape,
+} from './animation';
+import {
+  getAnnotationFontSize,
+  getAnnotationStrokeWidth,
+  getArrowheadCorners,
+} from './annotations';
+import {
+  ContentBox,
+  Point,
+  Size,
+  contentToScreen,
+  getContentBox,
+  getPixelTranslation,
+  spotlightToLayout,
+} from './coordinates';
+import {
+  HIGHLIGHTER_OPACITY,
+  getPartialStroke,
+  getPressureScale,
+  getStrokeDuration,
+  hasPressure,
+  isInk,
+} from './ink';
+import { CursorFrame, SlideAnimation } from './replayTimeline';
+import { getSlideStatesAtStep } from './sequence';
+
+/**
+ * Draws slides the way `Canvas` shows them, onto a 2D canvas instead of the
+ * DOM, for exports. Each layer mirrors its component: the letterboxed media
+ * under the slide transform, the spotlight mask, annotations, then the
+ * replay cursor.
+ */
+
+// Frames are rendered as if the canvas filled a 1080p screen.
+export const FRAME_SIZE: Size = { width: 1920, height: 1080 };
+
+// Tailwind colours and metrics used by the components being mirrored.
+const CANVAS_BACKGROUND = '#1f2937'; // bg-gray-800
+const CALLOUT_TEXT_COLOR = '#111827';
+const CALLOUT_RADIUS = 4; // rounded
+const CALLOUT_LINE_HEIGHT = 1.5;
+const CURSOR_RADIUS = 16; // w-8 h-8
+const CURSOR_COLOR = '#facc15'; // bg-yellow-400
+const RIPPLE_COLOR = '#fde047'; // border-yellow-300
+const FONT_FAMILY =
+  'ui-sans-serif, system-ui, sans-serif, "Apple Color Emoji", "Segoe UI Emoji"';
+
+export type FrameMedia = HTMLImageElement | HTMLVideoElement;
+
+const getIntrinsicSize = (media: FrameMedia): Size =>
+  media instanceof HTMLVideoElement
+    ? { width: media.videoWidth, height: media.videoHeight }
+    : { width: media.naturalWidth, height: media.naturalHeight };
+
+const loadImage = (url: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Could not load image'));
+    image.src = url;
+  });
+
+const loadVideo = (url: string): Promise<HTMLVideoElement> =>
+  new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.preload = 'auto';
+    video.onloadeddata = () => resolve(video);
+    video.onerror = () => reject(new Error('Could not load video'));
+    video.src = url;
+  });
+
+const seekVideo = (video: HTMLVideoElement, time: number): Promise<void> =>
+  new Promise((resolve) => {
+    const target = Math.min(time, video.duration || time);
+    if (Math.abs(video.currentTime - target) < 1e-3) {
+      resolve();
+      return;
+    }
+    video.addEventListener('seeked', () => resolve(), { once: true });
+    video.currentTime = target;
+  });
+
+export const createLayer = (size: Size) => {
+  const layer = document.createElement('canvas');
+  layer.width = size.width;
+  layer.height = size.height;
+  return layer;
+};
+
+export const getContext = (canvas: HTMLCanvasElement) => {
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas 2D is not available');
+  return context;
+};
+
+// Corners are clamped the way SVG clamps a rect's rx and ry.
+const traceRoundedRect = (
+  context: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  rx: number,
+  ry: number
+) => {
+  const cornerX = Math.min(Math.max(rx, 0), width / 2);
+  const cornerY = Math.min(Math.max(ry, 0), height / 2);
+  const right = x + width;
+  const bottom = y + height;
+  context.moveTo(x + cornerX, y);
+  context.lineTo(right - cornerX, y);
+  context.ellipse(
+    right - cornerX,
+    y + cornerY,
+    cornerX,
+    cornerY,
+    0,
+    -Math.PI / 2,
+    0
+  );
+  context.lineTo(right, bottom - cornerY);
+  context.ellipse(
+    right - cornerX,
+    bottom - cornerY,
+    cornerX,
+    cornerY,
+    0,
+    0,
+    Math.PI / 2
+  );
+  context.lineTo(x + cornerX, bottom);
+  context.ellipse(
+    x + cornerX,
+    bottom - cornerY,
+    cornerX,
+    cornerY,
+    0,
+    Math.PI / 2,
+    Math.PI
+  );
+  context.lineTo(x, y + cornerY);
+  context.ellipse(
+    x + cornerX,
+    y + cornerY,
+    cornerX,
+    cornerY,
+    0,
+    Math.PI,
+    (3 * Math.PI) / 2
+  );
+  context.closePath();
+};
+
+const traceRegion = (
+  context: CanvasRenderingContext2D,
+  region: SpotlightRegionShape
+) => {
+  if (region.points) {
+    region.points.forEach((point, index) =>
+      index === 0
+        ? context.moveTo(point.x, point.y)
+        : context.lineTo(point.x, point.y)
+    );
+    context.closePath();
+  } else if (region.width > 0 && region.height > 0) {
+    traceRoundedRect(
+      context,
+      region.cx - region.width / 2,
+      region.cy - region.height / 2,
+      region.width,
+      region.height,
+      region.rx,
+      region.ry
+    );
+  }
+};
+
+const drawMedia = (
+  context: CanvasRenderingContext2D,
+  media: FrameMedia,
+  transform: CanvasTransform,
+  box: ContentBox,
+  viewport: Size
+) => {
+  const translation = getPixelTranslation(transform, box);
+  context.save();
+  context.translate(
+    viewport.width / 2 + translation.x,
+    viewport.height / 2 + translation.y
+  );
+  context.scale(transform.scale, transform.scale);
+  context.translate(-viewport.width / 2, -viewport.height / 2);
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(media, box.left, box.top, box.width, box.height);
+  context.restore();
+};
+
+// Mirrors the SVG mask: everything outside the regions is blurred, then
+// dimmed, with the region edges feathered.
+const drawSpotlight = (
+  context: CanvasRenderingContext2D,
+  shape: SpotlightShape,
+  viewport: Size
+) => {
+  const outside = createLayer(viewport);
+  const outsideContext = getContext(outside);
+  outsideContext.fillStyle = 'white';
+  outsideContext.fillRect(0, 0, viewport.width, viewport.height);
+  outsideContext.globalCompositeOperation = 'destination-out';
+  if (shape.feather > 0) outsideContext.filter = `blur(${shape.feather / 2}px)`;
+  shape.regions.forEach((region) => {
+    outsideContext.globalAlpha = region.opacity;
+    outsideContext.beginPath();
+    traceRegion(outsideContext, region);
+    outsideContext.fill();
+  });
+  outsideContext.filter = 'none';
+  outsideContext.globalAlpha = 1;
+
+  if (shape.blur > 0) {
+    const blurred = createLayer(viewport);
+    const blurredContext = getContext(blurred);
+    blurredContext.filter = `blur(${shape.blur * shape.opacity}px)`;
+    blurredContext.drawImage(context.canvas, 0, 0);
+    blurredContext.filter = 'none';
+    blurredContext.globalCompositeOperation = 'destination-in';
+    blurredContext.drawImage(outside, 0, 0);
+    context.drawImage(blurred, 0, 0);
+  }
+
+  outsideContext.globalCompositeOperation = 'source-in';
+  outsideContext.fillStyle = `rgba(0,0,0,${shape.dimOpacity * shape.opacity})`;
+  outsideContext.fillRect(0, 0, viewport.width, viewport.height);
+  context.drawImage(outside, 0, 0);
+};
+
+const drawShape = (
+  context: CanvasRenderingContext2D,
+  shape: ShapeAnnotation,
+  toScreen: (point: Point) => Point,
+  strokeWidth: number
+) => {
+  const start = toScreen({ x: shape.x, y: shape.y });
+  const end = toScreen({ x: shape.x + shape.width, y: shape.y + shape.height });
+  context.save();
+  context.strokeStyle = shape.color;
+  context.fillStyle = shape.color;
+  context.lineWidth = strokeWidth;
+  context.lineCap = 'round';
+  context.beginPath();
+  switch (shape.kind) {
+    case 'rect':
+      traceRoundedRect(
+        context,
+        Math.min(start.x, end.x),
+        Math.min(start.y, end.y),
+        Math.abs(end.x - start.x),
+        Math.abs(end.y - start.y),
+        strokeWidth,
+        strokeWidth
+      );
+      context.stroke();
+      break;
+    case 'ellipse':
+      context.ellipse(
+        (start.x + end.x) / 2,
+        (start.y + end.y) / 2,
+        Math.abs(end.x - start.x) / 2,
+        Math.abs(end.y - start.y) / 2,
+        0,
+        0,
+        Math.PI * 2
+      );
+      context.stroke();
+      break;
+    case 'arrow': {
+      context.moveTo(start.x, start.y);
+      context.lineTo(end.x, end.y);
+      context.stroke();
+      const [left, right] = getArrowheadCorners(start, end, strokeWidth);
+      context.beginPath();
+      context.moveTo(end.x, end.y);
+      context.lineTo(left.x, left.y);
+      context.lineTo(right.x, right.y);
+      context.closePath();
+      context.lineJoin = 'round';
+      context.fill();
+      context.stroke();
+      break;
+    }
+  }
+  context.restore();
+};
+
+// `inkPoints` is the part of the stroke drawn so far.
+const drawInk = (
+  context: CanvasRenderingContext2D,
+  stroke: InkAnnotation,
+  inkPoints: InkPoint[],
+  toScreen: (point: Point) => Point,
+  pixelsPerUnit: number,
+  viewport: Size
+) => {
+  const opacity = stroke.brush === 'highlighter' ? HIGHLIGHTER_OPACITY : 1;
+  const width = stroke.width * pixelsPerUnit;
+  const points = inkPoints.map(toScreen);
+  const [first] = points;
+  if (!first) return;
+
+  if (!hasPressure(inkPoints)) {
+    context.save();
+    context.globalAlpha = opacity;
+    context.strokeStyle = stroke.color;
+    context.lineWidth = Math.max(1, width);
+    context.lineCap = 'round';
+    context.lineJoin = 'round';
+    context.beginPath();
+    points.forEach((point, index) =>
+      index === 0
+        ? context.moveTo(point.x, point.y)
+        : context.lineTo(point.x, point.y)
+    );
+    // A single point still leaves a dot.
+    if (points.length === 1) context.lineTo(first.x, first.y);
+    context.stroke();
+    context.restore();
+    return;
+  }
+
+  // Segments are drawn on their own layer so overlapping ends don't darken a
+  // highlighter, like the group opacity in `InkPath`.
+  const layer = createLayer(viewport);
+  const layerContext = getContext(layer);
+  layerContext.strokeStyle = stroke.color;
+  layerContext.lineCap = 'round';
+  inkPoints.forEach((point, index) => {
+    const previous = inkPoints[index - 1] ?? point;
+    const start = points[index - 1] ?? points[index];
+    const end = points[index];
+    if (!start || !end) return;
+    const scale = (getPressureScale(previous) + getPressureScale(point)) / 2;
+    layerContext.lineWidth = Math.max(1, width * scale);
+    layerContext.beginPath();
+    layerContext.moveTo(start.x, start.y);
+    layerContext.lineTo(end.x, end.y);
+    layerContext.stroke();
+  });
+  context.save();
+  context.globalAlpha = opacity;
+  context.drawImage(layer, 0, 0);
+  context.restore();
+};
+
+const drawCallout = (
+  context: CanvasRenderingContext2D,
+  callout: TextAnnotation,
+  toScreen: (point: Point) => Point,
+  fontSize: number
+) => {
+  const position = toScreen(callout);
+  const paddingX = fontSize * 0.5;
+  const paddingY = fontSize * 0.25;
+  const lineHeight = fontSize * CALLOUT_LINE_HEIGHT;
+  context.save();
+  context.font = `600 ${fontSize}px ${FONT_FAMILY}`;
+  const width = context.measureText(callout.text).width + paddingX * 2;
+  context.fillStyle = callout.color;
+  context.beginPath();
+  traceRoundedRect(
+    context,
+    position.x,
+    position.y,
+    width,
+    lineHeight + paddingY * 2,
+    CALLOUT_RADIUS,
+    CALLOUT_RADIUS
+  );
+  context.fill();
+  context.fillStyle = CALLOUT_TEXT_COLOR;
+  context.textBaseline = 'middle';
+  context.fillText(
+    callout.text,
+    position.x + paddingX,
+    position.y + paddingY + lineHeight / 2
+  );
+  context.restore();
+};
+
+// Shapes and ink first, in the order they were placed, then text callouts
+// on top, as `AnnotationLayer` stacks them. `revealing` holds how far into
+// each stroke a replay has drawn, like `useInkReveal`.
+const drawAnnotations = (
+  context: CanvasRenderingContext2D,
+  slide: Slide,
+  transform: CanvasTransform,
+  revealing: ReadonlyMap<number, number>,
+  box: ContentBox,
+  viewport: Size
+) => {
+  const visible = new Set(slide.visibleAnnotationIds);
+  const shown = slide.annotations.filter((annotation) =>
+    visible.has(annotation.id)
+  );
+  const pixelsPerUnit = box.width * transform.scale;
+  const toScreen = (point: Point) =>
+    contentToScreen(point, transform, box, viewport);
+  shown.forEach((annotation: Annotation) => {
+    if (annotation.kind === 'ink') {
+      const elapsedMs = revealing.get(annotation.id);
+      const points =
+        elapsedMs === undefined
+          ? annotation.points
+          : getPartialStroke(annotation.points, elapsedMs);
+      drawInk(context, annotation, points, toScreen, pixelsPerUnit, viewport);
+    } else if (annotation.kind !== 'text') {
+      drawShape(
+        context,
+        annotation,
+        toScreen,
+        getAnnotationStrokeWidth(pixelsPerUnit)
+      );
+    }
+  });
+  shown.forEach((annotation) => {
+    if (annotation.kind === 'text') {
+      drawCallout(
+        context,
+        annotation,
+        toScreen,
+        getAnnotationFontSize(pixelsPerUnit)
+      );
+    }
+  });
+};
+
+// The yellow pointer from `ReplayCursor`, with its click ripple underneath.
+const drawCursor = (
+  context: CanvasRenderingContext2D,
+  point: Point,
+  rippleProgress: number | null
+) => {
+  context.save();
+  if (rippleProgress !== null) {
+    const scale = 0.5 + 2.5 * rippleProgress;
+    context.globalAlpha = 0.9 * (1 - rippleProgress);
+    context.strokeStyle = RIPPLE_COLOR;
+    context.lineWidth = 4 * scale;
+    context.beginPath();
+    context.arc(point.x, point.y, (CURSOR_RADIUS - 2) * scale, 0, Math.PI * 2);
+    context.stroke();
+    context.globalAlpha = 1;
+  }
+  context.shadowColor = 'rgba(0, 0, 0, 0.1)';
+  context.shadowBlur = 15;
+  context.shadowOffsetY = 10;
+  context.fillStyle = CURSOR_COLOR;
+  context.beginPath();
+  context.arc(point.x, point.y, CURSOR_RADIUS, 0, Math.PI * 2);
+  context.fill();
+  context.shadowColor = 'transparent';
+  context.strokeStyle = 'white';
+  context.lineWidth = 2;
+  context.beginPath();
+  context.arc(point.x, point.y, CURSOR_RADIUS - 1, 0, Math.PI * 2);
+  context.stroke();
+  context.restore();
+};
+
+/**
+ * Paints `slide` as `Canvas` would show it in a `viewport`-sized box: at
+ * rest, or part way through the `animation` of the step that led to it, and
+ * with the replay `cursor` if there is one.
+ */
+export const drawSlide = (
+  context: CanvasRenderingContext2D,
+  slide: Slide,
+  media: FrameMedia | null,
+  viewport: Size,
+  animation: SlideAnimation | null = null,
+  cursor: CursorFrame | null = null
+) => {
+  context.fillStyle = CANVAS_BACKGROUND;
+  context.fillRect(0, 0, viewport.width, viewport.height);
+  const box = getContentBox(viewport, media ? getIntrinsicSize(media) : null);
+  const transform = animation
+    ? interpolateTransform(
+        animation.from.transform,
+        slide.transform,
+        animation.progress
+      )
+    : slide.transform;
+  if (media) drawMedia(context, media, transform, box, viewport);
+
+  // Spotlights tween in untransformed canvas pixels, then follow the camera.
+  const toShape = (spotlight: Slide['spotlight']) =>
+    spotlight ? spotlightToShape(spotlightToLayout(spotlight, box)) : null;
+  const spotlight = animation
+    ? interpolateSpotlight(
+        toShape(animation.from.spotlight),
+        toShape(slide.spotlight),
+        animation.progress
+      )
+    : toShape(slide.spotlight);
+  if (spotlight) {
+    drawSpotlight(
+      context,
+      transformSpotlightShape(spotlight, transform, box, viewport),
+      viewport
+    );
+  }
+
+  // Strokes the step shows are drawn over its animation.
+  const wasVisible = new Set(animation?.from.visibleAnnotationIds);
+  const revealing = new Map(
+    animation
+      ? slide.annotations
+          .filter(isInk)
+          .filter(
+            (stroke) =>
+              slide.visibleAnnotationIds.includes(stroke.id) &&
+              !wasVisible.has(stroke.id)
+          )
+          .map((stroke) => [
+            stroke.id,
+            animation.inkProgress * getStrokeDuration(stroke),
+          ])
+      : []
+  );
+  drawAnnotations(context, slide, transform, revealing, box, viewport);
+
+  if (cursor) {
+    drawCursor(
+      context,
+      contentToScreen(cursor.point, transform, box, viewport),
+      cursor.rippleProgress
+    );
+  }
+};
+
+/**
+ * Loads each slide's media once per export. Videos are seeked to the
+ * slide's playback time on every load, so draw before loading the next.
+ */
+export const createMediaLoader = () => {
+  const mediaByUrl = new Map<string, Promise<FrameMedia>>();
+  return {
+    load: async (slide: Slide): Promise<FrameMedia | null> => {
+      if (!slide.mediaUrl || !slide.mediaType) return null;
+      let loading = mediaByUrl.get(slide.mediaUrl);
+      if (!loading) {
+        loading =
+          slide.mediaType === 'video'
+            ? loadVideo(slide.mediaUrl)
+            : loadImage(slide.mediaUrl);
+        mediaByUrl.set(slide.mediaUrl, loading);
+      }
+      const media = await loading;
+      if (media instanceof HTMLVideoElement) {
+        await seekVideo(media, slide.video?.time ?? 0);
+      }
+      return media;
+    },
+    dispose: () => {
+      mediaByUrl.forEach((loading) =>
+        loading
+          .then((media) => {
+            if (media instanceof HTMLVideoElement) media.removeAttribute('src');
+          })
+          .catch(() => {})
+      );
+      mediaByUrl.clear();
+    },
+  };
+};
+
+export interface StepFrame {
+  canvas: HTMLCanvasElement;
+  record: ClickRecord;
+  slide: Slide; // the step's slide as the step leaves it
+  index: number;
+}
+
+/**
+ * Renders what every step of `sequence` leaves on screen, in order. The same
+ * canvas is redrawn for each frame, so `onFrame` must finish with it (encode
+ * or copy it) before resolving.
+ */
+export const renderStepFrames = async (
+  slides: Slide[],
+  sequence: ClickRecord[],
+  onFrame: (frame: StepFrame) => Promise<void> | void,
+  size: Size = FRAME_SIZE
+) => {
+  const canvas = createLayer(size);
+  const context = getContext(canvas);
+  const media = createMediaLoader();
+
+  try {
+    for (const [index, record] of sequence.entries()) {
+      const slide = getSlideStatesAtStep(slides, sequence, index + 1)[
+        record.slideIndex
+      ];
+      if (!slide) continue;
+      drawSlide(context, slide, await media.load(slide), size);
+      await onFrame({ canvas, record, slide, index });
+    }
+  } finally {
+    media.dispose();
+  }
+};
@@ -0,0 +1,34 @@
+export interface FuzzyMatch {
+  score: number;
+  indices: number[]; // of the matched characters in the text
+}
+
+const isWordStart = (text: string, index: number) =>
+  index === 0 || !/[a-z0-9]/i.test(text[index - 1] ?? '');
+
+/**
+ * Matches each word of `query` against `text` as letters in order, not
+ * necessarily next to each other, so `ns` finds "Next Slide". Letters that
+ * start words or follow the previous match score higher. Returns null when
+ * a word doesn't match; an empty query matches everything with score 0.
+ */
+export const fuzzyMatch = (query: string, text: string): FuzzyMatch | null => {
+  const haystack = text.toLowerCase();
+  let score = 0;
+  const indices = new Set<number>();
+  for (const term of query.toLowerCase().split(/\s+/).filter(Boolean)) {
+    let from = 0;
+    let previous = -2;
+    for (const char of term) {
+      const index = haystack.indexOf(char, from);
+      if (index < 0) return null;
+      score += 1;
+      if (isWordStart(text, index)) score += 4;
+      if (index === previous + 1) score += 2;
+      indices.add(index);
+      previous = index;
+      from = index + 1;
+    }
+  }
+  return { score, indices: [...indices].sort((a, b) => a - b) };
+};
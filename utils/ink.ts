@@ -0,0 +1,119 @@
+import { Annotation, InkAnnotation, InkBrush, InkPoint } from '../types';
+
+import { ANNOTATION_COLORS } from './annotations';
+import { Point } from './coordinates';
+
+export type InkMode = InkBrush | 'eraser';
+
+export interface InkStyle {
+  mode: InkMode;
+  color: string;
+  width: number; // pen width in content-box widths
+}
+
+export const INK_MODE_LABELS: Record<InkMode, string> = {
+  pen: 'Pen',
+  highlighter: 'Highlighter',
+  eraser: 'Eraser',
+};
+
+export const INK_WIDTHS = [0.002, 0.004, 0.008];
+// Highlighters are drawn this much wider than a pen of the same setting.
+export const HIGHLIGHTER_WIDTH_SCALE = 4;
+export const HIGHLIGHTER_OPACITY = 0.4;
+// Stylus strokes range from this fraction of the chosen width at the
+// lightest touch to (MIN + RANGE) at full pressure; half pressure is 1×.
+const PRESSURE_MIN_SCALE = 0.25;
+const PRESSURE_SCALE_RANGE = 1.5;
+
+export const DEFAULT_INK_STYLE: InkStyle = {
+  mode: 'pen',
+  color: ANNOTATION_COLORS[0] as string,
+  width: INK_WIDTHS[1] as number,
+};
+
+export const isInk = (annotation: Annotation): annotation is InkAnnotation =>
+  annotation.kind === 'ink';
+
+export const getInkWidth = (style: InkStyle) =>
+  style.mode === 'highlighter'
+    ? style.width * HIGHLIGHTER_WIDTH_SCALE
+    : style.width;
+
+/** How much a point's stylus pressure widens or narrows the stroke. */
+export const getPressureScale = (point: InkPoint) =>
+  point.pressure === undefined
+    ? 1
+    : PRESSURE_MIN_SCALE + PRESSURE_SCALE_RANGE * point.pressure;
+
+export const hasPressure = (points: InkPoint[]) =>
+  points.some((point) => point.pressure !== undefined);
+
+export const getStrokeDuration = (stroke: InkAnnotation) =>
+  stroke.points[stroke.points.length - 1]?.t ?? 0;
+
+/**
+ * The part of a stroke drawn `elapsedMs` after it began, ending exactly
+ * where the pen was at that moment.
+ */
+export const getPartialStroke = (
+  points: InkPoint[],
+  elapsedMs: number
+): InkPoint[] => {
+  const index = points.findIndex((point) => point.t > elapsedMs);
+  if (index === -1) return points;
+  const next = points[index] as InkPoint;
+  const previous = points[index - 1];
+  if (!previous) return [];
+  if (elapsedMs <= previous.t) return points.slice(0, index);
+  const t = (elapsedMs - previous.t) / (next.t - previous.t);
+  return [
+    ...points.slice(0, index),
+    {
+      ...next,
+      x: previous.x + (next.x - previous.x) * t,
+      y: previous.y + (next.y - previous.y) * t,
+      t: elapsedMs,
+    },
+  ];
+};
+
+/** SVG path data through `points`; a single point draws a dot. */
+export const getStrokePath = (points: Point[]) =>
+  points
+    .map(
+      (point, index) =>
+        `${index === 0 ? 'M' : 'L'}${point.x},${point.y}` +
+        (points.length === 1 ? ` L${point.x},${point.y}` : '')
+    )
+    .join(' ');
+
+const distanceToSegment = (point: Point, a: Point, b: Point) => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t =
+    lengthSquared === 0
+      ? 0
+      : Math.max(
+          0,
+          Math.min(
+            1,
+            ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSquared
+          )
+        );
+  return Math.hypot(point.x - (a.x + t * dx), point.y - (a.y + t * dy));
+};
+
+/** Shortest distance from `point` to a polyline, in the same units. */
+export const distanceToPolyline = (points: Point[], point: Point) => {
+  const [first] = points;
+  if (!first) return Infinity;
+  if (points.length === 1) {
+    return Math.hypot(point.x - first.x, point.y - first.y);
+  }
+  return points.slice(1).reduce((nearest, current, index) => {
+    const previous = points[index] as Point;
+    return Math.min(nearest, distanceToSegment(point, previous, current));
+  }, Infinity);
+};
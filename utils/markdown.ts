@@ -0,0 +1,152 @@
+/**
+ * A deliberately small markdown subset for speaker notes: `#`–`###`
+ * headings, paragraphs, `-`/`1.` lists, **bold**, *italic*, `code` and
+ * [links](https://…). It produces a tree rather than HTML so rendering never
+ * goes through innerHTML.
+ */
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong'; children: MarkdownInline[] }
+  | { type: 'em'; children: MarkdownInline[] }
+  | { type: 'link'; href: string; children: MarkdownInline[] };
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: 1 | 2 | 3; children: MarkdownInline[] }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'list'; ordered: boolean; items: MarkdownInline[][] };
+
+const INLINE_PATTERN =
+  /`([^`]+)`|\*\*(.+?)\*\*|\*(.+?)\*|_(.+?)_|\[([^\]]+)\]\(([^)\s]+)\)/;
+const HEADING_PATTERN = /^(#{1,3})\s+(.*)$/;
+const UNORDERED_ITEM_PATTERN = /^[-*+]\s+(.*)$/;
+const ORDERED_ITEM_PATTERN = /^\d+[.)]\s+(.*)$/;
+
+const isSafeHref = (href: string) => /^(https?:|mailto:)/i.test(href);
+
+export const parseInline = (text: string): MarkdownInline[] => {
+  const nodes: MarkdownInline[] = [];
+  let rest = text;
+  while (rest) {
+    const match = INLINE_PATTERN.exec(rest);
+    if (!match) {
+      nodes.push({ type: 'text', text: rest });
+      break;
+    }
+    if (match.index > 0) {
+      nodes.push({ type: 'text', text: rest.slice(0, match.index) });
+    }
+    const [whole, code, strong, em, underscoreEm, linkText, href] = match;
+    const emphasis = em ?? underscoreEm;
+    if (code !== undefined) {
+      nodes.push({ type: 'code', text: code });
+    } else if (strong !== undefined) {
+      nodes.push({ type: 'strong', children: parseInline(strong) });
+    } else if (emphasis !== undefined) {
+      nodes.push({ type: 'em', children: parseInline(emphasis) });
+    } else if (linkText !== undefined && href !== undefined) {
+      // Unsafe schemes (javascript: and friends) keep only their text.
+      nodes.push(
+        isSafeHref(href)
+          ? { type: 'link', href, children: parseInline(linkText) }
+          : { type: 'text', text: linkText }
+      );
+    }
+    rest = rest.slice(match.index + whole.length);
+  }
+  return nodes;
+};
+
+export const parseMarkdown = (source: string): MarkdownBlock[] => {
+  const blocks: MarkdownBlock[] = [];
+  let paragraph: string[] = [];
+  let list: { ordered: boolean; items: string[] } | null = null;
+
+  const flush = () => {
+    if (paragraph.length > 0) {
+      blocks.push({
+        type: 'paragraph',
+        children: parseInline(paragraph.join(' ')),
+      });
+      paragraph = [];
+    }
+    if (list) {
+      blocks.push({
+        type: 'list',
+        ordered: list.ordered,
+        items: list.items.map(parseInline),
+      });
+      list = null;
+    }
+  };
+
+  for (const rawLine of source.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) {
+      flush();
+      continue;
+    }
+    const heading = HEADING_PATTERN.exec(line);
+    if (heading) {
+      flush();
+      blocks.push({
+        type: 'heading',
+        level: (heading[1] as string).length as 1 | 2 | 3,
+        children: parseInline(heading[2] as string),
+      });
+      continue;
+    }
+    const unordered = UNORDERED_ITEM_PATTERN.exec(line);
+    const ordered = unordered ? null : ORDERED_ITEM_PATTERN.exec(line);
+    const item = unordered ?? ordered;
+    if (item) {
+      const isOrdered = ordered !== null;
+      if (paragraph.length > 0 || (list && list.ordered !== isOrdered)) {
+        flush();
+      }
+      list ??= { ordered: isOrdered, items: [] };
+      list.items.push(item[1] as string);
+      continue;
+    }
+    if (list) flush();
+    paragraph.push(line);
+  }
+  flush();
+  return blocks;
+};
+
+const inlineToPlainText = (nodes: MarkdownInline[]): string =>
+  nodes
+    .map((node) => {
+      switch (node.type) {
+        case 'text':
+        case 'code':
+          return node.text;
+        case 'link': {
+          const text = inlineToPlainText(node.children);
+          return text === node.href ? text : `${text} (${node.href})`;
+        }
+        default:
+          return inlineToPlainText(node.children);
+      }
+    })
+    .join('');
+
+/**
+ * Notes without their markup, for output that can only hold plain text.
+ * Blocks are separated by blank lines and list items keep their markers.
+ */
+export const markdownToPlainText = (source: string): string =>
+  parseMarkdown(source)
+    .map((block) =>
+      block.type === 'list'
+        ? block.items
+            .map(
+              (item, index) =>
+                `${block.ordered ? `${index + 1}.` : '-'} ${inlineToPlainText(item)}`
+            )
+            .join('\n')
+        : inlineToPlainText(block.children)
+    )
+    .join('\n\n');
@@ -0,0 +1,120 @@
+import { Slide } from '../types';
+
+import { isPdfFile, renderPdfPages } from './pdf';
+
+// Keep the original blob behind every object URL we hand out so that it can
+// be persisted later without re-fetching the URL. Each URL also gets a stable
+// media id used as the storage key for autosaved sessions.
+const mediaBlobs = new Map<string, Blob>();
+const mediaIds = new Map<string, string>();
+
+const createMediaId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+export const getMediaType = (mimeType: string): Slide['mediaType'] =>
+  mimeType.startsWith('image/')
+    ? 'image'
+    : mimeType.startsWith('video/')
+      ? 'video'
+      : null;
+
+export const createMediaUrl = (blob: Blob, mediaId = createMediaId()) => {
+  const url = URL.createObjectURL(blob);
+  mediaBlobs.set(url, blob);
+  mediaIds.set(url, mediaId);
+  return url;
+};
+
+export const revokeMediaUrl = (url: string) => {
+  URL.revokeObjectURL(url);
+  mediaBlobs.delete(url);
+  mediaIds.delete(url);
+};
+
+export const getMediaId = (url: string): string => {
+  let mediaId = mediaIds.get(url);
+  if (!mediaId) {
+    mediaId = createMediaId();
+    mediaIds.set(url, mediaId);
+  }
+  return mediaId;
+};
+
+export const getMediaBlob = async (url: string): Promise<Blob> => {
+  const blob = mediaBlobs.get(url);
+  if (blob) return blob;
+  const response = await fetch(url);
+  return response.blob();
+};
+
+/**
+ * Intrinsic size of an image or video, or null if it cannot be decoded.
+ */
+export const getMediaSize = (
+  url: string,
+  mediaType: Slide['mediaType']
+): Promise<{ width: number; height: number } | null> =>
+  new Promise((resolve) => {
+    if (mediaType === 'image') {
+      const image = new Image();
+      image.onload = () =>
+        resolve({ width: image.naturalWidth, height: image.naturalHeight });
+      image.onerror = () => resolve(null);
+      image.src = url;
+    } else if (mediaType === 'video') {
+      const video = document.createElement('video');
+      video.preload = 'metadata';
+      video.onloadedmetadata = () =>
+        resolve({ width: video.videoWidth, height: video.videoHeight });
+      video.onerror = () => resolve(null);
+      video.src = url;
+    } else {
+      resolve(null);
+    }
+  });
+
+export interface ImportedMedia {
+  url: string;
+  type: NonNullable<Slide['mediaType']>;
+}
+
+export interface SkippedFile {
+  name: string;
+  reason: string;
+}
+
+/**
+ * Turns dropped or picked files into slide media, keeping their order. A PDF
+ * contributes one image per page; anything that cannot be used is reported
+ * in `skipped` rather than aborting the whole import.
+ */
+export const importMediaFiles = async (
+  files: File[]
+): Promise<{ media: ImportedMedia[]; skipped: SkippedFile[] }> => {
+  const media: ImportedMedia[] = [];
+  const skipped: SkippedFile[] = [];
+  for (const file of files) {
+    if (isPdfFile(file)) {
+      try {
+        const pages = await renderPdfPages(file);
+        if (pages.length === 0) {
+          skipped.push({ name: file.name, reason: 'the PDF has no pages' });
+        }
+        pages.forEach((page) =>
+          media.push({ url: createMediaUrl(page), type: 'image' })
+        );
+      } catch (error) {
+        console.error(`Failed to render ${file.name}`, error);
+        skipped.push({ name: file.name, reason: 'the PDF could not be read' });
+      }
+      continue;
+    }
+    const type = getMediaType(file.type);
+    if (type) {
+      media.push({ url: createMediaUrl(file), type });
+    } else {
+      skipped.push({ name: file.name, reason: 'unsupported file type' });
+    }
+  }
+  return { media, skipped };
+};
@@ -0,0 +1,46 @@
+import { TimedPoint } from '../types';
+
+import { Point } from './coordinates';
+import { MAX_DWELL_MS } from './timing';
+
+// Only the movement just before a click is kept; a long pause before it
+// would otherwise replay as a motionless cursor.
+export const MAX_PATH_MS = MAX_DWELL_MS;
+
+export const getPathDuration = (path: TimedPoint[]) =>
+  path[path.length - 1]?.t ?? 0;
+
+/** Where the pointer was `t` ms into the path. */
+export const getPointAt = (path: TimedPoint[], t: number): Point => {
+  const index = path.findIndex((point) => point.t >= t);
+  const next = path[index === -1 ? path.length - 1 : index];
+  const previous = path[index - 1];
+  if (!next) return { x: 0, y: 0 };
+  if (!previous || index === -1) return { x: next.x, y: next.y };
+  const progress = (t - previous.t) / (next.t - previous.t);
+  return {
+    x: previous.x + (next.x - previous.x) * progress,
+    y: previous.y + (next.y - previous.y) * progress,
+  };
+};
+
+/**
+ * Turns pointer samples stamped with absolute times into a step's path: the
+ * last `MAX_PATH_MS` before `end` (where the click landed), timed from the
+ * first sample kept. Returns an empty path when there was no movement.
+ */
+export const createPath = (
+  samples: TimedPoint[],
+  end: TimedPoint
+): TimedPoint[] => {
+  const recent = samples.filter(
+    (sample) => sample.t >= end.t - MAX_PATH_MS && sample.t <= end.t
+  );
+  const [first] = recent;
+  if (!first) return [];
+  return [...recent, end].map((point) => ({
+    x: point.x,
+    y: point.y,
+    t: Math.round(point.t - first.t),
+  }));
+};
@@ -0,0 +1,54 @@
+// Pages are rasterised to this width so they stay sharp when zoomed in.
+const PAGE_RENDER_WIDTH = 2400;
+const MAX_RENDER_SCALE = 4;
+
+export const isPdfFile = (file: File) =>
+  file.type === 'application/pdf' || /\.pdf$/i.test(file.name);
+
+// pdf.js is large, so it is only fetched the first time a PDF is imported.
+const loadPdfjs = async () => {
+  const [pdfjs, worker] = await Promise.all([
+    import('pdfjs-dist'),
+    import('pdfjs-dist/build/pdf.worker.min.mjs?url'),
+  ]);
+  pdfjs.GlobalWorkerOptions.workerSrc = worker.default;
+  return pdfjs;
+};
+
+export const canvasToBlob = (canvas: HTMLCanvasElement): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) =>
+        blob ? resolve(blob) : reject(new Error('Could not encode image')),
+      'image/png'
+    );
+  });
+
+/**
+ * Renders every page of a PDF to a PNG, in page order. Everything happens in
+ * the browser; the document is never uploaded anywhere.
+ */
+export const renderPdfPages = async (file: Blob): Promise<Blob[]> => {
+  const pdfjs = await loadPdfjs();
+  const loadingTask = pdfjs.getDocument({ data: await file.arrayBuffer() });
+  const pdf = await loadingTask.promise;
+  try {
+    const pages: Blob[] = [];
+    for (let number = 1; number <= pdf.numPages; number++) {
+      const page = await pdf.getPage(number);
+      const { width } = page.getViewport({ scale: 1 });
+      const viewport = page.getViewport({
+        scale: Math.min(PAGE_RENDER_WIDTH / width, MAX_RENDER_SCALE),
+      });
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.ceil(viewport.width);
+      canvas.height = Math.ceil(viewport.height);
+      await page.render({ canvas, viewport }).promise;
+      pages.push(await canvasToBlob(canvas));
+      page.cleanup();
+    }
+    return pages;
+  } finally {
+    await loadingTask.destroy();
+  }
+};
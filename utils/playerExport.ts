@@ -0,0 +1,54 @@
+import { ClickSequence, Slide } from '../types';
+
+import { PLAYER_DATA_ID, downloadBlob, serializeProject } from './exportUtils';
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// Inline scripts end at the first `</script`, wherever it appears.
+const escapeScript = (code: string) =>
+  code.replace(/<\/script/gi, '<\\/script');
+
+/**
+ * A single HTML page that replays the project offline: the player script,
+ * its styles and the project itself (media included) are all inlined.
+ */
+export const buildPlayerHtml = (
+  title: string,
+  projectJson: string,
+  player: { script: string; styles: string }
+) => `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>${escapeHtml(title)}</title>
+    <style>${player.styles.replace(/<\/style/gi, '<\\/style')}</style>
+  </head>
+  <body class="bg-gray-900 text-white">
+    <div id="root"></div>
+    <script type="application/json" id="${PLAYER_DATA_ID}">${projectJson.replace(/</g, '\\u003c')}</script>
+    <script>${escapeScript(player.script)}</script>
+  </body>
+</html>
+`;
+
+export const exportPlayerFile = async (
+  slides: Slide[],
+  sequence: ClickSequence,
+  title: string,
+  fileName = 'presentation.html'
+) => {
+  // The player bundle is large, so it is only loaded when exporting.
+  const [project, player] = await Promise.all([
+    // The player only replays the sequence it was exported with.
+    serializeProject(slides, [sequence], sequence.id),
+    import('virtual:player-bundle'),
+  ]);
+  const html = buildPlayerHtml(title, JSON.stringify(project), player);
+  downloadBlob(new Blob([html], { type: 'text/html' }), fileName);
+};
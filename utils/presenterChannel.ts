@@ -0,0 +1,68 @@
+import {
+  Annotation,
+  CanvasTransform,
+  ReplayCursorState,
+  Slide,
+  SpotlightState,
+  VideoPlayback,
+} from '../types';
+import { TweenOptions } from '../hooks/useTween';
+
+const CHANNEL_NAME = 'interactive-presentation-tool:presenter';
+const VIEW_PARAM = 'view';
+const AUDIENCE_VIEW = 'audience';
+
+/** Everything the audience window needs to render the current moment. */
+export interface AudienceFrame {
+  mediaUrl: string | null;
+  mediaType: Slide['mediaType'];
+  transform: CanvasTransform;
+  spotlight: SpotlightState | null;
+  annotations: Annotation[];
+  visibleAnnotationIds: number[];
+  video: VideoPlayback | null;
+  replayCursor: Omit<ReplayCursorState, 'slideIndex'> | null;
+  animation: TweenOptions | null;
+  /** The presenter blanked the screen; nothing is shown until they undo it. */
+  isBlanked: boolean;
+}
+
+/**
+ * Messages exchanged between the presenter (the editing window) and the
+ * audience window. Media URLs are object URLs owned by the presenter, which
+ * same-origin windows can load while it stays open.
+ */
+export type PresenterMessage =
+  | { type: 'frame'; frame: AudienceFrame }
+  | { type: 'request-frame' }
+  | { type: 'end' };
+
+export interface PresenterChannel {
+  post: (message: PresenterMessage) => void;
+  close: () => void;
+}
+
+export const isPresenterChannelAvailable = () =>
+  typeof BroadcastChannel !== 'undefined';
+
+export const openPresenterChannel = (
+  onMessage: (message: PresenterMessage) => void
+): PresenterChannel => {
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.onmessage = (event: MessageEvent<PresenterMessage>) =>
+    onMessage(event.data);
+  return {
+    post: (message) => channel.postMessage(message),
+    close: () => channel.close(),
+  };
+};
+
+export const isAudienceView = () =>
+  new URLSearchParams(window.location.search).get(VIEW_PARAM) === AUDIENCE_VIEW;
+
+/** Opens (or reuses) the audience window. Returns null if it was blocked. */
+export const openAudienceWindow = () => {
+  const url = new URL(window.location.href);
+  url.search = `?${VIEW_PARAM}=${AUDIENCE_VIEW}`;
+  return window.open(url.toString(), 'presentation-audience', 'popup');
+};
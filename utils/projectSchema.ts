@@ -0,0 +1,565 @@
+import {
+  Annotation,
+  CanvasTransform,
+  ClickRecord,
+  ClickSequence,
+  InkPoint,
+  TimedPoint,
+  ProjectFile,
+  ProjectFileMedia,
+  ProjectFileSlide,
+  SpotlightRegion,
+  SpotlightState,
+  StepTiming,
+  VideoPlayback,
+} from '../types';
+
+import { EASINGS } from './animation';
+import { DEFAULT_SPOTLIGHT_STYLE, SPOTLIGHT_SHAPE_LABELS } from './spotlight';
+import { VIDEO_ACTIONS } from './video';
+
+export const CURRENT_PROJECT_VERSION = 11;
+
+/**
+ * Raised when a project file cannot be loaded. `path` points at the offending
+ * field (e.g. `slides[2].transform.scale`) so the problem can be reported to
+ * the user verbatim.
+ */
+export class ProjectValidationError extends Error {
+  constructor(
+    public readonly path: string,
+    public readonly reason: string
+  ) {
+    super(path ? `${path}: ${reason}` : reason);
+    this.name = 'ProjectValidationError';
+  }
+}
+
+type RawProject = Record<string, unknown>;
+// New sequence ids are timestamps, so this one never clashes with them.
+const MIGRATED_SEQUENCE_ID = 'sequence-1';
+type Migration = (project: RawProject) => RawProject;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Applies `update` to every well-formed entry of a list, leaving anything
+// malformed for validation to report.
+const mapRecords = (
+  value: unknown,
+  update: (record: Record<string, unknown>) => Record<string, unknown>
+) =>
+  Array.isArray(value)
+    ? value.map((item) => (isRecord(item) ? update(item) : item))
+    : value;
+
+/**
+ * Upgrades keyed by the version they migrate *from*. Each migration must
+ * return a project in the shape of `version + 1` and bump `version` itself.
+ */
+export const PROJECT_MIGRATIONS: Record<number, Migration> = {
+  // v2: every step carries its own timing; v1 replayed with fixed delays.
+  1: (project) => ({
+    ...project,
+    version: 2,
+    clickSequence: mapRecords(project.clickSequence, (record) => ({
+      ...record,
+      timing: { transitionMs: 800, dwellMs: 400 },
+    })),
+  }),
+  // v3: steps animate the camera with their own duration and easing. Older
+  // projects keep the short ease-out the CSS transition used to give them.
+  2: (project) => ({
+    ...project,
+    version: 3,
+    clickSequence: mapRecords(project.clickSequence, (record) => ({
+      ...record,
+      timing: isRecord(record.timing)
+        ? { animationMs: 300, easing: 'easeOutCubic', ...record.timing }
+        : record.timing,
+    })),
+  }),
+  // v4: geometry is stored relative to the media. The viewport older files
+  // were recorded in is unknown, so they are flagged for conversion on load.
+  3: (project) => ({
+    ...project,
+    version: 4,
+    coordinateSpace: 'pixels',
+  }),
+  // v5: slides and steps carry markdown speaker notes.
+  4: (project) => ({
+    ...project,
+    version: 5,
+    slides: mapRecords(project.slides, (slide) => ({ ...slide, notes: '' })),
+    clickSequence: mapRecords(project.clickSequence, (record) => ({
+      ...record,
+      notes: '',
+    })),
+  }),
+  // v6: slides hold annotations and steps record which ones are shown.
+  5: (project) => ({
+    ...project,
+    version: 6,
+    slides: mapRecords(project.slides, (slide) => ({
+      ...slide,
+      annotations: [],
+      visibleAnnotationIds: [],
+    })),
+    clickSequence: mapRecords(project.clickSequence, (record) => ({
+      ...record,
+      toolState: isRecord(record.toolState)
+        ? { ...record.toolState, annotationIds: [] }
+        : record.toolState,
+    })),
+  }),
+  // v7: annotations may be freehand ink strokes. Nothing to convert; the bump
+  // keeps older versions from misreading strokes as malformed annotations.
+  6: (project) => ({ ...project, version: 7 }),
+  // v8: steps can carry the pointer path recorded on the way to the click.
+  7: (project) => ({
+    ...project,
+    version: 8,
+    clickSequence: mapRecords(project.clickSequence, (record) => ({
+      ...record,
+      path: [],
+    })),
+  }),
+  // v9: spotlights hold several regions of more shapes, with their own dim,
+  // blur and feathering.
+  8: (project) => ({
+    ...project,
+    version: 9,
+    slides: mapRecords(project.slides, (slide) => ({
+      ...slide,
+      spotlight: upgradeSpotlight(slide.spotlight),
+    })),
+    clickSequence: mapRecords(project.clickSequence, (record) => ({
+      ...record,
+      toolState: isRecord(record.toolState)
+        ? {
+            ...record.toolState,
+            spotlight: upgradeSpotlight(record.toolState.spotlight),
+          }
+        : record.toolState,
+    })),
+  }),
+  // v10: steps capture the video's playback and can be video actions.
+  9: (project) => ({
+    ...project,
+    version: 10,
+    clickSequence: mapRecords(project.clickSequence, (record) => ({
+      ...record,
+      toolState: isRecord(record.toolState)
+        ? { ...record.toolState, video: null }
+        : record.toolState,
+      videoAction: null,
+    })),
+  }),
+  // v11: a project holds several named sequences; the old one becomes the
+  // first of them.
+  10: ({ clickSequence, ...project }) => ({
+    ...project,
+    version: 11,
+    sequences: [
+      { id: MIGRATED_SEQUENCE_ID, name: 'Main', steps: clickSequence },
+    ],
+    activeSequenceId: MIGRATED_SEQUENCE_ID,
+  }),
+};
+
+// A v8 spotlight was a single circle or rect, dimmed by a fixed amount.
+const upgradeSpotlight = (spotlight: unknown) =>
+  isRecord(spotlight)
+    ? {
+        regions: [{ ...spotlight, id: 1, points: [] }],
+        dimOpacity: DEFAULT_SPOTLIGHT_STYLE.dimOpacity,
+        blur: 0,
+        feather: 0,
+      }
+    : spotlight;
+
+// A declaration (rather than an arrow) so TypeScript narrows after calls.
+function fail(path: string, reason: string): never {
+  throw new ProjectValidationError(path, reason);
+}
+
+const expectRecord = (value: unknown, path: string) =>
+  isRecord(value) ? value : fail(path, 'expected an object');
+
+const expectArray = (value: unknown, path: string) =>
+  Array.isArray(value) ? (value as unknown[]) : fail(path, 'expected a list');
+
+const expectNumber = (value: unknown, path: string) =>
+  typeof value === 'number' && Number.isFinite(value)
+    ? value
+    : fail(path, 'expected a finite number');
+
+const expectString = (value: unknown, path: string) =>
+  typeof value === 'string' ? value : fail(path, 'expected a string');
+
+const expectBoolean = (value: unknown, path: string) =>
+  typeof value === 'boolean' ? value : fail(path, 'expected true or false');
+
+const expectOneOf = <T extends string>(
+  value: unknown,
+  options: readonly T[],
+  path: string
+): T =>
+  options.includes(value as T)
+    ? (value as T)
+    : fail(path, `expected one of ${options.map((o) => `"${o}"`).join(', ')}`);
+
+const validateTransform = (value: unknown, path: string): CanvasTransform => {
+  const transform = expectRecord(value, path);
+  const scale = expectNumber(transform.scale, `${path}.scale`);
+  if (scale <= 0) fail(`${path}.scale`, 'expected a positive number');
+  return {
+    scale,
+    x: expectNumber(transform.x, `${path}.x`),
+    y: expectNumber(transform.y, `${path}.y`),
+  };
+};
+
+const SPOTLIGHT_SHAPES = Object.keys(
+  SPOTLIGHT_SHAPE_LABELS
+) as SpotlightRegion['type'][];
+
+const expectNonNegative = (value: unknown, path: string) => {
+  const number = expectNumber(value, path);
+  return number >= 0 ? number : fail(path, 'expected a non-negative number');
+};
+
+const validateSpotlightRegion = (
+  value: unknown,
+  path: string
+): SpotlightRegion => {
+  const region = expectRecord(value, path);
+  return {
+    id: expectNumber(region.id, `${path}.id`),
+    type: expectOneOf(region.type, SPOTLIGHT_SHAPES, `${path}.type`),
+    x: expectNumber(region.x, `${path}.x`),
+    y: expectNumber(region.y, `${path}.y`),
+    width: expectNumber(region.width, `${path}.width`),
+    height: expectNumber(region.height, `${path}.height`),
+    radius: expectNumber(region.radius, `${path}.radius`),
+    points: expectArray(region.points, `${path}.points`).map((item, index) => {
+      const point = expectRecord(item, `${path}.points[${index}]`);
+      return {
+        x: expectNumber(point.x, `${path}.points[${index}].x`),
+        y: expectNumber(point.y, `${path}.points[${index}].y`),
+      };
+    }),
+  };
+};
+
+const validateSpotlight = (
+  value: unknown,
+  path: string
+): SpotlightState | null => {
+  if (value === null) return null;
+  const spotlight = expectRecord(value, path);
+  const dimOpacity = expectNonNegative(
+    spotlight.dimOpacity,
+    `${path}.dimOpacity`
+  );
+  if (dimOpacity > 1) fail(`${path}.dimOpacity`, 'expected at most 1');
+  return {
+    regions: expectArray(spotlight.regions, `${path}.regions`).map(
+      (region, index) =>
+        validateSpotlightRegion(region, `${path}.regions[${index}]`)
+    ),
+    dimOpacity,
+    blur: expectNonNegative(spotlight.blur, `${path}.blur`),
+    feather: expectNonNegative(spotlight.feather, `${path}.feather`),
+  };
+};
+
+const validateVideoPlayback = (
+  value: unknown,
+  path: string
+): VideoPlayback | null => {
+  if (value === null) return null;
+  const video = expectRecord(value, path);
+  const rate = expectNumber(video.rate, `${path}.rate`);
+  if (rate <= 0) fail(`${path}.rate`, 'expected a positive number');
+  return {
+    time: expectNonNegative(video.time, `${path}.time`),
+    isPlaying: expectBoolean(video.isPlaying, `${path}.isPlaying`),
+    isMuted: expectBoolean(video.isMuted, `${path}.isMuted`),
+    rate,
+  };
+};
+
+const validateIds = (value: unknown, path: string) =>
+  expectArray(value, path).map((id, index) =>
+    expectNumber(id, `${path}[${index}]`)
+  );
+
+const expectDuration = (value: unknown, path: string) => {
+  const duration = expectNumber(value, path);
+  if (duration < 0) fail(path, 'expected a non-negative duration');
+  return duration;
+};
+
+const validateTimedPoint = (value: unknown, path: string): TimedPoint => {
+  const point = expectRecord(value, path);
+  return {
+    x: expectNumber(point.x, `${path}.x`),
+    y: expectNumber(point.y, `${path}.y`),
+    t: expectDuration(point.t, `${path}.t`),
+  };
+};
+
+const validateInkPoint = (value: unknown, path: string): InkPoint => {
+  const point = validateTimedPoint(value, path);
+  const { pressure } = expectRecord(value, path);
+  if (pressure === undefined) return point;
+  const checked = expectNumber(pressure, `${path}.pressure`);
+  if (checked < 0 || checked > 1) {
+    fail(`${path}.pressure`, 'expected a number from 0 to 1');
+  }
+  return { ...point, pressure: checked };
+};
+
+const validateAnnotation = (value: unknown, path: string): Annotation => {
+  const annotation = expectRecord(value, path);
+  const base = {
+    id: expectNumber(annotation.id, `${path}.id`),
+    color: expectString(annotation.color, `${path}.color`),
+  };
+  const kind = expectOneOf(
+    annotation.kind,
+    ['arrow', 'rect', 'ellipse', 'text', 'ink'],
+    `${path}.kind`
+  );
+  if (kind === 'ink') {
+    const width = expectNumber(annotation.width, `${path}.width`);
+    if (width <= 0) fail(`${path}.width`, 'expected a positive number');
+    return {
+      ...base,
+      kind,
+      brush: expectOneOf(
+        annotation.brush,
+        ['pen', 'highlighter'],
+        `${path}.brush`
+      ),
+      width,
+      points: expectArray(annotation.points, `${path}.points`).map(
+        (point, index) => validateInkPoint(point, `${path}.points[${index}]`)
+      ),
+    };
+  }
+  const position = {
+    ...base,
+    x: expectNumber(annotation.x, `${path}.x`),
+    y: expectNumber(annotation.y, `${path}.y`),
+  };
+  return kind === 'text'
+    ? { ...position, kind, text: expectString(annotation.text, `${path}.text`) }
+    : {
+        ...position,
+        kind,
+        width: expectNumber(annotation.width, `${path}.width`),
+        height: expectNumber(annotation.height, `${path}.height`),
+      };
+};
+
+const validateTiming = (value: unknown, path: string): StepTiming => {
+  const timing = expectRecord(value, path);
+  return {
+    transitionMs: expectDuration(timing.transitionMs, `${path}.transitionMs`),
+    animationMs: expectDuration(timing.animationMs, `${path}.animationMs`),
+    dwellMs: expectDuration(timing.dwellMs, `${path}.dwellMs`),
+    easing: expectOneOf(
+      timing.easing,
+      Object.keys(EASINGS) as (keyof typeof EASINGS)[],
+      `${path}.easing`
+    ),
+  };
+};
+
+const validateMedia = (
+  value: unknown,
+  path: string
+): ProjectFileMedia | null => {
+  if (value === null) return null;
+  const media = expectRecord(value, path);
+  return {
+    mimeType: expectString(media.mimeType, `${path}.mimeType`),
+    data: expectString(media.data, `${path}.data`),
+  };
+};
+
+const validateSlide = (value: unknown, path: string): ProjectFileSlide => {
+  const slide = expectRecord(value, path);
+  const media = validateMedia(slide.media, `${path}.media`);
+  const mediaType =
+    slide.mediaType === null
+      ? null
+      : expectOneOf(slide.mediaType, ['image', 'video'], `${path}.mediaType`);
+  if (media && !mediaType) {
+    fail(`${path}.mediaType`, 'is required when media is present');
+  }
+  return {
+    id: expectNumber(slide.id, `${path}.id`),
+    mediaType,
+    media,
+    transform: validateTransform(slide.transform, `${path}.transform`),
+    spotlight: validateSpotlight(slide.spotlight, `${path}.spotlight`),
+    notes: expectString(slide.notes, `${path}.notes`),
+    annotations: expectArray(slide.annotations, `${path}.annotations`).map(
+      (annotation, index) =>
+        validateAnnotation(annotation, `${path}.annotations[${index}]`)
+    ),
+    visibleAnnotationIds: validateIds(
+      slide.visibleAnnotationIds,
+      `${path}.visibleAnnotationIds`
+    ),
+  };
+};
+
+const validateClickRecord = (
+  value: unknown,
+  path: string,
+  slideCount: number
+): ClickRecord => {
+  const record = expectRecord(value, path);
+  const slideIndex = expectNumber(record.slideIndex, `${path}.slideIndex`);
+  if (!Number.isInteger(slideIndex) || slideIndex < 0) {
+    fail(`${path}.slideIndex`, 'expected a non-negative integer');
+  }
+  if (slideIndex >= slideCount) {
+    fail(
+      `${path}.slideIndex`,
+      `refers to slide ${slideIndex + 1} but the project has ${slideCount}`
+    );
+  }
+  const toolState = expectRecord(record.toolState, `${path}.toolState`);
+  return {
+    id: expectNumber(record.id, `${path}.id`),
+    slideIndex,
+    x: expectNumber(record.x, `${path}.x`),
+    y: expectNumber(record.y, `${path}.y`),
+    toolState: {
+      transform: validateTransform(
+        toolState.transform,
+        `${path}.toolState.transform`
+      ),
+      spotlight: validateSpotlight(
+        toolState.spotlight,
+        `${path}.toolState.spotlight`
+      ),
+      annotationIds: validateIds(
+        toolState.annotationIds,
+        `${path}.toolState.annotationIds`
+      ),
+      video: validateVideoPlayback(toolState.video, `${path}.toolState.video`),
+    },
+    timing: validateTiming(record.timing, `${path}.timing`),
+    notes: expectString(record.notes, `${path}.notes`),
+    path: expectArray(record.path, `${path}.path`).map((point, index) =>
+      validateTimedPoint(point, `${path}.path[${index}]`)
+    ),
+    videoAction:
+      record.videoAction === null
+        ? null
+        : expectOneOf(record.videoAction, VIDEO_ACTIONS, `${path}.videoAction`),
+  };
+};
+
+/**
+ * Brings a parsed project file up to `CURRENT_PROJECT_VERSION` by running the
+ * migration chain. The result still needs to go through `validateProject`.
+ */
+export const migrateProject = (
+  data: unknown,
+  migrations: Record<number, Migration> = PROJECT_MIGRATIONS,
+  targetVersion: number = CURRENT_PROJECT_VERSION
+): RawProject => {
+  let project = expectRecord(data, '');
+  let version = expectNumber(project.version, 'version');
+  if (!Number.isInteger(version) || version < 1) {
+    fail('version', 'expected a positive integer');
+  }
+  if (version > targetVersion) {
+    fail(
+      'version',
+      `project was saved by a newer version of the app (v${version}, this app supports up to v${targetVersion})`
+    );
+  }
+  while (version < targetVersion) {
+    const migrate = migrations[version];
+    if (!migrate) {
+      fail('version', `no migration available from v${version}`);
+    }
+    project = migrate(project);
+    const nextVersion = expectNumber(project.version, 'version');
+    if (nextVersion <= version) {
+      fail('version', `migration from v${version} did not bump the version`);
+    }
+    version = nextVersion;
+  }
+  return project;
+};
+
+const validateSequence = (
+  value: unknown,
+  path: string,
+  slideCount: number
+): ClickSequence => {
+  const sequence = expectRecord(value, path);
+  return {
+    id: expectString(sequence.id, `${path}.id`),
+    name: expectString(sequence.name, `${path}.name`),
+    steps: expectArray(sequence.steps, `${path}.steps`).map((record, index) =>
+      validateClickRecord(record, `${path}.steps[${index}]`, slideCount)
+    ),
+  };
+};
+
+export const validateProject = (data: unknown): ProjectFile => {
+  const project = expectRecord(data, '');
+  const version = expectNumber(project.version, 'version');
+  if (version !== CURRENT_PROJECT_VERSION) {
+    fail('version', `expected v${CURRENT_PROJECT_VERSION}, got v${version}`);
+  }
+  const slides = expectArray(project.slides, 'slides').map((slide, index) =>
+    validateSlide(slide, `slides[${index}]`)
+  );
+  if (slides.length === 0) fail('slides', 'expected at least one slide');
+  const sequences = expectArray(project.sequences, 'sequences').map(
+    (sequence, index) =>
+      validateSequence(sequence, `sequences[${index}]`, slides.length)
+  );
+  if (sequences.length === 0) {
+    fail('sequences', 'expected at least one sequence');
+  }
+  sequences.forEach(({ id }, index) => {
+    if (sequences.findIndex((other) => other.id === id) !== index) {
+      fail(`sequences[${index}].id`, `"${id}" is used by another sequence`);
+    }
+  });
+  const activeSequenceId = expectString(
+    project.activeSequenceId,
+    'activeSequenceId'
+  );
+  if (!sequences.some(({ id }) => id === activeSequenceId)) {
+    fail('activeSequenceId', 'expected the id of one of the sequences');
+  }
+  return {
+    version,
+    savedAt: expectString(project.savedAt, 'savedAt'),
+    coordinateSpace: expectOneOf(
+      project.coordinateSpace,
+      ['content', 'pixels'],
+      'coordinateSpace'
+    ),
+    slides,
+    sequences,
+    activeSequenceId,
+  };
+};
+
+/** Migrates and validates untrusted project data in one step. */
+export const parseProject = (data: unknown): ProjectFile =>
+  validateProject(migrateProject(data));
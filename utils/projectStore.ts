@@ -0,0 +1,212 @@
+import { ClickSequence, ProjectFile, Slide } from '../types';
+
+import { deserializeProject, serializeProject } from './exportUtils';
+import { createMediaUrl, getMediaBlob, getMediaId } from './media';
+import { parseProject } from './projectSchema';
+
+const DB_NAME = 'interactive-presentation-tool';
+const DB_VERSION = 1;
+const PROJECTS_STORE = 'projects';
+const MEDIA_STORE = 'media';
+const MAX_STORED_PROJECTS = 10;
+
+/**
+ * An autosaved session. Media is kept out of the project record and stored
+ * as blobs in the media store, keyed by media id, so large videos are never
+ * base64-encoded or rewritten on every save.
+ */
+interface StoredProject {
+  id: string;
+  name: string;
+  updatedAt: number;
+  project: ProjectFile;
+  mediaIds: Record<number, string>; // slide id -> media id
+}
+
+export interface StoredProjectSummary {
+  id: string;
+  name: string;
+  updatedAt: number;
+  slideCount: number;
+  stepCount: number;
+}
+
+// Media ids already written during this page session; blobs never change
+// for a given id so they only need to be stored once.
+const persistedMediaIds = new Set<string>();
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const isProjectStoreAvailable = () => typeof indexedDB !== 'undefined';
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+const openDatabase = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+          db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(MEDIA_STORE)) {
+          db.createObjectStore(MEDIA_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const getAllProjects = async (db: IDBDatabase) => {
+  const store = db
+    .transaction(PROJECTS_STORE, 'readonly')
+    .objectStore(PROJECTS_STORE);
+  const projects = await requestToPromise<StoredProject[]>(store.getAll());
+  return projects.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+/** Removes media blobs that no stored project references any more. */
+const pruneStore = async (db: IDBDatabase) => {
+  const projects = await getAllProjects(db);
+  const transaction = db.transaction(
+    [PROJECTS_STORE, MEDIA_STORE],
+    'readwrite'
+  );
+  const projectStore = transaction.objectStore(PROJECTS_STORE);
+  projects
+    .slice(MAX_STORED_PROJECTS)
+    .forEach((project) => projectStore.delete(project.id));
+
+  const referenced = new Set(
+    projects
+      .slice(0, MAX_STORED_PROJECTS)
+      .flatMap((project) => Object.values(project.mediaIds))
+  );
+  const mediaStore = transaction.objectStore(MEDIA_STORE);
+  const mediaKeys = await requestToPromise(mediaStore.getAllKeys());
+  mediaKeys.forEach((key) => {
+    if (!referenced.has(String(key))) {
+      mediaStore.delete(key);
+      persistedMediaIds.delete(String(key));
+    }
+  });
+  await transactionDone(transaction);
+};
+
+export const saveStoredProject = async (
+  id: string,
+  name: string,
+  slides: Slide[],
+  sequences: ClickSequence[],
+  activeSequenceId: string
+) => {
+  const db = await openDatabase();
+
+  const mediaIds: Record<number, string> = {};
+  const newMedia: [string, Blob][] = [];
+  for (const slide of slides) {
+    if (!slide.mediaUrl) continue;
+    const mediaId = getMediaId(slide.mediaUrl);
+    mediaIds[slide.id] = mediaId;
+    if (!persistedMediaIds.has(mediaId)) {
+      newMedia.push([mediaId, await getMediaBlob(slide.mediaUrl)]);
+    }
+  }
+  // Media lives in its own store and is referenced through `mediaIds`.
+  const project = await serializeProject(
+    slides,
+    sequences,
+    activeSequenceId,
+    async () => null
+  );
+
+  const transaction = db.transaction(
+    [PROJECTS_STORE, MEDIA_STORE],
+    'readwrite'
+  );
+  const mediaStore = transaction.objectStore(MEDIA_STORE);
+  newMedia.forEach(([mediaId, blob]) => mediaStore.put(blob, mediaId));
+  const record: StoredProject = {
+    id,
+    name,
+    updatedAt: Date.now(),
+    project,
+    mediaIds,
+  };
+  transaction.objectStore(PROJECTS_STORE).put(record);
+  await transactionDone(transaction);
+  newMedia.forEach(([mediaId]) => persistedMediaIds.add(mediaId));
+};
+
+export const listStoredProjects = async (): Promise<StoredProjectSummary[]> => {
+  const db = await openDatabase();
+  await pruneStore(db);
+  const projects = await getAllProjects(db);
+  return projects.map((stored) => ({
+    id: stored.id,
+    name: stored.name,
+    updatedAt: stored.updatedAt,
+    slideCount: stored.project.slides.length,
+    stepCount: stored.project.sequences.reduce(
+      (count, sequence) => count + sequence.steps.length,
+      0
+    ),
+  }));
+};
+
+/**
+ * Loads an autosaved session, running it through the same migrations and
+ * validation as project files.
+ */
+export const loadStoredProject = async (id: string) => {
+  const db = await openDatabase();
+  const transaction = db.transaction([PROJECTS_STORE, MEDIA_STORE], 'readonly');
+  const stored = await requestToPromise<StoredProject | undefined>(
+    transaction.objectStore(PROJECTS_STORE).get(id)
+  );
+  if (!stored) throw new Error(`No stored project with id ${id}`);
+
+  const mediaStore = transaction.objectStore(MEDIA_STORE);
+  const blobs = new Map<string, Blob>();
+  for (const mediaId of Object.values(stored.mediaIds)) {
+    const blob = await requestToPromise<Blob | undefined>(
+      mediaStore.get(mediaId)
+    );
+    if (blob) blobs.set(mediaId, blob);
+  }
+
+  const project = parseProject(stored.project);
+  const state = deserializeProject(project, (slide) => {
+    const mediaId = stored.mediaIds[slide.id];
+    const blob = mediaId ? blobs.get(mediaId) : undefined;
+    if (!mediaId || !blob) return null;
+    persistedMediaIds.add(mediaId);
+    return createMediaUrl(blob, mediaId);
+  });
+  return { ...state, name: stored.name };
+};
+
+export const deleteStoredProject = async (id: string) => {
+  const db = await openDatabase();
+  const transaction = db.transaction(PROJECTS_STORE, 'readwrite');
+  transaction.objectStore(PROJECTS_STORE).delete(id);
+  await transactionDone(transaction);
+  await pruneStore(db);
+};
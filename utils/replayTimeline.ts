@@ -0,0 +1,232 @@
+import { ClickRecord, Slide } from '../types';
+
+import {
+  CSS_EASE_IN_OUT,
+  CSS_EASE_OUT,
+  CURSOR_RIPPLE_MS,
+  EASINGS,
+  interpolateCursor,
+} from './animation';
+import { Point } from './coordinates';
+import { getPathDuration, getPointAt } from './path';
+import { getSlideStatesAtStep, slideStateFromToolState } from './sequence';
+import { REPLAY_START_DELAY_MS, getStepSchedule } from './timing';
+
+/**
+ * The auto replay laid out on a fixed timeline, so any moment of it can be
+ * reproduced exactly, at any frame rate and without running in real time.
+ * Steps follow `getStepSchedule`, like `useAutoReplay` does, and frames show
+ * what the components it drives would: slide changes, cursor travel, the
+ * click, then the step's animation and dwell.
+ */
+
+export interface TimelineStep {
+  record: ClickRecord;
+  fromSlideIndex: number; // the slide on screen when the step begins
+  startMs: number;
+  travelStartMs: number; // after the slide change, if there is one
+  clickMs: number;
+  endMs: number;
+  from: Slide; // the step's slide right before it is applied
+  to: Slide; // ...and once it has been
+  // Where the cursor glides from; null when it appears at the click, as it
+  // does on a slide it was not on yet.
+  cursorFrom: Point | null;
+}
+
+export interface ReplayTimeline {
+  initialSlides: Slide[];
+  initialSlideIndex: number;
+  steps: TimelineStep[];
+  durationMs: number;
+}
+
+/** A slide part way through a step's animation from `from`. */
+export interface SlideAnimation {
+  from: Slide;
+  progress: number; // eased, 0-1
+  inkProgress: number; // how much of the strokes the step shows are drawn
+}
+
+export interface CursorFrame {
+  point: Point; // content space
+  rippleProgress: number | null; // eased, 0-1 while the click ripple plays
+}
+
+export interface SlideFrame {
+  slideIndex: number;
+  slide: Slide; // with its video advanced to the moment shown
+  animation: SlideAnimation | null;
+  cursor: CursorFrame | null;
+}
+
+export interface ReplayFrame {
+  stripOffset: number; // slide index the strip is at; fractional mid-change
+  slides: SlideFrame[]; // the one or two slides in view
+}
+
+export const buildReplayTimeline = (
+  slides: Slide[],
+  sequence: ClickRecord[]
+): ReplayTimeline => {
+  const initialSlides = getSlideStatesAtStep(slides, sequence, 0);
+  const initialSlideIndex = sequence[0]?.slideIndex ?? 0;
+  const states = [...initialSlides];
+  const steps: TimelineStep[] = [];
+  let time = REPLAY_START_DELAY_MS;
+  let slideIndex = initialSlideIndex;
+
+  sequence.forEach((record) => {
+    const from = states[record.slideIndex];
+    if (!from) return;
+    const to = { ...from, ...slideStateFromToolState(record.toolState) };
+    states[record.slideIndex] = to;
+    const previous = steps[steps.length - 1]?.record;
+    const { slideChangeMs, travelMs, afterClickMs } = getStepSchedule(
+      record,
+      slideIndex
+    );
+    const startMs = time;
+    const travelStartMs = startMs + slideChangeMs;
+    const clickMs = travelStartMs + travelMs;
+    const endMs = clickMs + afterClickMs;
+    steps.push({
+      record,
+      fromSlideIndex: slideIndex,
+      startMs,
+      travelStartMs,
+      clickMs,
+      endMs,
+      from,
+      to,
+      cursorFrom:
+        previous?.slideIndex === record.slideIndex
+          ? { x: previous.x, y: previous.y }
+          : null,
+    });
+    slideIndex = record.slideIndex;
+    time = endMs;
+  });
+
+  return {
+    initialSlides,
+    initialSlideIndex,
+    steps,
+    durationMs: time,
+  };
+};
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+const findLast = <T>(items: T[], predicate: (item: T) => boolean) => {
+  for (let i = items.length - 1; i >= 0; i--) {
+    const item = items[i] as T;
+    if (predicate(item)) return item;
+  }
+  return undefined;
+};
+
+const getCursorPoint = (step: TimelineStep, timeMs: number): Point => {
+  const { record, cursorFrom, travelStartMs } = step;
+  const target = { x: record.x, y: record.y };
+  const { transitionMs, easing } = record.timing;
+  // An unmoved target or a zero travel time jumps, like useTween does.
+  if (
+    !cursorFrom ||
+    (cursorFrom.x === target.x && cursorFrom.y === target.y) ||
+    transitionMs <= 0 ||
+    timeMs >= step.clickMs
+  ) {
+    return target;
+  }
+  const progress = clamp01((timeMs - travelStartMs) / transitionMs);
+  const pathDuration = getPathDuration(record.path);
+  // A recorded path is retraced at its own pace; otherwise glide on an arc.
+  return pathDuration > 0
+    ? getPointAt(record.path, progress * pathDuration)
+    : interpolateCursor(cursorFrom, target, EASINGS[easing](progress));
+};
+
+const getSlideFrame = (
+  timeline: ReplayTimeline,
+  slideIndex: number,
+  timeMs: number,
+  cursorStep: TimelineStep | undefined
+): SlideFrame | null => {
+  const applied = findLast(
+    timeline.steps,
+    (step) => step.record.slideIndex === slideIndex && step.clickMs <= timeMs
+  );
+  const slide = applied ? applied.to : timeline.initialSlides[slideIndex];
+  if (!slide) return null;
+  const sinceApplied = applied ? timeMs - applied.clickMs : timeMs;
+
+  let animation: SlideAnimation | null = null;
+  if (applied) {
+    const { animationMs, easing } = applied.record.timing;
+    const progress = animationMs > 0 ? clamp01(sinceApplied / animationMs) : 1;
+    if (progress < 1) {
+      animation = {
+        from: applied.from,
+        progress: EASINGS[easing](progress),
+        inkProgress: progress,
+      };
+    }
+  }
+
+  // A playing video keeps going from where the step left it.
+  const video =
+    slide.video?.isPlaying && applied
+      ? {
+          ...slide.video,
+          time: slide.video.time + (sinceApplied / 1000) * slide.video.rate,
+        }
+      : slide.video;
+
+  let cursor: CursorFrame | null = null;
+  if (cursorStep?.record.slideIndex === slideIndex) {
+    const sinceClick = timeMs - cursorStep.clickMs;
+    cursor = {
+      point: getCursorPoint(cursorStep, timeMs),
+      rippleProgress:
+        sinceClick >= 0 && sinceClick < CURSOR_RIPPLE_MS
+          ? CSS_EASE_OUT(sinceClick / CURSOR_RIPPLE_MS)
+          : null,
+    };
+  }
+
+  return { slideIndex, slide: { ...slide, video }, animation, cursor };
+};
+
+/** Everything on screen `timeMs` into the replay. */
+export const getReplayFrame = (
+  timeline: ReplayTimeline,
+  timeMs: number
+): ReplayFrame => {
+  const step = findLast(timeline.steps, (item) => item.startMs <= timeMs);
+  let stripOffset = step ? step.record.slideIndex : timeline.initialSlideIndex;
+  if (step && timeMs < step.travelStartMs) {
+    const progress = CSS_EASE_IN_OUT(
+      (timeMs - step.startMs) / (step.travelStartMs - step.startMs)
+    );
+    stripOffset =
+      step.fromSlideIndex +
+      (step.record.slideIndex - step.fromSlideIndex) * progress;
+  }
+  // The cursor stays where the last click left it through a slide change.
+  const cursorStep = findLast(
+    timeline.steps,
+    (item) => item.travelStartMs <= timeMs
+  );
+  const inView = [
+    ...new Set([Math.floor(stripOffset), Math.ceil(stripOffset)]),
+  ];
+  return {
+    stripOffset,
+    slides: inView
+      .map((slideIndex) =>
+        getSlideFrame(timeline, slideIndex, timeMs, cursorStep)
+      )
+      .filter((frame): frame is SlideFrame => frame !== null),
+  };
+};
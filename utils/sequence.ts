@@ -0,0 +1,170 @@
+import { CanvasTransform, ClickRecord, Slide, ToolState } from '../types';
+
+import { SPOTLIGHT_SHAPE_LABELS } from './spotlight';
+import {
+  INITIAL_VIDEO_PLAYBACK,
+  describeVideoAction,
+  formatVideoTime,
+} from './video';
+
+export const INITIAL_TRANSFORM: CanvasTransform = { scale: 1, x: 0, y: 0 };
+
+/** The slide fields a step's tool state controls. */
+export const slideStateFromToolState = (
+  toolState: ToolState
+): Pick<
+  Slide,
+  'transform' | 'spotlight' | 'visibleAnnotationIds' | 'video'
+> => ({
+  transform: toolState.transform,
+  spotlight: toolState.spotlight,
+  visibleAnnotationIds: toolState.annotationIds,
+  video: toolState.video,
+});
+
+/** Where the next captured click goes in the sequence. */
+export type CaptureTarget =
+  | { mode: 'append' }
+  | { mode: 'insert'; index: number }
+  | { mode: 'replace'; index: number };
+
+let lastStepId = 0;
+
+/** Step ids only need to be unique within a sequence; keep them increasing. */
+export const createStepId = () => {
+  lastStepId = Math.max(Date.now(), lastStepId + 1);
+  return lastStepId;
+};
+
+export const applyCapture = (
+  sequence: ClickRecord[],
+  record: ClickRecord,
+  target: CaptureTarget
+): ClickRecord[] => {
+  switch (target.mode) {
+    case 'append':
+      return [...sequence, record];
+    case 'insert':
+      return [
+        ...sequence.slice(0, target.index),
+        record,
+        ...sequence.slice(target.index),
+      ];
+    case 'replace': {
+      const existing = sequence[target.index];
+      if (!existing) return [...sequence, record];
+      // Re-capturing changes the click, not what is said about it.
+      return sequence.map((step, index) =>
+        index === target.index
+          ? { ...record, id: existing.id, notes: existing.notes }
+          : step
+      );
+    }
+  }
+};
+
+/** Dropping an item right before itself or its successor changes nothing. */
+export const isNoOpMove = (fromIndex: number, beforeIndex: number) =>
+  beforeIndex === fromIndex || beforeIndex === fromIndex + 1;
+
+/**
+ * Where an item dropped in front of `beforeIndex` ends up: positions past it
+ * shift down once it is taken out of the list.
+ */
+export const getMoveDestination = (fromIndex: number, beforeIndex: number) =>
+  beforeIndex > fromIndex ? beforeIndex - 1 : beforeIndex;
+
+/**
+ * Moves a step in front of the one now at `beforeIndex`, or to the end for
+ * `sequence.length`, which is where the editor's drop indicator shows it.
+ */
+export const moveStep = (
+  sequence: ClickRecord[],
+  fromIndex: number,
+  beforeIndex: number
+): ClickRecord[] => {
+  const step = sequence[fromIndex];
+  if (!step || isNoOpMove(fromIndex, beforeIndex)) return sequence;
+  const toIndex = getMoveDestination(fromIndex, beforeIndex);
+  const without = sequence.filter((_, index) => index !== fromIndex);
+  return [...without.slice(0, toIndex), step, ...without.slice(toIndex)];
+};
+
+export const duplicateStep = (
+  sequence: ClickRecord[],
+  index: number
+): ClickRecord[] => {
+  const step = sequence[index];
+  if (!step) return sequence;
+  return [
+    ...sequence.slice(0, index + 1),
+    { ...step, id: createStepId() },
+    ...sequence.slice(index + 1),
+  ];
+};
+
+export const removeStep = (
+  sequence: ClickRecord[],
+  index: number
+): ClickRecord[] => sequence.filter((_, i) => i !== index);
+
+/** Short human-readable summary of what a step does. */
+export const describeStep = (record: ClickRecord): string => {
+  const { transform, spotlight, annotationIds, video } = record.toolState;
+  const effects: string[] = [];
+  if (record.videoAction) {
+    effects.push(describeVideoAction(record.videoAction, video));
+  }
+  if (transform.scale !== 1) {
+    effects.push(`Zoom ${Math.round(transform.scale * 100) / 100}×`);
+  }
+  if (spotlight) {
+    const [region] = spotlight.regions;
+    effects.push(
+      spotlight.regions.length === 1 && region
+        ? `${SPOTLIGHT_SHAPE_LABELS[region.type]} spotlight`
+        : `${spotlight.regions.length} spotlight regions`
+    );
+  }
+  if (annotationIds.length > 0) {
+    effects.push(
+      annotationIds.length === 1
+        ? '1 annotation'
+        : `${annotationIds.length} annotations`
+    );
+  }
+  const summary = effects.length > 0 ? effects.join(' + ') : 'Click';
+  // e.g. "Zoom 2× while playing at 0:42"
+  return video?.isPlaying && !record.videoAction
+    ? `${summary} while playing at ${formatVideoTime(video.time)}`
+    : summary;
+};
+
+/**
+ * Slide states as they are right before `stepIndex` plays: every slide reset
+ * to its initial view (no spotlight, no annotations shown, videos paused at
+ * the start), then the tool state of each earlier step applied.
+ */
+export const getSlideStatesAtStep = (
+  slides: Slide[],
+  sequence: ClickRecord[],
+  stepIndex: number
+): Slide[] => {
+  const states: Slide[] = slides.map((slide) => ({
+    ...slide,
+    transform: INITIAL_TRANSFORM,
+    spotlight: null,
+    visibleAnnotationIds: [],
+    video: slide.mediaType === 'video' ? INITIAL_VIDEO_PLAYBACK : null,
+  }));
+  sequence.slice(0, stepIndex).forEach((record) => {
+    const slide = states[record.slideIndex];
+    if (slide) {
+      states[record.slideIndex] = {
+        ...slide,
+        ...slideStateFromToolState(record.toolState),
+      };
+    }
+  });
+  return states;
+};
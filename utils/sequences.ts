@@ -0,0 +1,82 @@
+import { ClickRecord, ClickSequence } from '../types';
+
+export const DEFAULT_SEQUENCE_NAME = 'Main';
+
+let lastSequenceId = 0;
+
+/** Sequence ids only need to be unique within a project. */
+export const createSequence = (
+  name = DEFAULT_SEQUENCE_NAME,
+  steps: ClickRecord[] = []
+): ClickSequence => {
+  lastSequenceId = Math.max(Date.now(), lastSequenceId + 1);
+  return { id: `sequence-${lastSequenceId}`, name, steps };
+};
+
+/** The sequence with `id`, falling back to the first one. */
+export const getActiveSequence = (
+  sequences: ClickSequence[],
+  id: string
+): ClickSequence | undefined =>
+  sequences.find((sequence) => sequence.id === id) ?? sequences[0];
+
+export const updateSequenceSteps = (
+  sequences: ClickSequence[],
+  id: string,
+  update: (steps: ClickRecord[]) => ClickRecord[]
+) =>
+  sequences.map((sequence) =>
+    sequence.id === id
+      ? { ...sequence, steps: update(sequence.steps) }
+      : sequence
+  );
+
+export const renameSequence = (
+  sequences: ClickSequence[],
+  id: string,
+  name: string
+) =>
+  sequences.map((sequence) =>
+    sequence.id === id ? { ...sequence, name } : sequence
+  );
+
+/** `name`, or `name 2`, `name 3`… if another sequence already has it. */
+export const getUniqueSequenceName = (
+  sequences: ClickSequence[],
+  name: string
+) => {
+  const taken = new Set(sequences.map((sequence) => sequence.name));
+  let candidate = name;
+  for (let number = 2; taken.has(candidate); number++) {
+    candidate = `${name} ${number}`;
+  }
+  return candidate;
+};
+
+/** Inserts a copy of a sequence, steps and all, right after it. */
+export const duplicateSequence = (
+  sequences: ClickSequence[],
+  id: string
+): { sequences: ClickSequence[]; copy: ClickSequence | null } => {
+  const index = sequences.findIndex((sequence) => sequence.id === id);
+  const original = sequences[index];
+  if (!original) return { sequences, copy: null };
+  const copy = createSequence(
+    getUniqueSequenceName(sequences, `${original.name} copy`),
+    original.steps
+  );
+  return {
+    sequences: [
+      ...sequences.slice(0, index + 1),
+      copy,
+      ...sequences.slice(index + 1),
+    ],
+    copy,
+  };
+};
+
+/** Removes a sequence, unless it is the only one left. */
+export const removeSequence = (sequences: ClickSequence[], id: string) =>
+  sequences.length > 1
+    ? sequences.filter((sequence) => sequence.id !== id)
+    : sequences;
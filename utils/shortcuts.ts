@@ -0,0 +1,486 @@
+/**
+ * Commands: every action the toolbar, the keyboard and the command palette
+ * offer, named here with their default bindings. What they do, and whether
+ * they can run right now, is up to the app (see `CommandStates`).
+ *
+ * A binding is one key combo, like `Ctrl+Shift+Z`, or a chord of combos
+ * pressed one after another, like `G S`. Combos list their modifiers in a
+ * fixed order before the key. Ctrl also stands for Cmd on a Mac, and Shift
+ * is left out of keys it already changes, so `?` rather than `Shift+/`.
+ */
+
+export type CommandId =
+  | 'tool.panZoom'
+  | 'tool.spotlight'
+  | 'tool.annotate'
+  | 'tool.ink'
+  | 'tool.laser'
+  | 'capture.toggle'
+  | 'capture.path'
+  | 'edit.undo'
+  | 'edit.redo'
+  | 'panel.steps'
+  | 'panel.notes'
+  | 'slide.add'
+  | 'slide.next'
+  | 'slide.prev'
+  | 'panel.slides'
+  | 'replay.play'
+  | 'replay.step'
+  | 'replay.present'
+  | 'step.next'
+  | 'step.prev'
+  | 'step.exit'
+  | 'view.blank'
+  | 'project.save'
+  | 'project.export'
+  | 'project.open'
+  | 'project.recent'
+  | 'project.reset'
+  | 'palette.open'
+  | 'help.shortcuts';
+
+export type CommandGroup =
+  | 'Tools'
+  | 'Editing'
+  | 'Slides'
+  | 'Replay'
+  | 'Project'
+  | 'Help';
+
+export interface ShortcutCommand {
+  id: CommandId;
+  label: string;
+  group: CommandGroup;
+  defaultBindings: string[];
+}
+
+/** What running a command does right now. */
+export interface CommandState {
+  run: () => void;
+  isDisabled?: boolean;
+  isActive?: boolean; // for toggles
+}
+
+export type CommandStates = Record<CommandId, CommandState>;
+
+// Commands that share keys, like the arrows, are never enabled at once.
+export const SHORTCUT_COMMANDS: ShortcutCommand[] = [
+  {
+    id: 'tool.panZoom',
+    label: 'Pan & Zoom',
+    group: 'Tools',
+    defaultBindings: ['A'],
+  },
+  {
+    id: 'tool.spotlight',
+    label: 'Spotlight',
+    group: 'Tools',
+    defaultBindings: ['S'],
+  },
+  {
+    id: 'tool.annotate',
+    label: 'Arrows, Boxes & Text',
+    group: 'Tools',
+    defaultBindings: ['N'],
+  },
+  {
+    id: 'tool.ink',
+    label: 'Pen, Highlighter & Eraser',
+    group: 'Tools',
+    defaultBindings: ['P'],
+  },
+  {
+    id: 'tool.laser',
+    label: 'Laser Pointer',
+    group: 'Tools',
+    defaultBindings: ['L'],
+  },
+  {
+    id: 'capture.toggle',
+    label: 'Start or Stop Capturing',
+    group: 'Editing',
+    defaultBindings: ['C'],
+  },
+  {
+    id: 'capture.path',
+    label: 'Record the Pointer Path Between Captured Clicks',
+    group: 'Editing',
+    defaultBindings: [],
+  },
+  {
+    id: 'edit.undo',
+    label: 'Undo',
+    group: 'Editing',
+    defaultBindings: ['Ctrl+Z'],
+  },
+  {
+    id: 'edit.redo',
+    label: 'Redo',
+    group: 'Editing',
+    defaultBindings: ['Ctrl+Shift+Z', 'Ctrl+Y'],
+  },
+  {
+    id: 'panel.steps',
+    label: 'Edit Click Sequence',
+    group: 'Editing',
+    defaultBindings: [],
+  },
+  {
+    id: 'panel.notes',
+    label: 'Edit Speaker Notes',
+    group: 'Editing',
+    defaultBindings: [],
+  },
+  {
+    id: 'slide.add',
+    label: 'Add New Slide',
+    group: 'Slides',
+    defaultBindings: [],
+  },
+  {
+    id: 'slide.next',
+    label: 'Next Slide',
+    group: 'Slides',
+    defaultBindings: ['ArrowRight'],
+  },
+  {
+    id: 'slide.prev',
+    label: 'Previous Slide',
+    group: 'Slides',
+    defaultBindings: ['ArrowLeft'],
+  },
+  {
+    id: 'panel.slides',
+    label: 'Show Slides',
+    group: 'Slides',
+    defaultBindings: [],
+  },
+  {
+    id: 'replay.play',
+    label: 'Replay Click Sequence',
+    group: 'Replay',
+    defaultBindings: [],
+  },
+  {
+    id: 'replay.step',
+    label: 'Step-by-step Replay',
+    group: 'Replay',
+    defaultBindings: [],
+  },
+  {
+    id: 'replay.present',
+    label: 'Present with an Audience Window and Presenter View',
+    group: 'Replay',
+    defaultBindings: [],
+  },
+  {
+    id: 'step.next',
+    label: 'Next Step',
+    group: 'Replay',
+    defaultBindings: ['ArrowRight', 'Space'],
+  },
+  {
+    id: 'step.prev',
+    label: 'Previous Step',
+    group: 'Replay',
+    defaultBindings: ['ArrowLeft'],
+  },
+  {
+    id: 'step.exit',
+    label: 'Exit Step-by-step Replay',
+    group: 'Replay',
+    defaultBindings: ['Escape'],
+  },
+  {
+    id: 'view.blank',
+    label: 'Blank the Screen',
+    group: 'Replay',
+    defaultBindings: [],
+  },
+  {
+    id: 'project.save',
+    label: 'Save Project',
+    group: 'Project',
+    defaultBindings: [],
+  },
+  {
+    id: 'project.export',
+    label: 'Export as an HTML Player, Video, PNG Frames or a PDF Handout',
+    group: 'Project',
+    defaultBindings: [],
+  },
+  {
+    id: 'project.open',
+    label: 'Open Project',
+    group: 'Project',
+    defaultBindings: [],
+  },
+  {
+    id: 'project.recent',
+    label: 'Recent Local Projects',
+    group: 'Project',
+    defaultBindings: [],
+  },
+  {
+    id: 'project.reset',
+    label: 'Reset Presentation',
+    group: 'Project',
+    defaultBindings: [],
+  },
+  {
+    id: 'palette.open',
+    label: 'Command Palette',
+    group: 'Help',
+    defaultBindings: ['Ctrl+K'],
+  },
+  {
+    id: 'help.shortcuts',
+    label: 'Keyboard Shortcuts',
+    group: 'Help',
+    defaultBindings: ['?'],
+  },
+];
+
+export const getCommand = (id: CommandId) =>
+  SHORTCUT_COMMANDS.find((command) => command.id === id) as ShortcutCommand;
+
+export type KeyProfileId = 'standard' | 'clicker';
+
+interface KeyProfile {
+  id: KeyProfileId;
+  label: string;
+  description: string;
+  // Added to the default bindings.
+  bindings: Partial<Record<CommandId, string[]>>;
+}
+
+export const KEY_PROFILES: KeyProfile[] = [
+  {
+    id: 'standard',
+    label: 'Keyboard',
+    description: 'The default keys.',
+    bindings: {},
+  },
+  {
+    id: 'clicker',
+    label: 'Presenter clicker',
+    description:
+      'Also answers PageUp, PageDown, F5, B and period, the keys most clickers send.',
+    bindings: {
+      'slide.next': ['PageDown'],
+      'slide.prev': ['PageUp'],
+      'replay.step': ['F5', 'Shift+F5'],
+      'step.next': ['PageDown'],
+      'step.prev': ['PageUp'],
+      'view.blank': ['B', '.'],
+    },
+  },
+];
+
+export type KeyBindings = Record<CommandId, string[]>;
+
+export interface ShortcutSettings {
+  profile: KeyProfileId;
+  // Bindings the user chose, in place of the profile's.
+  overrides: Partial<Record<CommandId, string[]>>;
+}
+
+export const DEFAULT_SHORTCUT_SETTINGS: ShortcutSettings = {
+  profile: 'standard',
+  overrides: {},
+};
+
+// How long the second half of a chord is waited for.
+export const CHORD_TIMEOUT_MS = 1500;
+
+const STORAGE_KEY = 'interactive-presentation-tool:shortcuts';
+const MODIFIERS = ['Ctrl', 'Alt', 'Shift'] as const;
+const KEY_NAMES: Record<string, string> = {
+  ' ': 'Space',
+  Esc: 'Escape',
+  Left: 'ArrowLeft',
+  Right: 'ArrowRight',
+  Up: 'ArrowUp',
+  Down: 'ArrowDown',
+};
+const KEY_LABELS: Record<string, string> = {
+  ArrowLeft: 'Left Arrow',
+  ArrowRight: 'Right Arrow',
+  ArrowUp: 'Up Arrow',
+  ArrowDown: 'Down Arrow',
+  Escape: 'Esc',
+};
+
+type KeyEventLike = Pick<
+  KeyboardEvent,
+  'key' | 'code' | 'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey'
+>;
+
+const isCommandId = (value: string): value is CommandId =>
+  SHORTCUT_COMMANDS.some(({ id }) => id === value);
+
+/**
+ * The combo a key press makes, or null for a modifier pressed on its own.
+ * Letters and digits come from the physical key, so Alt or a keyboard
+ * layout's dead keys don't change them.
+ */
+export const getKeyCombo = (event: KeyEventLike): string | null => {
+  if (['Control', 'Meta', 'Alt', 'Shift', 'AltGraph'].includes(event.key)) {
+    return null;
+  }
+  const code = /^(?:Key([A-Z])|Digit(\d))$/.exec(event.code);
+  const key = code
+    ? (code[1] ?? code[2] ?? '')
+    : (KEY_NAMES[event.key] ?? event.key);
+  // A symbol already says whether Shift was held.
+  const isSymbol = key.length === 1 && !code;
+  return [
+    event.ctrlKey || event.metaKey ? 'Ctrl' : null,
+    event.altKey ? 'Alt' : null,
+    event.shiftKey && !isSymbol ? 'Shift' : null,
+    key.length === 1 ? key.toUpperCase() : key,
+  ]
+    .filter(Boolean)
+    .join('+');
+};
+
+/** Tidies a typed or stored binding, or returns null if it isn't one. */
+export const normalizeBinding = (binding: string): string | null => {
+  const combos = binding.trim().split(/\s+/);
+  if (combos.length === 0 || combos.length > 2) return null;
+  const normalized = combos.map((combo) => {
+    // A trailing `+` is the plus key itself, as in `Ctrl++`.
+    const parts = combo.endsWith('+')
+      ? [...combo.slice(0, -1).split('+').filter(Boolean), '+']
+      : combo.split('+');
+    const key = parts.pop();
+    if (!key) return null;
+    const modifiers = parts.map((part) => {
+      const name = part.toLowerCase();
+      if (['ctrl', 'control', 'cmd', 'meta', 'mod'].includes(name)) {
+        return 'Ctrl';
+      }
+      return MODIFIERS.find((modifier) => modifier.toLowerCase() === name);
+    });
+    if (modifiers.includes(undefined)) return null;
+    const name = KEY_NAMES[key] ?? key;
+    return [
+      ...MODIFIERS.filter((modifier) => modifiers.includes(modifier)),
+      name.length === 1 ? name.toUpperCase() : name,
+    ].join('+');
+  });
+  return normalized.includes(null) ? null : normalized.join(' ');
+};
+
+/** A binding as shown to people: `Ctrl+Shift+Z`, `Right Arrow`, `G then S`. */
+export const formatBinding = (binding: string) =>
+  binding
+    .split(' ')
+    .map((combo) =>
+      combo.replace(/[^+]+$|\+$/, (key) => KEY_LABELS[key] ?? key)
+    )
+    .join(' then ');
+
+/** The first key bound to a command, for tooltips. */
+export const getShortcutHint = (bindings: KeyBindings, id: CommandId) => {
+  const [binding] = bindings[id];
+  return binding ? formatBinding(binding) : undefined;
+};
+
+/** Every command's bindings under `settings`. */
+export const getKeyBindings = (settings: ShortcutSettings): KeyBindings => {
+  const profile = KEY_PROFILES.find(({ id }) => id === settings.profile);
+  return Object.fromEntries(
+    SHORTCUT_COMMANDS.map(({ id, defaultBindings }) => [
+      id,
+      settings.overrides[id] ?? [
+        ...defaultBindings,
+        ...(profile?.bindings[id] ?? []),
+      ],
+    ])
+  ) as KeyBindings;
+};
+
+export type ShortcutMatch =
+  | { type: 'command'; id: CommandId }
+  | { type: 'chord'; prefix: string }
+  | null;
+
+/**
+ * What pressing `combo` does, given the start of a chord already pressed
+ * and the commands that can run right now. The first command listed wins
+ * when two share a binding; a chord that goes nowhere starts over from
+ * `combo` alone.
+ */
+export const matchShortcut = (
+  bindings: KeyBindings,
+  activeIds: CommandId[],
+  prefix: string | null,
+  combo: string
+): ShortcutMatch => {
+  const sequence = prefix ? `${prefix} ${combo}` : combo;
+  const active = SHORTCUT_COMMANDS.filter(({ id }) => activeIds.includes(id));
+  const command = active.find(({ id }) => bindings[id].includes(sequence));
+  if (command) return { type: 'command', id: command.id };
+  if (
+    active.some(({ id }) =>
+      bindings[id].some((binding) => binding.startsWith(`${sequence} `))
+    )
+  ) {
+    return { type: 'chord', prefix: sequence };
+  }
+  return prefix ? matchShortcut(bindings, activeIds, null, combo) : null;
+};
+
+/** The shortcut settings saved in this browser, or the defaults. */
+export const loadShortcutSettings = (): ShortcutSettings => {
+  try {
+    const stored: unknown = JSON.parse(
+      localStorage.getItem(STORAGE_KEY) ?? 'null'
+    );
+    if (typeof stored !== 'object' || stored === null) {
+      return DEFAULT_SHORTCUT_SETTINGS;
+    }
+    const { profile, overrides } = stored as Record<string, unknown>;
+    const overrideEntries =
+      typeof overrides === 'object' && overrides !== null
+        ? Object.entries(overrides)
+        : [];
+    // Anything unknown or malformed, say from an older version, is dropped.
+    return {
+      profile: KEY_PROFILES.some(({ id }) => id === profile)
+        ? (profile as KeyProfileId)
+        : DEFAULT_SHORTCUT_SETTINGS.profile,
+      overrides: Object.fromEntries(
+        overrideEntries.flatMap(([id, bindings]) =>
+          isCommandId(id) && Array.isArray(bindings)
+            ? [
+                [
+                  id,
+                  bindings.flatMap((binding) => {
+                    const normalized =
+                      typeof binding === 'string'
+                        ? normalizeBinding(binding)
+                        : null;
+                    return normalized ? [normalized] : [];
+                  }),
+                ],
+              ]
+            : []
+        )
+      ),
+    };
+  } catch {
+    return DEFAULT_SHORTCUT_SETTINGS;
+  }
+};
+
+export const saveShortcutSettings = (settings: ShortcutSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    // Private browsing or a full quota; the settings last for this session.
+    console.error('Failed to save keyboard shortcuts', error);
+  }
+};
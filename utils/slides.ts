@@ -0,0 +1,124 @@
+import { ClickSequence, Slide } from '../types';
+
+import { getMoveDestination, isNoOpMove } from './sequence';
+
+/**
+ * Slides together with the sequences of steps that play on them. Steps refer
+ * to slides by position, so reordering, duplicating or deleting slides has to
+ * go through these helpers to keep every `slideIndex`, in every sequence,
+ * pointing at the same slide.
+ */
+export interface Deck {
+  slides: Slide[];
+  sequences: ClickSequence[];
+}
+
+// Moves every step to the slide position `remap` gives for its current one,
+// dropping steps whose slide no longer exists (`null`).
+const remapSteps = (
+  sequences: ClickSequence[],
+  remap: (slideIndex: number) => number | null
+): ClickSequence[] =>
+  sequences.map((sequence) => ({
+    ...sequence,
+    steps: sequence.steps.flatMap((record) => {
+      const slideIndex = remap(record.slideIndex);
+      if (slideIndex === null) return [];
+      return slideIndex === record.slideIndex
+        ? [record]
+        : [{ ...record, slideIndex }];
+    }),
+  }));
+
+/**
+ * Moves a slide in front of the one now at `beforeIndex`, or to the end for
+ * `slides.length`, which is where the sorter's drop indicator shows it.
+ */
+export const moveSlide = (
+  deck: Deck,
+  fromIndex: number,
+  beforeIndex: number
+): Deck => {
+  const slide = deck.slides[fromIndex];
+  if (!slide || isNoOpMove(fromIndex, beforeIndex)) return deck;
+  const toIndex = getMoveDestination(fromIndex, beforeIndex);
+  const without = deck.slides.filter((_, index) => index !== fromIndex);
+  return {
+    slides: [...without.slice(0, toIndex), slide, ...without.slice(toIndex)],
+    sequences: remapSteps(deck.sequences, (slideIndex) => {
+      if (slideIndex === fromIndex) return toIndex;
+      // Slides between the two positions shift over by one.
+      if (
+        fromIndex < toIndex &&
+        slideIndex > fromIndex &&
+        slideIndex <= toIndex
+      ) {
+        return slideIndex - 1;
+      }
+      if (
+        toIndex < fromIndex &&
+        slideIndex >= toIndex &&
+        slideIndex < fromIndex
+      ) {
+        return slideIndex + 1;
+      }
+      return slideIndex;
+    }),
+  };
+};
+
+/** An id newer than every existing slide's, for slides created now. */
+export const nextSlideId = (slides: Slide[]) =>
+  Math.max(Date.now(), ...slides.map((slide) => slide.id + 1));
+
+/** Inserts slides before position `index`, shifting the steps after them. */
+export const insertSlides = (
+  deck: Deck,
+  index: number,
+  slides: Slide[]
+): Deck => ({
+  slides: [
+    ...deck.slides.slice(0, index),
+    ...slides,
+    ...deck.slides.slice(index),
+  ],
+  sequences: remapSteps(deck.sequences, (slideIndex) =>
+    slideIndex >= index ? slideIndex + slides.length : slideIndex
+  ),
+});
+
+/**
+ * Inserts a copy of a slide (media, view, annotations and notes) right after
+ * it. The copy starts without steps of its own.
+ */
+export const duplicateSlide = (deck: Deck, index: number): Deck => {
+  const slide = deck.slides[index];
+  if (!slide) return deck;
+  return insertSlides(deck, index + 1, [
+    { ...slide, id: nextSlideId(deck.slides) },
+  ]);
+};
+
+/** Removes a slide along with the steps that played on it. */
+export const removeSlide = (deck: Deck, index: number): Deck => {
+  if (!deck.slides[index]) return deck;
+  return {
+    slides: deck.slides.filter((_, i) => i !== index),
+    sequences: remapSteps(deck.sequences, (slideIndex) =>
+      slideIndex === index
+        ? null
+        : slideIndex > index
+          ? slideIndex - 1
+          : slideIndex
+    ),
+  };
+};
+
+/** Steps on a slide across all sequences, which a removal would drop. */
+export const countStepsOnSlide = (sequences: ClickSequence[], index: number) =>
+  sequences.reduce(
+    (count, sequence) =>
+      count +
+      sequence.steps.filter((record) => record.slideIndex === index).length,
+    0
+  );
@@ -0,0 +1,250 @@
+import { SpotlightRegion, SpotlightShapeType, SpotlightState } from '../types';
+
+import { Point } from './coordinates';
+
+export interface SpotlightStyle {
+  shape: SpotlightShapeType;
+  dimOpacity: number;
+  blur: number; // content-box widths
+  feather: number; // content-box widths
+  // Whether new regions join the current spotlight instead of replacing it.
+  isAdditive: boolean;
+}
+
+export const SPOTLIGHT_SHAPE_LABELS: Record<SpotlightShapeType, string> = {
+  circle: 'Circle',
+  ellipse: 'Ellipse',
+  rect: 'Rect',
+  roundedRect: 'Rounded',
+  polygon: 'Lasso',
+};
+
+export const DEFAULT_SPOTLIGHT_STYLE: SpotlightStyle = {
+  shape: 'rect',
+  dimOpacity: 0.8,
+  blur: 0,
+  feather: 0,
+  isAdditive: false,
+};
+
+export const MAX_SPOTLIGHT_BLUR = 0.02;
+export const MAX_SPOTLIGHT_FEATHER = 0.05;
+// Corner radius of a rounded rect, relative to its shorter side.
+const ROUNDED_CORNER_RATIO = 0.2;
+
+export type RegionHandle = 'nw' | 'ne' | 'sw' | 'se';
+export const REGION_HANDLES: RegionHandle[] = ['nw', 'ne', 'sw', 'se'];
+const OPPOSITE_HANDLES: Record<RegionHandle, RegionHandle> = {
+  nw: 'se',
+  ne: 'sw',
+  sw: 'ne',
+  se: 'nw',
+};
+
+let lastRegionId = 0;
+
+export const createRegionId = () => {
+  lastRegionId = Math.max(Date.now(), lastRegionId + 1);
+  return lastRegionId;
+};
+
+const getBox = (start: Point, end: Point) => ({
+  x: Math.min(start.x, end.x),
+  y: Math.min(start.y, end.y),
+  width: Math.abs(end.x - start.x),
+  height: Math.abs(end.y - start.y),
+});
+
+const getPointsBox = (points: Point[]) => {
+  const xs = points.map((point) => point.x);
+  const ys = points.map((point) => point.y);
+  return getBox(
+    { x: Math.min(...xs), y: Math.min(...ys) },
+    { x: Math.max(...xs), y: Math.max(...ys) }
+  );
+};
+
+/** A circle of `radius` around `center`; all units are the caller's. */
+export const createCircleRegion = (
+  center: Point,
+  radius: number
+): SpotlightRegion => ({
+  id: createRegionId(),
+  type: 'circle',
+  x: center.x,
+  y: center.y,
+  width: 0,
+  height: 0,
+  radius,
+  points: [],
+});
+
+/**
+ * A region dragged out from `start` to `end`: circles grow from their
+ * centre, everything else spans the two points.
+ */
+export const createDraggedRegion = (
+  shape: Exclude<SpotlightShapeType, 'polygon'>,
+  start: Point,
+  end: Point
+): SpotlightRegion => {
+  if (shape === 'circle') {
+    return createCircleRegion(
+      start,
+      Math.hypot(end.x - start.x, end.y - start.y)
+    );
+  }
+  const box = getBox(start, end);
+  return {
+    id: createRegionId(),
+    type: shape,
+    ...box,
+    radius:
+      shape === 'roundedRect'
+        ? Math.min(box.width, box.height) * ROUNDED_CORNER_RATIO
+        : 0,
+    points: [],
+  };
+};
+
+export const createPolygonRegion = (points: Point[]): SpotlightRegion => ({
+  id: createRegionId(),
+  type: 'polygon',
+  ...getPointsBox(points),
+  radius: 0,
+  points,
+});
+
+/** The box a region occupies, in the region's own units. */
+export const getRegionBounds = (region: SpotlightRegion) =>
+  region.type === 'circle'
+    ? {
+        x: region.x - region.radius,
+        y: region.y - region.radius,
+        width: region.radius * 2,
+        height: region.radius * 2,
+      }
+    : { x: region.x, y: region.y, width: region.width, height: region.height };
+
+export const getRegionCenter = (region: SpotlightRegion): Point =>
+  region.type === 'circle'
+    ? { x: region.x, y: region.y }
+    : { x: region.x + region.width / 2, y: region.y + region.height / 2 };
+
+export const getHandlePoint = (
+  region: SpotlightRegion,
+  handle: RegionHandle
+): Point => {
+  const bounds = getRegionBounds(region);
+  return {
+    x: handle.endsWith('w') ? bounds.x : bounds.x + bounds.width,
+    y: handle.startsWith('n') ? bounds.y : bounds.y + bounds.height,
+  };
+};
+
+export const moveRegion = (
+  region: SpotlightRegion,
+  dx: number,
+  dy: number
+): SpotlightRegion => ({
+  ...region,
+  x: region.x + dx,
+  y: region.y + dy,
+  points: region.points.map((point) => ({
+    x: point.x + dx,
+    y: point.y + dy,
+  })),
+});
+
+/**
+ * Drags one corner of a region's bounds to `point`, keeping the opposite
+ * corner in place. Circles keep their centre and take the corner's distance
+ * as their new size; polygon outlines are stretched to the new bounds.
+ */
+export const resizeRegion = (
+  region: SpotlightRegion,
+  handle: RegionHandle,
+  point: Point
+): SpotlightRegion => {
+  if (region.type === 'circle') {
+    return {
+      ...region,
+      radius: Math.max(
+        Math.abs(point.x - region.x),
+        Math.abs(point.y - region.y)
+      ),
+    };
+  }
+  const bounds = getRegionBounds(region);
+  const opposite = getHandlePoint(region, OPPOSITE_HANDLES[handle]);
+  const box = getBox(opposite, point);
+  const scaleX = bounds.width > 0 ? box.width / bounds.width : 1;
+  const scaleY = bounds.height > 0 ? box.height / bounds.height : 1;
+  return {
+    ...region,
+    ...box,
+    radius:
+      region.type === 'roundedRect'
+        ? Math.min(box.width, box.height) * ROUNDED_CORNER_RATIO
+        : region.radius,
+    points: region.points.map((vertex) => ({
+      x: box.x + (vertex.x - bounds.x) * scaleX,
+      y: box.y + (vertex.y - bounds.y) * scaleY,
+    })),
+  };
+};
+
+/** Whether `point` falls inside a region, in the region's own units. */
+export const isInsideRegion = (region: SpotlightRegion, point: Point) => {
+  switch (region.type) {
+    case 'circle':
+      return (
+        Math.hypot(point.x - region.x, point.y - region.y) <= region.radius
+      );
+    case 'ellipse': {
+      const rx = region.width / 2;
+      const ry = region.height / 2;
+      if (rx === 0 || ry === 0) return false;
+      const dx = (point.x - region.x - rx) / rx;
+      const dy = (point.y - region.y - ry) / ry;
+      return dx * dx + dy * dy <= 1;
+    }
+    case 'polygon': {
+      // Even-odd ray casting.
+      let inside = false;
+      region.points.forEach((vertex, index) => {
+        const previous =
+          region.points[
+            (index + region.points.length - 1) % region.points.length
+          ] ?? vertex;
+        if (
+          vertex.y > point.y !== previous.y > point.y &&
+          point.x <
+            ((previous.x - vertex.x) * (point.y - vertex.y)) /
+              (previous.y - vertex.y) +
+              vertex.x
+        ) {
+          inside = !inside;
+        }
+      });
+      return inside;
+    }
+    default:
+      return (
+        point.x >= region.x &&
+        point.x <= region.x + region.width &&
+        point.y >= region.y &&
+        point.y <= region.y + region.height
+      );
+  }
+};
+
+export const createSpotlight = (
+  regions: SpotlightRegion[],
+  style: SpotlightStyle
+): SpotlightState => ({
+  regions,
+  dimOpacity: style.dimOpacity,
+  blur: style.blur,
+  feather: style.feather,
+});
@@ -0,0 +1,92 @@
+import { ClickRecord, StepTiming } from '../types';
+
+export const DEFAULT_STEP_TIMING: StepTiming = {
+  transitionMs: 800,
+  animationMs: 500,
+  dwellMs: 400,
+  easing: 'easeInOutCubic',
+};
+export const SLIDE_TRANSITION_MS = 500; // matches the slide strip's CSS transition
+export const MIN_DWELL_MS = 200;
+export const MAX_DWELL_MS = 10000;
+export const PLAYBACK_SPEEDS = [0.5, 1, 1.5, 2, 3];
+// The auto replay waits this long for the reset slides to render.
+export const REPLAY_START_DELAY_MS = 50;
+
+const TICK_MS = 50;
+
+/**
+ * Derives a step's dwell from the real pause observed during capture: the
+ * time between two clicks, minus the step's own camera move and the travel
+ * time of the following step.
+ */
+export const dwellFromCaptureGap = (
+  gapMs: number,
+  step: StepTiming,
+  next: StepTiming
+) =>
+  Math.round(
+    Math.min(
+      MAX_DWELL_MS,
+      Math.max(MIN_DWELL_MS, gapMs - step.animationMs - next.transitionMs)
+    )
+  );
+
+/**
+ * How long each part of a replayed step lasts, in playback time: the slide
+ * change when the step is on another slide than `slideIndex`, the cursor's
+ * travel, then the step's animation and dwell after the click. The live auto
+ * replay and the exports' replay timeline both follow this schedule.
+ */
+export const getStepSchedule = (record: ClickRecord, slideIndex: number) => ({
+  slideChangeMs: record.slideIndex === slideIndex ? 0 : SLIDE_TRANSITION_MS,
+  travelMs: record.timing.transitionMs,
+  afterClickMs: record.timing.animationMs + record.timing.dwellMs,
+});
+
+export const updateStepTiming = (
+  sequence: ClickRecord[],
+  stepId: number,
+  timing: Partial<StepTiming>
+) =>
+  sequence.map((record) =>
+    record.id === stepId
+      ? { ...record, timing: { ...record.timing, ...timing } }
+      : record
+  );
+
+export interface PlaybackClock {
+  speed: number;
+  isPaused: boolean;
+  isCancelled: boolean;
+}
+
+/**
+ * Waits `ms` of *playback* time: scaled by the clock's speed and frozen while
+ * it is paused. Resolves false if the clock is cancelled meanwhile. The clock
+ * is re-read on every tick, so speed and pause changes apply immediately.
+ */
+export const waitPlayback = (ms: number, getClock: () => PlaybackClock) =>
+  new Promise<boolean>((resolve) => {
+    let remaining = ms;
+    let last = performance.now();
+    const tick = () => {
+      const { speed, isPaused, isCancelled } = getClock();
+      if (isCancelled) {
+        resolve(false);
+        return;
+      }
+      const now = performance.now();
+      if (!isPaused) remaining -= (now - last) * speed;
+      last = now;
+      if (remaining <= 0) {
+        resolve(true);
+        return;
+      }
+      setTimeout(
+        tick,
+        isPaused ? TICK_MS : Math.min(TICK_MS, remaining / speed)
+      );
+    };
+    tick();
+  });
@@ -0,0 +1,89 @@
+import { VideoAction, VideoPlayback } from '../types';
+
+/** How a video starts out when a replay resets the slides. */
+export const INITIAL_VIDEO_PLAYBACK: VideoPlayback = {
+  time: 0,
+  isPlaying: false,
+  isMuted: false,
+  rate: 1,
+};
+
+// Replay only seeks when the video is further off than this, so a video that
+// is already playing along is not made to stutter.
+export const SEEK_TOLERANCE = 0.5; // seconds
+
+export const VIDEO_ACTIONS: readonly VideoAction[] = [
+  'play',
+  'pause',
+  'seek',
+  'mute',
+  'unmute',
+  'rate',
+];
+
+export const readVideoPlayback = (video: HTMLVideoElement): VideoPlayback => ({
+  time: video.currentTime,
+  isPlaying: !video.paused && !video.ended,
+  isMuted: video.muted,
+  rate: video.playbackRate,
+});
+
+export const isSamePlayback = (a: VideoPlayback, b: VideoPlayback | null) =>
+  b !== null &&
+  a.time === b.time &&
+  a.isPlaying === b.isPlaying &&
+  a.isMuted === b.isMuted &&
+  a.rate === b.rate;
+
+/** Brings a video element to `playback`, touching only what differs. */
+export const applyVideoPlayback = (
+  video: HTMLVideoElement,
+  playback: VideoPlayback
+) => {
+  if (video.muted !== playback.isMuted) video.muted = playback.isMuted;
+  if (video.playbackRate !== playback.rate) video.playbackRate = playback.rate;
+  if (Math.abs(video.currentTime - playback.time) > SEEK_TOLERANCE) {
+    video.currentTime = playback.time;
+  }
+  if (playback.isPlaying && video.paused) {
+    video.play().catch((error: unknown) => {
+      // A pause requested before playback started is not a failure.
+      if (error instanceof DOMException && error.name === 'AbortError') return;
+      console.error('Failed to play video', error);
+    });
+  } else if (!playback.isPlaying && !video.paused) {
+    video.pause();
+  }
+};
+
+/** `m:ss`, or `h:mm:ss` for videos an hour or longer. */
+export const formatVideoTime = (seconds: number) => {
+  const whole = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(whole / 3600);
+  const minutes = Math.floor((whole % 3600) / 60);
+  const secs = String(whole % 60).padStart(2, '0');
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}`
+    : `${minutes}:${secs}`;
+};
+
+export const describeVideoAction = (
+  action: VideoAction,
+  playback: VideoPlayback | null
+): string => {
+  const at = playback ? ` at ${formatVideoTime(playback.time)}` : '';
+  switch (action) {
+    case 'play':
+      return `Play video${at}`;
+    case 'pause':
+      return `Pause video${at}`;
+    case 'seek':
+      return `Seek video${playback ? ` to ${formatVideoTime(playback.time)}` : ''}`;
+    case 'mute':
+      return 'Mute video';
+    case 'unmute':
+      return 'Unmute video';
+    case 'rate':
+      return `Video speed ${playback?.rate ?? 1}×`;
+  }
+};
@@ -0,0 +1,266 @@
+import { ClickRecord, Slide } from '../types';
+
+import { Size } from './coordinates';
+import { downloadBlob } from './exportUtils';
+import {
+  createLayer,
+  createMediaLoader,
+  drawSlide,
+  getContext,
+} from './frameRender';
+import { buildReplayTimeline, getReplayFrame } from './replayTimeline';
+
+export interface VideoSettings extends Size {
+  fps: number;
+}
+
+export interface VideoExportOptions extends VideoSettings {
+  onProgress?: (renderedFrames: number, totalFrames: number) => void;
+  signal?: AbortSignal;
+}
+
+export const VIDEO_RESOLUTIONS: (Size & { label: string })[] = [
+  { width: 1280, height: 720, label: '720p' },
+  { width: 1920, height: 1080, label: '1080p' },
+  { width: 2560, height: 1440, label: '1440p' },
+];
+export const VIDEO_FRAME_RATES = [24, 30, 60];
+export const DEFAULT_VIDEO_SETTINGS: VideoSettings = {
+  width: 1920,
+  height: 1080,
+  fps: 30,
+};
+
+// Best first, for browsers with WebCodecs.
+const ENCODER_CODECS = [
+  { codec: 'vp09.00.10.08', muxerCodec: 'V_VP9' },
+  { codec: 'vp8', muxerCodec: 'V_VP8' },
+];
+// Best first, for the MediaRecorder fallback.
+const WEBM_TYPES = [
+  'video/webm;codecs=vp9',
+  'video/webm;codecs=vp8',
+  'video/webm',
+];
+const BITS_PER_PIXEL_FRAME = 0.1;
+const KEYFRAME_INTERVAL_S = 2;
+// Frames the encoder may hold before rendering waits for it to catch up.
+const MAX_QUEUED_FRAMES = 8;
+
+/** The WebM type this browser can record, or null if it can't. */
+export const getWebmMimeType = () =>
+  typeof MediaRecorder === 'undefined' ||
+  typeof HTMLCanvasElement.prototype.captureStream !== 'function'
+    ? null
+    : (WEBM_TYPES.find((type) => MediaRecorder.isTypeSupported(type)) ?? null);
+
+/**
+ * How this browser would record a video: `'exact'` encodes every frame with
+ * its own timestamp, `'approximate'` falls back to recording in real time,
+ * where timer jitter and background tabs can stretch frames.
+ */
+export const getVideoEncoding = (): 'exact' | 'approximate' | null => {
+  if (typeof VideoEncoder !== 'undefined') return 'exact';
+  return getWebmMimeType() ? 'approximate' : null;
+};
+
+/** Frames needed to show `durationMs`, including the one at the very end. */
+export const getFrameCount = (durationMs: number, fps: number) =>
+  Math.ceil((durationMs / 1000) * fps) + 1;
+
+const getBitrate = ({ width, height, fps }: VideoSettings) =>
+  Math.round(width * height * fps * BITS_PER_PIXEL_FRAME);
+
+/** A canvas that shows any frame of the replay on request. */
+const createFrameRenderer = (
+  slides: Slide[],
+  clickSequence: ClickRecord[],
+  { width, height, fps }: VideoSettings
+) => {
+  const size = { width, height };
+  const timeline = buildReplayTimeline(slides, clickSequence);
+  const canvas = createLayer(size);
+  const context = getContext(canvas);
+  // Slides are drawn on their own layers, then placed along the strip.
+  const slideLayers = [createLayer(size), createLayer(size)];
+  const media = createMediaLoader();
+
+  const drawFrame = async (frame: number) => {
+    const { stripOffset, slides: inView } = getReplayFrame(
+      timeline,
+      Math.min((frame * 1000) / fps, timeline.durationMs)
+    );
+    context.clearRect(0, 0, width, height);
+    for (const [index, slideFrame] of inView.entries()) {
+      const layer = slideLayers[index];
+      if (!layer) continue;
+      drawSlide(
+        getContext(layer),
+        slideFrame.slide,
+        await media.load(slideFrame.slide),
+        size,
+        slideFrame.animation,
+        slideFrame.cursor
+      );
+      context.drawImage(
+        layer,
+        Math.round((slideFrame.slideIndex - stripOffset) * width),
+        0
+      );
+    }
+  };
+
+  return {
+    canvas,
+    frameCount: getFrameCount(timeline.durationMs, fps),
+    drawFrame,
+    dispose: media.dispose,
+  };
+};
+
+type FrameRenderer = ReturnType<typeof createFrameRenderer>;
+
+const getEncoderConfig = async (settings: VideoSettings) => {
+  if (typeof VideoEncoder === 'undefined') return null;
+  for (const { codec, muxerCodec } of ENCODER_CODECS) {
+    const config: VideoEncoderConfig = {
+      codec,
+      width: settings.width,
+      height: settings.height,
+      bitrate: getBitrate(settings),
+      framerate: settings.fps,
+    };
+    const { supported } = await VideoEncoder.isConfigSupported(config);
+    if (supported) return { config, muxerCodec };
+  }
+  return null;
+};
+
+// Encodes each frame with the timestamp of its place in the replay, so the
+// video's timing is exact however long rendering and encoding take.
+const encodeFrames = async (
+  renderer: FrameRenderer,
+  { config, muxerCodec }: { config: VideoEncoderConfig; muxerCodec: string },
+  { width, height, fps, onProgress, signal }: VideoExportOptions
+) => {
+  const { ArrayBufferTarget, Muxer } = await import('webm-muxer');
+  const muxer = new Muxer({
+    target: new ArrayBufferTarget(),
+    video: { codec: muxerCodec, width, height, frameRate: fps },
+  });
+  let fail: (error: unknown) => void = () => undefined;
+  const failed = new Promise<never>((_, reject) => {
+    fail = reject;
+  });
+  failed.catch(() => undefined);
+  const encoder = new VideoEncoder({
+    output: (chunk, metadata) => muxer.addVideoChunk(chunk, metadata),
+    error: (error) => fail(error),
+  });
+  encoder.configure(config);
+  const frameDuration = 1e6 / fps; // µs
+
+  try {
+    for (let frame = 0; frame < renderer.frameCount; frame++) {
+      signal?.throwIfAborted();
+      await renderer.drawFrame(frame);
+      const videoFrame = new VideoFrame(renderer.canvas, {
+        timestamp: Math.round(frame * frameDuration),
+        duration: Math.round(frameDuration),
+      });
+      encoder.encode(videoFrame, {
+        keyFrame: frame % (fps * KEYFRAME_INTERVAL_S) === 0,
+      });
+      videoFrame.close();
+      while (encoder.encodeQueueSize > MAX_QUEUED_FRAMES) {
+        await Promise.race([
+          new Promise((resolve) =>
+            encoder.addEventListener('dequeue', resolve, { once: true })
+          ),
+          failed,
+        ]);
+      }
+      onProgress?.(frame + 1, renderer.frameCount);
+    }
+    await Promise.race([encoder.flush(), failed]);
+  } finally {
+    if (encoder.state !== 'closed') encoder.close();
+  }
+  muxer.finalize();
+  return new Blob([muxer.target.buffer], { type: 'video/webm' });
+};
+
+const wait = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+// Fallback for browsers without WebCodecs. MediaRecorder stamps frames with
+// the time they arrive, so the recorder is paused while each frame is drawn
+// and only runs for that frame's duration. Frame timing is therefore only
+// approximate, and recording takes at least as long as the video.
+const recordFrames = async (
+  renderer: FrameRenderer,
+  mimeType: string,
+  options: VideoExportOptions
+) => {
+  const { fps, onProgress, signal } = options;
+  const stream = renderer.canvas.captureStream(0);
+  const [track] = stream.getVideoTracks() as CanvasCaptureMediaStreamTrack[];
+  const recorder = new MediaRecorder(stream, {
+    mimeType,
+    videoBitsPerSecond: getBitrate(options),
+  });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  const stopped = new Promise<void>((resolve) => {
+    recorder.onstop = () => resolve();
+  });
+
+  try {
+    recorder.start();
+    recorder.pause();
+    for (let frame = 0; frame < renderer.frameCount; frame++) {
+      signal?.throwIfAborted();
+      await renderer.drawFrame(frame);
+      recorder.resume();
+      track?.requestFrame();
+      await wait(1000 / fps);
+      recorder.pause();
+      onProgress?.(frame + 1, renderer.frameCount);
+    }
+  } finally {
+    if (recorder.state !== 'inactive') recorder.stop();
+    stream.getTracks().forEach((streamTrack) => streamTrack.stop());
+  }
+  await stopped;
+  return new Blob(chunks, { type: 'video/webm' });
+};
+
+/**
+ * Records the auto replay to a WebM file. Every frame is drawn from the
+ * replay timeline at its exact time, so the result doesn't depend on how
+ * fast frames render or on the window's size. Videos on slides are silent.
+ */
+export const recordReplayVideo = async (
+  slides: Slide[],
+  clickSequence: ClickRecord[],
+  options: VideoExportOptions,
+  fileName = 'presentation.webm'
+) => {
+  const encoder = await getEncoderConfig(options);
+  const mimeType = getWebmMimeType();
+  const record = encoder
+    ? (renderer: FrameRenderer) => encodeFrames(renderer, encoder, options)
+    : mimeType
+      ? (renderer: FrameRenderer) => recordFrames(renderer, mimeType, options)
+      : null;
+  if (!record) throw new Error('This browser cannot record WebM video');
+
+  const renderer = createFrameRenderer(slides, clickSequence, options);
+  try {
+    downloadBlob(await record(renderer), fileName);
+  } finally {
+    renderer.dispose();
+  }
+};
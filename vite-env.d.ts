@@ -0,0 +1,7 @@
+/// <reference types="vite/client" />
+
+// The standalone player, bundled into one script by vite.config.ts.
+declare module 'virtual:player-bundle' {
+  export const script: string;
+  export const styles: string;
+}
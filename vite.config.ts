@@ -1,12 +1,63 @@
 import path from 'path';
 
-import { defineConfig, loadEnv } from 'vite';
+import { Plugin, Rollup, build, defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 import { visualizer } from 'rollup-plugin-visualizer';
+import postcss from 'postcss';
+import tailwindcss from 'tailwindcss';
+
+const PLAYER_BUNDLE_ID = 'virtual:player-bundle';
+
+/**
+ * Serves `virtual:player-bundle`: the standalone player (player.tsx) built
+ * into a single script, plus the Tailwind styles its components use, so that
+ * exported HTML files work offline without the CDN the app loads.
+ */
+const playerBundle = (): Plugin => ({
+  name: 'player-bundle',
+  resolveId: (id) =>
+    id === PLAYER_BUNDLE_ID ? `\0${PLAYER_BUNDLE_ID}` : undefined,
+  async load(id) {
+    if (id !== `\0${PLAYER_BUNDLE_ID}`) return undefined;
+    const result = await build({
+      configFile: false,
+      logLevel: 'warn',
+      plugins: [react()],
+      resolve: { alias: { '@': path.resolve(__dirname, '.') } },
+      define: { 'process.env.NODE_ENV': JSON.stringify('production') },
+      build: {
+        write: false,
+        lib: {
+          entry: path.resolve(__dirname, 'player.tsx'),
+          formats: ['iife'],
+          name: 'PresentationPlayer',
+        },
+      },
+    });
+    const [chunk] = (result as Rollup.RollupOutput[])[0]?.output ?? [];
+    if (chunk?.type !== 'chunk') {
+      throw new Error('The player build produced no script');
+    }
+    chunk.moduleIds
+      .filter((moduleId) => moduleId.startsWith(__dirname))
+      .forEach((moduleId) => this.addWatchFile(moduleId));
+    const { css } = await postcss([
+      tailwindcss({
+        content: chunk.moduleIds.filter((moduleId) => /\.tsx$/.test(moduleId)),
+      }),
+    ]).process('@tailwind base; @tailwind components; @tailwind utilities;', {
+      from: undefined,
+    });
+    return [
+      `export const script = ${JSON.stringify(chunk.code)};`,
+      `export const styles = ${JSON.stringify(css)};`,
+    ].join('\n');
+  },
+});
 
 export default defineConfig(({ mode }) => {
   const env = loadEnv(mode, '.', '');
-  const plugins = [react()];
+  const plugins = [react(), playerBundle()];
 
   // Only add visualizer in analyze mode to avoid TypeScript issues
   if (process.env.npm_lifecycle_event === 'analyze') {